@@ -0,0 +1,197 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.27;
+
+import {FHE, ebool, euint32} from "@fhevm/solidity/lib/FHE.sol";
+
+/// @title DriveChallenges - 双人对战挑战
+/// @notice 比较双方在挑战窗口内的加密总分，只向双方公开胜负标志
+/// @dev 窗口按每次行程的提交时间判断：同一天窗口内的行程先求和，日期翻转或结算时按均值计入总分，
+///      因此跨越窗口边界的一天只计入窗口内的行程，结算时尚未结算的行程日也会计入
+/// @dev 外部库：由 DriveScoreLogger 通过 DELEGATECALL 调用，状态和 ACL 授权都属于调用合约
+library DriveChallenges {
+    /// @notice 挑战状态
+    enum ChallengeStatus {
+        Pending,    // 等待对方接受
+        Active,     // 进行中，双方的提交计入挑战总分
+        Finalized,  // 已结束并生成胜负结果
+        Cancelled   // 对方拒绝或发起方撤回
+    }
+
+    /// @notice 一方在挑战窗口内的累加
+    struct Entry {
+        euint32 encryptedTotal;        // 已计入的日评分加密总和（仅合约可访问）
+        uint32 day;                    // 正在累加的自然日（UTC 天数）
+        uint32 dayTripCount;           // 该日在窗口内的行程数量（0 表示没有待计入的行程）
+        euint32 encryptedDayTotal;     // 该日在窗口内的加密行程总分（仅合约可访问）
+    }
+
+    /// @notice 双人对战挑战
+    struct Challenge {
+        address challenger;            // 发起方
+        address opponent;              // 受邀方
+        ChallengeStatus status;        // 挑战状态
+        uint64 createdAt;              // 发起时间
+        uint64 startTime;              // 接受时间（窗口开始）
+        uint64 endTime;                // 窗口结束时间
+        Entry challengerEntry;         // 发起方在窗口内的累加
+        Entry opponentEntry;           // 受邀方在窗口内的累加
+        ebool encryptedChallengerWon;  // 加密胜负标志：发起方总分 > 受邀方总分（平局算受邀方获胜）
+    }
+
+    /// @notice 全部挑战的存储
+    struct Registry {
+        mapping(uint256 => Challenge) challenges;         // 挑战ID => 挑战（ID 从 1 开始）
+        mapping(address => uint256[]) userChallengeIds;   // 用户 => 参与的全部挑战ID
+        mapping(address => uint256[]) activeChallengeIds; // 用户 => 进行中（尚未结算）的挑战ID
+    }
+
+    /// @notice 挑战窗口时长
+    uint256 internal constant CHALLENGE_DURATION = 7 days;
+
+    /// @notice 每个用户最多可同时进行的挑战数量（限制每次提交的累加开销）
+    uint8 internal constant MAX_ACTIVE_CHALLENGES = 5;
+
+    /// @notice 对手地址为空或为自己
+    error InvalidOpponent();
+    /// @notice 挑战不是待接受状态，或调用者不是被邀请的对手
+    error NotInvited();
+    /// @notice 任一方进行中的挑战已达上限
+    error TooManyActiveChallenges();
+    /// @notice 挑战不是待接受状态
+    error ChallengeNotPending();
+    /// @notice 调用者不是挑战参与方
+    error NotAuthorized();
+    /// @notice 挑战不在进行中
+    error ChallengeNotActive();
+    /// @notice 挑战窗口尚未结束
+    error ChallengeNotEnded();
+
+    /// @notice 创建挑战
+    function create(Registry storage self, uint256 challengeId, address challenger, address opponent) external {
+        if (opponent == address(0) || opponent == challenger) revert InvalidOpponent();
+
+        Challenge storage challenge = self.challenges[challengeId];
+        challenge.challenger = challenger;
+        challenge.opponent = opponent;
+        challenge.createdAt = uint64(block.timestamp);
+        self.userChallengeIds[challenger].push(challengeId);
+        self.userChallengeIds[opponent].push(challengeId);
+    }
+
+    /// @notice 受邀方接受挑战，窗口从此刻开始
+    function accept(Registry storage self, uint256 challengeId, address opponent) external returns (
+        uint64 startTime,
+        uint64 endTime
+    ) {
+        Challenge storage challenge = self.challenges[challengeId];
+        if (challenge.status != ChallengeStatus.Pending || challenge.opponent != opponent) revert NotInvited();
+        if (
+            self.activeChallengeIds[challenge.challenger].length >= MAX_ACTIVE_CHALLENGES ||
+            self.activeChallengeIds[opponent].length >= MAX_ACTIVE_CHALLENGES
+        ) revert TooManyActiveChallenges();
+
+        challenge.status = ChallengeStatus.Active;
+        challenge.startTime = uint64(block.timestamp);
+        challenge.endTime = uint64(block.timestamp + CHALLENGE_DURATION);
+        challenge.challengerEntry.encryptedTotal = FHE.asEuint32(0);
+        challenge.opponentEntry.encryptedTotal = FHE.asEuint32(0);
+        FHE.allowThis(challenge.challengerEntry.encryptedTotal);
+        FHE.allowThis(challenge.opponentEntry.encryptedTotal);
+        self.activeChallengeIds[challenge.challenger].push(challengeId);
+        self.activeChallengeIds[opponent].push(challengeId);
+
+        return (challenge.startTime, challenge.endTime);
+    }
+
+    /// @notice 受邀方拒绝，或发起方撤回尚未接受的挑战
+    function cancel(Registry storage self, uint256 challengeId, address caller) external {
+        Challenge storage challenge = self.challenges[challengeId];
+        if (challenge.status != ChallengeStatus.Pending) revert ChallengeNotPending();
+        if (caller != challenge.challenger && caller != challenge.opponent) revert NotAuthorized();
+
+        challenge.status = ChallengeStatus.Cancelled;
+    }
+
+    /// @notice 窗口结束后在密文状态下比较双方总分，胜负标志只授权给双方
+    /// @dev 窗口已结束，不会再有窗口内的行程，双方最后一天的累加可以直接计入
+    function finalize(Registry storage self, uint256 challengeId) external {
+        Challenge storage challenge = self.challenges[challengeId];
+        if (challenge.status != ChallengeStatus.Active) revert ChallengeNotActive();
+        if (block.timestamp < challenge.endTime) revert ChallengeNotEnded();
+
+        _settleDay(challenge.challengerEntry);
+        _settleDay(challenge.opponentEntry);
+        challenge.encryptedChallengerWon = FHE.gt(
+            challenge.challengerEntry.encryptedTotal,
+            challenge.opponentEntry.encryptedTotal
+        );
+        FHE.allowThis(challenge.encryptedChallengerWon);
+        FHE.allow(challenge.encryptedChallengerWon, challenge.challenger);
+        FHE.allow(challenge.encryptedChallengerWon, challenge.opponent);
+        challenge.status = ChallengeStatus.Finalized;
+
+        _removeActive(self, challenge.challenger, challengeId);
+        _removeActive(self, challenge.opponent, challengeId);
+    }
+
+    /// @notice 将一次行程累加到用户所有覆盖当前时间的挑战：之前日期的累加先按均值计入总分
+    /// @param settleDay 是否立即把当天的累加计入总分（测试模式下每次行程即为一天）
+    function recordTrip(Registry storage self, address driver, euint32 encryptedScore, bool settleDay) external {
+        uint32 today = uint32(block.timestamp / 1 days);
+        uint256[] storage ids = self.activeChallengeIds[driver];
+        for (uint256 i = 0; i < ids.length; i++) {
+            Challenge storage challenge = self.challenges[ids[i]];
+            if (block.timestamp < challenge.startTime || block.timestamp >= challenge.endTime) {
+                continue;
+            }
+            Entry storage entry = challenge.challenger == driver ? challenge.challengerEntry : challenge.opponentEntry;
+            if (entry.day != today) {
+                _settleDay(entry);
+                entry.day = today;
+            }
+            entry.dayTripCount++;
+            entry.encryptedDayTotal = FHE.add(entry.encryptedDayTotal, encryptedScore);
+            FHE.allowThis(entry.encryptedDayTotal);
+            if (settleDay) {
+                _settleDay(entry);
+            }
+        }
+    }
+
+    /// @notice 将一条回填的日记录累加到用户所有覆盖该记录时间的挑战总分
+    function recordDay(Registry storage self, address driver, euint32 encryptedValue, uint64 recordTime) external {
+        uint256[] storage ids = self.activeChallengeIds[driver];
+        for (uint256 i = 0; i < ids.length; i++) {
+            Challenge storage challenge = self.challenges[ids[i]];
+            if (recordTime < challenge.startTime || recordTime >= challenge.endTime) {
+                continue;
+            }
+            Entry storage entry = challenge.challenger == driver ? challenge.challengerEntry : challenge.opponentEntry;
+            entry.encryptedTotal = FHE.add(entry.encryptedTotal, encryptedValue);
+            FHE.allowThis(entry.encryptedTotal);
+        }
+    }
+
+    /// @dev 将一天在窗口内的行程按均值（向下取整）计入总分
+    function _settleDay(Entry storage entry) private {
+        if (entry.dayTripCount == 0) {
+            return;
+        }
+        entry.encryptedTotal = FHE.add(entry.encryptedTotal, FHE.div(entry.encryptedDayTotal, entry.dayTripCount));
+        FHE.allowThis(entry.encryptedTotal);
+        delete entry.dayTripCount;
+        entry.encryptedDayTotal = euint32.wrap(0);
+    }
+
+    /// @dev 从用户的进行中挑战列表移除已结算的挑战
+    function _removeActive(Registry storage self, address driver, uint256 challengeId) private {
+        uint256[] storage ids = self.activeChallengeIds[driver];
+        for (uint256 i = 0; i < ids.length; i++) {
+            if (ids[i] == challengeId) {
+                ids[i] = ids[ids.length - 1];
+                ids.pop();
+                break;
+            }
+        }
+    }
+}
@@ -0,0 +1,143 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.27;
+
+import {FHE, euint32} from "@fhevm/solidity/lib/FHE.sol";
+
+/// @title DriveFleets - 车队加密聚合
+/// @notice 车队经理可解密定期发布的车队总分和均值，但看不到成员的单条评分
+/// @dev 每次提交都授权新的总分句柄会让经理用相邻两次的差值还原单条评分，
+///      因此累计总分只授权给合约，达到成员数和提交数门槛后才按周期发布快照
+/// @dev 外部库：由 DriveScoreLogger 通过 DELEGATECALL 调用，状态和 ACL 授权都属于调用合约
+library DriveFleets {
+    /// @notice 车队
+    struct Fleet {
+        address manager;             // 车队经理
+        string name;                 // 车队名称
+        uint64 createdAt;            // 创建时间
+        uint32 totalSubmissions;     // 成员在车队期间的提交次数
+        euint32 encryptedTotalScore; // 加密车队累计总分（只授权给合约）
+        address[] members;           // 当前成员
+        uint32 round;                // 发布轮次（每次发布后 +1）
+        uint32 roundMembers;         // 本轮有提交的不同成员数量
+        uint32 roundSubmissions;     // 本轮的提交次数
+        mapping(address => uint32) memberRounds; // 成员 => 最近一次有提交的轮次 + 1
+        uint64 publishedAt;          // 最近一次发布的时间（0 表示尚未发布）
+        uint32 publishedSubmissions; // 最近一次发布时的提交次数
+        euint32 encryptedPublishedTotal;   // 已发布的加密车队总分（授权给经理）
+        euint32 encryptedPublishedAverage; // 已发布的加密车队均值（总分 / 提交次数，向下取整）
+    }
+
+    /// @notice 两次发布之间的最短间隔
+    uint256 internal constant PUBLISH_INTERVAL = 7 days;
+
+    /// @notice 发布前本轮至少需要有提交的不同成员数量
+    uint32 internal constant MIN_PUBLISH_MEMBERS = 3;
+
+    /// @notice 发布前本轮至少需要的提交次数
+    uint32 internal constant MIN_PUBLISH_SUBMISSIONS = 5;
+
+    /// @notice 全部车队的存储
+    struct Registry {
+        mapping(uint256 => Fleet) fleets;             // 车队ID => 车队（ID 从 1 开始）
+        mapping(address => uint256) driverFleetIds;   // 司机 => 所属车队ID（0 表示未加入车队）
+        mapping(address => uint256[]) managerFleetIds; // 经理 => 创建的车队ID列表
+    }
+
+    /// @notice 车队名称为空或超过 64 字节
+    error InvalidFleetName();
+    /// @notice 车队不存在
+    error UnknownFleet();
+    /// @notice 司机已加入其他车队
+    error AlreadyInFleet();
+    /// @notice 司机未加入车队
+    error NotInFleet();
+    /// @notice 调用者既不是司机本人也不是车队经理
+    error NotAuthorized();
+    /// @notice 距上次发布未满 PUBLISH_INTERVAL
+    error PublishTooEarly();
+    /// @notice 本轮有提交的成员数或提交次数未达到发布门槛
+    error InsufficientFleetActivity();
+
+    /// @notice 创建车队
+    function create(Registry storage self, uint256 fleetId, address manager, string calldata name) external {
+        if (bytes(name).length == 0 || bytes(name).length > 64) revert InvalidFleetName();
+
+        Fleet storage fleet = self.fleets[fleetId];
+        fleet.manager = manager;
+        fleet.name = name;
+        fleet.createdAt = uint64(block.timestamp);
+        self.managerFleetIds[manager].push(fleetId);
+    }
+
+    /// @notice 司机加入车队（加入前的历史评分不计入车队）
+    function join(Registry storage self, uint256 fleetId, address driver) external {
+        Fleet storage fleet = self.fleets[fleetId];
+        if (fleet.manager == address(0)) revert UnknownFleet();
+        if (self.driverFleetIds[driver] != 0) revert AlreadyInFleet();
+
+        self.driverFleetIds[driver] = fleetId;
+        fleet.members.push(driver);
+    }
+
+    /// @notice 将司机移出车队（司机本人或车队经理均可调用）
+    /// @return fleetId 司机原来所属的车队ID
+    function remove(Registry storage self, address driver, address caller) external returns (uint256 fleetId) {
+        fleetId = self.driverFleetIds[driver];
+        if (fleetId == 0) revert NotInFleet();
+        Fleet storage fleet = self.fleets[fleetId];
+        if (caller != driver && caller != fleet.manager) revert NotAuthorized();
+
+        address[] storage members = fleet.members;
+        for (uint256 i = 0; i < members.length; i++) {
+            if (members[i] == driver) {
+                members[i] = members[members.length - 1];
+                members.pop();
+                break;
+            }
+        }
+        self.driverFleetIds[driver] = 0;
+    }
+
+    /// @notice 将一条日记录累加到司机所属车队的累计总分（不授权给经理），并记录本轮的成员和提交次数
+    function recordScore(Registry storage self, address driver, euint32 encryptedValue) external {
+        uint256 fleetId = self.driverFleetIds[driver];
+        if (fleetId == 0) {
+            return;
+        }
+        Fleet storage fleet = self.fleets[fleetId];
+
+        fleet.encryptedTotalScore = FHE.add(fleet.encryptedTotalScore, encryptedValue);
+        fleet.totalSubmissions++;
+        FHE.allowThis(fleet.encryptedTotalScore);
+
+        if (fleet.memberRounds[driver] != fleet.round + 1) {
+            fleet.memberRounds[driver] = fleet.round + 1;
+            fleet.roundMembers++;
+        }
+        fleet.roundSubmissions++;
+    }
+
+    /// @notice 发布当前累计总分和均值的快照并授权给车队经理，然后开始新一轮
+    /// @dev 相邻两次快照的差值至多还原出本轮全部成员提交的总和，而不是单条评分
+    function publish(Registry storage self, uint256 fleetId, address caller) external {
+        Fleet storage fleet = self.fleets[fleetId];
+        if (fleet.manager == address(0)) revert UnknownFleet();
+        if (caller != fleet.manager) revert NotAuthorized();
+        if (fleet.publishedAt != 0 && block.timestamp < fleet.publishedAt + PUBLISH_INTERVAL) revert PublishTooEarly();
+        if (fleet.roundMembers < MIN_PUBLISH_MEMBERS || fleet.roundSubmissions < MIN_PUBLISH_SUBMISSIONS) {
+            revert InsufficientFleetActivity();
+        }
+
+        fleet.encryptedPublishedTotal = fleet.encryptedTotalScore;
+        fleet.encryptedPublishedAverage = FHE.div(fleet.encryptedTotalScore, fleet.totalSubmissions);
+        fleet.publishedAt = uint64(block.timestamp);
+        fleet.publishedSubmissions = fleet.totalSubmissions;
+        fleet.round++;
+        fleet.roundMembers = 0;
+        fleet.roundSubmissions = 0;
+
+        FHE.allowThis(fleet.encryptedPublishedAverage);
+        FHE.allow(fleet.encryptedPublishedTotal, fleet.manager);
+        FHE.allow(fleet.encryptedPublishedAverage, fleet.manager);
+    }
+}
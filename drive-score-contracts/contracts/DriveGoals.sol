@@ -0,0 +1,123 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.27;
+
+import {FHE, ebool, euint32, externalEuint32} from "@fhevm/solidity/lib/FHE.sol";
+
+/// @title DriveGoals - 加密个人目标
+/// @notice 目标均值加密存储，目标周期内的进度只有用户本人可以解密
+/// @dev 周期按每次行程的提交时间判断：同一天周期内的行程先求和，日期翻转或周期结束后按均值计为一天，
+///      因此跨越周期边界的一天只计入周期内的行程
+/// @dev 外部库：由 DriveScoreLogger 通过 DELEGATECALL 调用，状态和 ACL 授权都属于调用合约
+library DriveGoals {
+    /// @notice 个人目标
+    struct PersonalGoal {
+        euint32 encryptedTarget;         // 加密目标均值（0-100）
+        uint64 periodStart;              // 周期开始时间（设置目标的时间）
+        uint64 periodEnd;                // 周期结束时间（0 表示未设置目标）
+        uint32 periodRecords;            // 周期内已计入的天数
+        euint32 encryptedPeriodTotal;    // 周期内的加密总分
+        euint32 encryptedOnTargetCount;  // 周期内评分 ≥ 目标的加密次数
+        ebool encryptedGoalMet;          // 加密标志：周期内均值 ≥ 目标
+        uint32 day;                      // 正在累加的自然日（UTC 天数）
+        uint32 dayTripCount;             // 该日在周期内的行程数量（0 表示没有待计入的行程）
+        euint32 encryptedDayTotal;       // 该日在周期内的加密行程总分（仅合约可访问）
+    }
+
+    /// @notice 个人目标周期的最长时长
+    uint256 internal constant MAX_GOAL_PERIOD = 366 days;
+
+    /// @notice 周期结束时间已过或超过最长周期
+    error InvalidGoalPeriod();
+
+    /// @notice 设置（或替换）目标，重置周期进度；超出范围的目标在密文状态下裁剪到 maxScore
+    function set(
+        PersonalGoal storage goal,
+        address driver,
+        externalEuint32 encryptedTarget,
+        bytes calldata inputProof,
+        uint64 periodEnd,
+        uint32 maxScore
+    ) external {
+        if (periodEnd <= block.timestamp || periodEnd > block.timestamp + MAX_GOAL_PERIOD) revert InvalidGoalPeriod();
+
+        goal.encryptedTarget = FHE.min(FHE.fromExternal(encryptedTarget, inputProof), maxScore);
+        goal.periodStart = uint64(block.timestamp);
+        goal.periodEnd = periodEnd;
+        goal.periodRecords = 0;
+        goal.encryptedPeriodTotal = FHE.asEuint32(0);
+        goal.encryptedOnTargetCount = FHE.asEuint32(0);
+        goal.encryptedGoalMet = FHE.asEbool(false);
+        delete goal.dayTripCount;
+        goal.encryptedDayTotal = euint32.wrap(0);
+
+        FHE.allowThis(goal.encryptedTarget);
+        FHE.allowThis(goal.encryptedPeriodTotal);
+        FHE.allowThis(goal.encryptedOnTargetCount);
+        FHE.allowThis(goal.encryptedGoalMet);
+        FHE.allow(goal.encryptedTarget, driver);
+        FHE.allow(goal.encryptedOnTargetCount, driver);
+        FHE.allow(goal.encryptedGoalMet, driver);
+    }
+
+    /// @notice 将一次行程累加到周期内当天的行程总分：之前日期（或周期已结束）的累加先按均值计为一天
+    /// @param settleDay 是否立即把当天的累加计为一天（测试模式下每次行程即为一天）
+    function recordTrip(PersonalGoal storage goal, address driver, euint32 encryptedScore, bool settleDay) external {
+        uint32 today = uint32(block.timestamp / 1 days);
+        _settleFinishedDay(goal, driver, today);
+        if (block.timestamp < goal.periodStart || block.timestamp >= goal.periodEnd) {
+            return;
+        }
+
+        goal.day = today;
+        goal.dayTripCount++;
+        goal.encryptedDayTotal = FHE.add(goal.encryptedDayTotal, encryptedScore);
+        FHE.allowThis(goal.encryptedDayTotal);
+        if (settleDay) {
+            _settleDay(goal, driver);
+        }
+    }
+
+    /// @notice 把已经结束的一天（或周期结束前的最后一天）的累加计入目标（结算行程日时调用）
+    function settle(PersonalGoal storage goal, address driver) external {
+        _settleFinishedDay(goal, driver, uint32(block.timestamp / 1 days));
+    }
+
+    /// @notice 将一条回填的日记录计入目标（记录时间须在周期内）
+    function recordDay(PersonalGoal storage goal, address driver, euint32 encryptedValue, uint64 recordTime) external {
+        if (recordTime < goal.periodStart || recordTime >= goal.periodEnd) {
+            return;
+        }
+        _addDay(goal, driver, encryptedValue);
+    }
+
+    /// @dev 累加的日期已翻转或周期已结束时，把累加计为一天
+    function _settleFinishedDay(PersonalGoal storage goal, address driver, uint32 today) private {
+        if (goal.dayTripCount > 0 && (goal.day != today || block.timestamp >= goal.periodEnd)) {
+            _settleDay(goal, driver);
+        }
+    }
+
+    /// @dev 日评分 = 周期内当天的行程总分 / 行程数量（向下取整）
+    function _settleDay(PersonalGoal storage goal, address driver) private {
+        _addDay(goal, driver, FHE.div(goal.encryptedDayTotal, goal.dayTripCount));
+        delete goal.dayTripCount;
+        goal.encryptedDayTotal = euint32.wrap(0);
+    }
+
+    /// @dev 周期内的一天计入目标：均值 ≥ 目标 等价于 总分 ≥ 目标 × 天数，避免密文除法
+    function _addDay(PersonalGoal storage goal, address driver, euint32 encryptedValue) private {
+        goal.periodRecords++;
+        goal.encryptedPeriodTotal = FHE.add(goal.encryptedPeriodTotal, encryptedValue);
+        goal.encryptedOnTargetCount = FHE.add(
+            goal.encryptedOnTargetCount,
+            FHE.asEuint32(FHE.ge(encryptedValue, goal.encryptedTarget))
+        );
+        goal.encryptedGoalMet = FHE.ge(goal.encryptedPeriodTotal, FHE.mul(goal.encryptedTarget, goal.periodRecords));
+
+        FHE.allowThis(goal.encryptedPeriodTotal);
+        FHE.allowThis(goal.encryptedOnTargetCount);
+        FHE.allowThis(goal.encryptedGoalMet);
+        FHE.allow(goal.encryptedOnTargetCount, driver);
+        FHE.allow(goal.encryptedGoalMet, driver);
+    }
+}
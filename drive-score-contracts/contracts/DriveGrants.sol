@@ -0,0 +1,89 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.27;
+
+import {FHE, euint32} from "@fhevm/solidity/lib/FHE.sol";
+
+/// @title DriveGrants - 第三方均值查看授权
+/// @notice 用户授权第三方（如保险公司）解密自己的加密均值快照，不包括每日评分
+/// @dev 每条新记录的均值都授权给第三方时，对方可用 n·avg_n − (n−1)·avg_(n−1) 还原每日评分，
+///      因此只共享快照：两次快照之间至少新增 MIN_SHARE_RECORDS 条记录，差值最多还原出这些记录的总和
+/// @dev 外部库：由 DriveScoreLogger 通过 DELEGATECALL 调用，状态和 ACL 授权都属于调用合约
+library DriveGrants {
+    /// @notice 一个用户的均值查看授权
+    struct AverageGrants {
+        address[] grantees;                   // 被授权解密均值的第三方
+        mapping(address => uint64) grantTimes; // 第三方 => 授权时间（0 表示未授权）
+        euint32 encryptedSharedAverage;       // 最近一次共享的加密均值快照
+        uint32 sharedRecords;                 // 快照时的记录数量
+        uint64 sharedAt;                      // 快照时间（0 表示尚未共享）
+    }
+
+    /// @notice 每个用户最多可同时授权查看均值的第三方数量（限制每次提交的授权开销）
+    uint8 internal constant MAX_AVERAGE_GRANTS = 10;
+
+    /// @notice 两次均值快照之间至少新增的记录数量（首次快照同样至少需要这么多条记录）
+    uint32 internal constant MIN_SHARE_RECORDS = 7;
+
+    /// @notice 授权对象为空或为自己
+    error InvalidGrantee();
+    /// @notice 已授权该地址
+    error AlreadyGranted();
+    /// @notice 授权数量已达上限
+    error TooManyGrants();
+    /// @notice 未授权该地址
+    error NotGranted();
+
+    /// @notice 添加授权：已有快照时立即授权，记录数量足够时先刷新快照
+    function grant(
+        AverageGrants storage self,
+        address owner,
+        address grantee,
+        euint32 encryptedAverage,
+        uint32 totalRecords
+    ) external {
+        if (grantee == address(0) || grantee == owner) revert InvalidGrantee();
+        if (self.grantTimes[grantee] != 0) revert AlreadyGranted();
+        if (self.grantees.length >= MAX_AVERAGE_GRANTS) revert TooManyGrants();
+
+        self.grantees.push(grantee);
+        self.grantTimes[grantee] = uint64(block.timestamp);
+
+        if (totalRecords >= self.sharedRecords + MIN_SHARE_RECORDS) {
+            _share(self, encryptedAverage, totalRecords);
+        } else if (self.sharedAt != 0) {
+            FHE.allow(self.encryptedSharedAverage, grantee);
+        }
+    }
+
+    /// @notice 撤销授权（ACL 授权无法收回：对方仍可解密撤销前已授权的均值快照）
+    function revoke(AverageGrants storage self, address grantee) external {
+        if (self.grantTimes[grantee] == 0) revert NotGranted();
+
+        address[] storage grantees = self.grantees;
+        for (uint256 i = 0; i < grantees.length; i++) {
+            if (grantees[i] == grantee) {
+                grantees[i] = grantees[grantees.length - 1];
+                grantees.pop();
+                break;
+            }
+        }
+        delete self.grantTimes[grantee];
+    }
+
+    /// @notice 自上次快照以来新增的记录数量足够时，以当前均值刷新快照（每条新记录后调用）
+    function refresh(AverageGrants storage self, euint32 encryptedAverage, uint32 totalRecords) external {
+        if (totalRecords >= self.sharedRecords + MIN_SHARE_RECORDS) {
+            _share(self, encryptedAverage, totalRecords);
+        }
+    }
+
+    /// @dev 记录快照并授权给所有仍有效的第三方
+    function _share(AverageGrants storage self, euint32 encryptedAverage, uint32 totalRecords) private {
+        self.encryptedSharedAverage = encryptedAverage;
+        self.sharedRecords = totalRecords;
+        self.sharedAt = uint64(block.timestamp);
+        for (uint256 i = 0; i < self.grantees.length; i++) {
+            FHE.allow(encryptedAverage, self.grantees[i]);
+        }
+    }
+}
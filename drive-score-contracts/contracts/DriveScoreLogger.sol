@@ -1,41 +1,178 @@
 // SPDX-License-Identifier: MIT
 pragma solidity ^0.8.27;
 
-import {FHE, euint32, externalEuint32} from "@fhevm/solidity/lib/FHE.sol";
+import {FHE, ebool, euint8, euint32, externalEuint8, externalEuint32} from "@fhevm/solidity/lib/FHE.sol";
 import {ZamaEthereumConfig} from "@fhevm/solidity/config/ZamaConfig.sol";
+import {DriveChallenges} from "./DriveChallenges.sol";
+import {DriveFleets} from "./DriveFleets.sol";
+import {DriveGoals} from "./DriveGoals.sol";
+import {DriveGrants} from "./DriveGrants.sol";
+import {DriveTrips} from "./DriveTrips.sol";
 
 /// @title DriveScoreLogger - 驾驶评分日志隐私上链合约
 /// @notice 使用 FHEVM 全同态加密保护个人驾驶行为隐私
 /// @dev 所有评分数据全加密存储，支持加密状态下的趋势计算和统计
 contract DriveScoreLogger is ZamaEthereumConfig {
+    using DriveChallenges for DriveChallenges.Registry;
+    using DriveFleets for DriveFleets.Registry;
+    using DriveGoals for DriveGoals.PersonalGoal;
+    using DriveGrants for DriveGrants.AverageGrants;
+    using DriveTrips for DriveTrips.TripDay;
+    using DriveTrips for DriveTrips.WeightedAggregate;
+
+    /// @notice 子评分维度数量（0=超速, 1=急刹车, 2=急转弯, 3=使用手机）
+    /// @dev 与 DriveTrips.SUB_SCORE_COUNT 保持一致（数组长度不能引用库常量）
+    uint8 public constant SUB_SCORE_COUNT = 4;
+
     /// @notice 驾驶记录结构
     struct DriveRecord {
         euint32 encryptedScore;      // 加密评分 0-100
         uint64 recordTime;            // 上链时间
-        uint8 distanceCategory;     // 里程等级: 0=未知, 1=短途(0-20km), 2=中程(20-50km), 3=长程(50km+)
+        euint8 encryptedDistanceCategory; // 加密里程等级: 0=未知, 1=短途(0-20km), 2=中程(20-50km), 3=长程(50km+)
+        ebool encryptedWasClamped;   // 加密标志：提交值超出范围并被裁剪到 MAX_SCORE
     }
 
     /// @notice 用户数据统计
     struct UserData {
         euint32 encryptedTotalScore;     // 累加总分（用于均值计算）
+        euint32 encryptedAverageScore;   // 加密均值（总分 / 记录数量，向下取整）
         uint32 totalRecords;              // 记录数量
         uint64 lastRecordTime;             // 最后提交时间
         uint16 continuousDays;             // 连续安全驾驶天数
         euint32 encryptedLastScore;       // 上一次评分（用于趋势计算）
         euint32 encryptedScoreChange;     // 评分差值（当前-上次，用于趋势判断）
-        DriveRecord[] historyRecords;     // 历史记录数组（最多保留最近50条）
+        ebool encryptedImproved;          // 是否较上次提升（当前 > 上次）
+        ebool encryptedDeclined;          // 是否较上次下降（当前 < 上次）
+        euint32 encryptedScoreDelta;      // 评分变化的绝对值 |当前-上次|
+        euint32 encryptedBestScore;       // 历史最高分（不受环形缓冲区覆盖影响）
+        euint32 encryptedWorstScore;      // 历史最低分（不受环形缓冲区覆盖影响）
+        mapping(uint256 => DriveRecord) historyRecords; // 历史记录环形缓冲区（槽位 => 记录，保留最近50条）
+        uint8 historyHead;                 // 下一条记录写入的槽位
+        uint8 historyCount;                // 有效记录数量（不超过MAX_HISTORY_RECORDS）
+        mapping(uint256 => euint32) encryptedCategoryCounts; // 里程等级 => 加密提交次数
+        mapping(uint256 => euint32) encryptedCategorySums;   // 里程等级 => 加密评分总和
+        mapping(uint256 => euint32[SUB_SCORE_COUNT]) historySubScores; // 环形缓冲区槽位 => 该记录的加密子评分
+        mapping(uint256 => euint32) encryptedSubScoreTotals; // 子评分维度 => 加密总和
+    }
+
+    /// @notice 门槛证明记录：“最近 K 条记录的均值 ≥ 门槛”的公开解密结果
+    struct Attestation {
+        address driver;              // 申请证明的司机
+        uint32 threshold;            // 均值门槛
+        uint8 recordCount;           // 参与计算的最近记录数量 K
+        uint64 requestedAt;          // 申请时间
+        ebool encryptedResult;       // 加密的比较结果（已标记为可公开解密）
+        bool isRevealed;             // 是否已提交公开解密结果
+        bool passed;                 // 公开解密后的结果
+        uint64 revealedAt;           // 结果上链时间
+    }
+
+    /// @notice 与全体用户均值的比较结果（只有用户本人可以解密）
+    struct PopulationComparison {
+        ebool encryptedIsAboveAverage; // 加密标志：比较时用户均值 > 全体均值
+        uint64 comparedAt;             // 比较时间（0 表示从未比较）
     }
 
     /// @notice 用户地址到数据统计的映射
     mapping(address => UserData) public userDataMap;
 
+    /// @notice 用户地址到均值查看授权（如保险公司）的映射
+    mapping(address => DriveGrants.AverageGrants) private averageGrants;
+
+    /// @notice 用户地址到尚未结算的行程累加的映射
+    mapping(address => DriveTrips.TripDay) private pendingTripDays;
+
+    /// @notice 已获管理员批准回填历史日记录的用户
+    mapping(address => bool) public isBackfillApproved;
+
+    /// @notice 司机地址到已接受的监护人（可查看全部评分明细）的映射
+    mapping(address => address) private guardians;
+
+    /// @notice 司机地址到已提议、等待对方接受的监护人的映射
+    mapping(address => address) private pendingGuardians;
+
+    /// @notice 监护人地址到其被监护司机列表的映射
+    mapping(address => address[]) private guardianWards;
+
+    /// @notice 全体用户的加密评分总和（只授权给合约本身，任何人都无法解密）
+    euint32 private encryptedPopulationTotal;
+
+    /// @notice 全体用户的提交次数
+    uint32 public populationSubmissions;
+
+    /// @notice 用户地址到最近一次全体均值比较结果的映射
+    mapping(address => PopulationComparison) private populationComparisons;
+
+    /// @notice 用户地址到按里程加权统计的映射
+    mapping(address => DriveTrips.WeightedAggregate) private weightedAggregates;
+
+    /// @notice 用户地址到当前个人目标的映射
+    mapping(address => DriveGoals.PersonalGoal) private personalGoals;
+
+    /// @notice 全部车队（逻辑位于外部库 DriveFleets，以控制合约体积）
+    DriveFleets.Registry private fleetRegistry;
+
+    /// @notice 已创建的车队数量（同时是最新的车队ID）
+    uint256 public fleetCount;
+
+    /// @notice 全部对战挑战（逻辑位于外部库 DriveChallenges，以控制合约体积）
+    DriveChallenges.Registry private challengeRegistry;
+
+    /// @notice 已创建的挑战数量（同时是最新的挑战ID）
+    uint256 public challengeCount;
+
+    /// @notice 证明ID到证明记录的映射（ID 从 1 开始）
+    mapping(uint256 => Attestation) private attestations;
+
+    /// @notice 司机地址到其全部证明ID的映射
+    mapping(address => uint256[]) private driverAttestationIds;
+
+    /// @notice 已创建的证明数量（同时是最新的证明ID）
+    uint256 public attestationCount;
+
     /// @notice 最大保留记录数
     uint8 public constant MAX_HISTORY_RECORDS = 50;
 
-    /// @notice 每日提交间隔（秒）
-    uint256 public constant DAILY_SUBMIT_INTERVAL = 86400; // 24小时
+    /// @notice 评分上限（超出的加密输入会被裁剪到该值）
+    uint32 public constant MAX_SCORE = 100;
+
+    /// @notice 里程等级数量（0=未知, 1=短途, 2=中程, 3=长程）
+    uint8 public constant DISTANCE_CATEGORY_COUNT = 4;
+
+    /// @notice 中程行程的加权均值权重（未知和短途的权重为 1）
+    uint32 public constant MEDIUM_DISTANCE_WEIGHT = DriveTrips.MEDIUM_DISTANCE_WEIGHT;
+
+    /// @notice 长程行程的加权均值权重
+    uint32 public constant LONG_DISTANCE_WEIGHT = DriveTrips.LONG_DISTANCE_WEIGHT;
+
+    /// @notice 每个用户最多可同时授权查看均值的第三方数量（限制每次提交的授权开销）
+    uint8 public constant MAX_AVERAGE_GRANTS = DriveGrants.MAX_AVERAGE_GRANTS;
+
+    /// @notice 均值快照两次刷新之间至少新增的记录数量
+    uint32 public constant AVERAGE_SHARE_MIN_RECORDS = DriveGrants.MIN_SHARE_RECORDS;
+
+    /// @notice 挑战窗口时长
+    uint256 public constant CHALLENGE_DURATION = DriveChallenges.CHALLENGE_DURATION;
+
+    /// @notice 每个用户最多可同时进行的挑战数量
+    uint8 public constant MAX_ACTIVE_CHALLENGES = DriveChallenges.MAX_ACTIVE_CHALLENGES;
+
+    /// @notice 车队聚合两次发布之间的最短间隔
+    uint256 public constant FLEET_PUBLISH_INTERVAL = DriveFleets.PUBLISH_INTERVAL;
+
+    /// @notice 车队聚合发布前本轮至少需要有提交的不同成员数量
+    uint32 public constant MIN_FLEET_PUBLISH_MEMBERS = DriveFleets.MIN_PUBLISH_MEMBERS;
+
+    /// @notice 车队聚合发布前本轮至少需要的提交次数
+    uint32 public constant MIN_FLEET_PUBLISH_SUBMISSIONS = DriveFleets.MIN_PUBLISH_SUBMISSIONS;
 
-    /// @notice 测试模式：允许绕过时间限制（仅用于开发测试）
+    /// @notice 个人目标周期的最长时长
+    uint256 public constant MAX_GOAL_PERIOD = DriveGoals.MAX_GOAL_PERIOD;
+
+    /// @notice 回填历史日记录的最长回溯时间
+    uint256 public constant MAX_BACKFILL_AGE = 90 days;
+
+    /// @notice 测试模式：每次行程立即结算为一条日记录（仅用于开发测试）
     bool public isTestModeEnabled = false;
 
     /// @notice 管理员地址（用于启用/禁用测试模式）
@@ -51,7 +188,7 @@ contract DriveScoreLogger is ZamaEthereumConfig {
 
     /// @notice 切换测试模式（仅管理员）
     function toggleTestMode(bool _enabled) external {
-        require(msg.sender == contractAdmin, "Only admin");
+        if (msg.sender != contractAdmin) revert OnlyAdmin();
         isTestModeEnabled = _enabled;
         emit TestModeChanged(_enabled);
     }
@@ -59,135 +196,662 @@ contract DriveScoreLogger is ZamaEthereumConfig {
     /// @notice 重置用户提交时间（仅测试模式）
     /// @param userAddress 要重置的用户地址
     function resetUserRecordTime(address userAddress) external {
-        require(isTestModeEnabled, "Test mode not enabled");
-        require(msg.sender == contractAdmin, "Only admin");
+        if (!isTestModeEnabled) revert TestModeNotEnabled();
+        if (msg.sender != contractAdmin) revert OnlyAdmin();
         userDataMap[userAddress].lastRecordTime = 0;
     }
 
-    /// @notice 评分提交事件
+    /// @notice 回填批准变更事件
+    event BackfillApprovalChanged(address indexed userAddress, bool approved);
+
+    /// @notice 批准或撤销用户回填历史日记录（仅管理员）
+    /// @param userAddress 用户地址
+    /// @param approved 是否批准
+    function setBackfillApproval(address userAddress, bool approved) external {
+        if (msg.sender != contractAdmin) revert OnlyAdmin();
+        isBackfillApproved[userAddress] = approved;
+        emit BackfillApprovalChanged(userAddress, approved);
+    }
+
+    /// @notice 行程提交事件
+    event TripRecorded(address indexed userAddress, uint32 day, uint32 tripCount);
+
+    /// @notice 日记录结算事件
     event ScoreRecorded(
         address indexed userAddress,
-        uint64 recordTime,
-        uint8 distanceCategory
+        uint64 recordTime
+    );
+
+    /// @notice 均值查看授权事件
+    event AverageAccessGranted(address indexed userAddress, address indexed grantee);
+
+    /// @notice 均值查看授权撤销事件
+    event AverageAccessRevoked(address indexed userAddress, address indexed grantee);
+
+    /// @notice 门槛证明申请事件
+    event AttestationRequested(
+        uint256 indexed attestationId,
+        address indexed driver,
+        uint32 threshold,
+        uint8 recordCount
     );
 
+    /// @notice 门槛证明结果上链事件
+    event AttestationRevealed(uint256 indexed attestationId, address indexed driver, bool passed);
+
+    /// @notice 监护关系提议事件
+    event GuardianProposed(address indexed driver, address indexed guardian);
+
+    /// @notice 监护关系接受事件
+    event GuardianAccepted(address indexed driver, address indexed guardian);
+
+    /// @notice 监护关系解除事件
+    event GuardianRemoved(address indexed driver, address indexed guardian);
+
+    /// @notice 全体均值比较事件
+    event PopulationComparisonUpdated(address indexed userAddress, uint64 comparedAt);
+
+    /// @notice 个人目标设置事件（不包含目标值）
+    event GoalSet(address indexed userAddress, uint64 periodStart, uint64 periodEnd);
+
+    /// @notice 挑战发起事件
+    event ChallengeCreated(uint256 indexed challengeId, address indexed challenger, address indexed opponent);
+
+    /// @notice 挑战接受事件
+    event ChallengeAccepted(uint256 indexed challengeId, uint64 startTime, uint64 endTime);
+
+    /// @notice 挑战拒绝/撤回事件
+    event ChallengeCancelled(uint256 indexed challengeId);
+
+    /// @notice 挑战结算事件
+    event ChallengeFinalized(uint256 indexed challengeId);
+
+    /// @notice 车队创建事件
+    event FleetCreated(uint256 indexed fleetId, address indexed manager, string name);
+
+    /// @notice 司机加入车队事件
+    event FleetJoined(uint256 indexed fleetId, address indexed driver);
+
+    /// @notice 司机离开车队事件（主动离开或被经理移出）
+    event FleetLeft(uint256 indexed fleetId, address indexed driver);
+
+    /// @notice 车队聚合发布事件
+    event FleetAggregatesPublished(uint256 indexed fleetId, uint32 totalSubmissions);
+
     /// @notice 连续天数更新事件
     event ContinuousDaysChanged(
         address indexed userAddress,
         uint16 continuousDays
     );
 
-    /// @notice 提交驾驶评分
-    /// @param encryptedScore 加密的评分值 (0-100)
-    /// @param inputProof 输入证明
-    /// @param distanceCategory 里程等级 (0=未知, 1=短途, 2=中程, 3=长程)
+    /// @notice 仅管理员可调用
+    error OnlyAdmin();
+    /// @notice 测试模式未启用
+    error TestModeNotEnabled();
+    /// @notice 用户未获批准回填历史记录
+    error BackfillNotApproved();
+    /// @notice 没有可结算的行程日（无行程或当天尚未结束）
+    error NoDayToFinalize();
+    /// @notice 阈值超过 MAX_SCORE
+    error InvalidThreshold();
+    /// @notice 记录数量为 0 或超过历史记录数量
+    error InvalidRecordCount();
+    /// @notice 证明不存在
+    error UnknownAttestation();
+    /// @notice 证明结果已公开
+    error AlreadyRevealed();
+    /// @notice 监护人地址为空或为自己
+    error InvalidGuardian();
+    /// @notice 已设置监护人
+    error GuardianAlreadySet();
+    /// @notice 调用者不是被提名的监护人
+    error NotProposed();
+    /// @notice 没有监护人或待接受的提名
+    error NoGuardian();
+    /// @notice 调用者无权执行该操作
+    error NotAuthorized();
+    /// @notice 没有记录
+    error NoRecords();
+    /// @notice 挑战不存在
+    error UnknownChallenge();
+    /// @notice 车队不存在
+    error UnknownFleet();
+    /// @notice 记录少于 2 条，无法计算趋势
+    error InsufficientRecordsForTrend();
+    /// @notice 记录索引超出范围
+    error IndexOutOfBounds();
+
+    /// @notice 提交一次行程的子评分：综合评分在链上以加密加权和推导，
+    ///         同一自然日（UTC）的行程先在密文状态下累加，日期翻转后结算为一条日记录
+    /// @param encryptedSubScores 加密的子评分，按 超速、急刹车、急转弯、使用手机 排列
+    ///        (各 0-100，超过 MAX_SCORE 的值会在密文状态下被裁剪)
+    /// @param encryptedDistanceCategory 加密的里程等级 (0=未知, 1=短途, 2=中程, 3=长程，超出范围视为未知)
+    /// @param inputProof 输入证明（子评分与里程等级须来自同一个加密输入）
+    /// @dev 测试模式下每次行程立即结算为一条日记录
     function recordDriveScore(
-        externalEuint32 encryptedScore,
+        externalEuint32[SUB_SCORE_COUNT] calldata encryptedSubScores,
+        externalEuint8 encryptedDistanceCategory,
+        bytes calldata inputProof
+    ) external {
+        // 1. 验证并转换加密输入，按里程权重计入加权统计（同一天的行程各自加权，而不是按日记录加权）
+        DriveTrips.Trip memory trip = _decodeTrip(encryptedSubScores, encryptedDistanceCategory, inputProof);
+
+        // 2. 日期已翻转时，先把之前累加的行程结算为日记录
+        DriveTrips.TripDay storage tripDay = pendingTripDays[msg.sender];
+        uint32 today = uint32(block.timestamp / 1 days);
+        if (tripDay.tripCount > 0 && tripDay.day != today) {
+            _finalizeTripDay(msg.sender, tripDay);
+        }
+
+        // 3. 累加当天的行程
+        tripDay.accumulate(msg.sender, today, trip);
+
+        // 4. 挑战窗口和目标周期按行程的提交时间判断，当天的行程在日期翻转后按均值计入
+        challengeRegistry.recordTrip(msg.sender, trip.encryptedScore, isTestModeEnabled);
+        personalGoals[msg.sender].recordTrip(msg.sender, trip.encryptedScore, isTestModeEnabled);
+
+        emit TripRecorded(msg.sender, today, tripDay.tripCount);
+
+        if (isTestModeEnabled) {
+            _finalizeTripDay(msg.sender, tripDay);
+        }
+    }
+
+    /// @notice 回填一条历史日记录（需管理员批准），直接以指定时间写入，不经过当天的行程累加
+    /// @param encryptedSubScores 加密的子评分，要求与 recordDriveScore 相同
+    /// @param encryptedDistanceCategory 加密的里程等级
+    /// @param inputProof 输入证明
+    /// @param recordTime 记录时间：须晚于最近一条记录所在的自然日、早于今天和尚未结算的行程日，
+    ///        且不早于 MAX_BACKFILL_AGE 之前（日记录始终按时间顺序写入）
+    /// @dev 每个自然日最多回填一条；连续天数、挑战和目标都按 recordTime 计算
+    function recordDriveScoreAt(
+        externalEuint32[SUB_SCORE_COUNT] calldata encryptedSubScores,
+        externalEuint8 encryptedDistanceCategory,
         bytes calldata inputProof,
-        uint8 distanceCategory
+        uint64 recordTime
     ) external {
-        // 1. 验证并转换外部加密输入
-        euint32 encryptedValue = FHE.fromExternal(encryptedScore, inputProof);
+        if (!isBackfillApproved[msg.sender]) revert BackfillNotApproved();
+        pendingTripDays[msg.sender].requireBackfillTime(
+            userDataMap[msg.sender].lastRecordTime,
+            recordTime,
+            MAX_BACKFILL_AGE
+        );
+
+        DriveTrips.Trip memory trip = _decodeTrip(encryptedSubScores, encryptedDistanceCategory, inputProof);
+        _recordDailyScore(msg.sender, trip, recordTime);
 
-        // 2. 验证里程等级范围
-        require(distanceCategory <= 3, "Invalid distance category");
+        // 回填的是完整的一天，按记录时间计入挑战和目标
+        challengeRegistry.recordDay(msg.sender, trip.encryptedScore, recordTime);
+        personalGoals[msg.sender].recordDay(msg.sender, trip.encryptedScore, recordTime);
+    }
+
+    /// @notice 结算之前日期累加的行程（日期翻转后还没有新的行程时使用）
+    function finalizePendingDay() external {
+        DriveTrips.TripDay storage tripDay = pendingTripDays[msg.sender];
+        if (tripDay.tripCount == 0 || tripDay.day >= block.timestamp / 1 days) revert NoDayToFinalize();
+        _finalizeTripDay(msg.sender, tripDay);
+        personalGoals[msg.sender].settle(msg.sender);
+    }
+
+    /// @notice 获取尚未结算的行程累加情况
+    /// @param userAddress 用户地址
+    /// @return day 累加中的自然日（UTC 天数，自 1970-01-01 起）
+    /// @return tripCount 已累加的行程数量（0 表示没有未结算的行程）
+    /// @return lastTripTime 最近一次行程的提交时间
+    /// @return encryptedTripTotal 加密的行程评分总和
+    function getPendingTrips(address userAddress) external view returns (
+        uint32 day,
+        uint32 tripCount,
+        uint64 lastTripTime,
+        euint32 encryptedTripTotal
+    ) {
+        DriveTrips.TripDay storage tripDay = pendingTripDays[userAddress];
+        return (tripDay.day, tripDay.tripCount, tripDay.lastTripTime, tripDay.encryptedTripTotal);
+    }
 
-        // 3. 检查每日提交限制（测试模式下跳过）
+    /// @notice 授权第三方解密自己的加密均值快照（不包括每日评分）
+    /// @param grantee 被授权的地址（如保险公司）
+    /// @dev 第三方只获得均值快照：每新增 AVERAGE_SHARE_MIN_RECORDS 条记录刷新一次，
+    ///      相邻快照的差值只能还原这些记录的总和，无法还原单日评分
+    function grantAverageAccess(address grantee) external {
         UserData storage userData = userDataMap[msg.sender];
-        if (userData.lastRecordTime > 0 && !isTestModeEnabled) {
-            require(
-                block.timestamp - userData.lastRecordTime >= DAILY_SUBMIT_INTERVAL,
-                "Only one submission per day"
-            );
+        averageGrants[msg.sender].grant(msg.sender, grantee, userData.encryptedAverageScore, userData.totalRecords);
+
+        emit AverageAccessGranted(msg.sender, grantee);
+    }
+
+    /// @notice 撤销第三方对均值的解密授权
+    /// @param grantee 要撤销的地址
+    /// @dev ACL 授权无法收回：对方仍可解密撤销前已授权的均值快照，但不会再获得之后的新快照
+    function revokeAverageAccess(address grantee) external {
+        averageGrants[msg.sender].revoke(grantee);
+
+        emit AverageAccessRevoked(msg.sender, grantee);
+    }
+
+    /// @notice 获取当前有效的均值查看授权列表
+    /// @param userAddress 用户地址
+    /// @return grantees 被授权的地址列表
+    /// @return grantedAt 对应的授权时间
+    function getAverageGrants(address userAddress) external view returns (
+        address[] memory grantees,
+        uint64[] memory grantedAt
+    ) {
+        DriveGrants.AverageGrants storage userGrants = averageGrants[userAddress];
+        grantees = userGrants.grantees;
+        grantedAt = new uint64[](grantees.length);
+        for (uint256 i = 0; i < grantees.length; i++) {
+            grantedAt[i] = userGrants.grantTimes[grantees[i]];
         }
+    }
 
-        // 4. 更新累加总分（用于均值计算）
-        if (userData.totalRecords == 0) {
-            // 首次提交，直接赋值
-            userData.encryptedTotalScore = encryptedValue;
-        } else {
-            // 累加
-            userData.encryptedTotalScore = FHE.add(userData.encryptedTotalScore, encryptedValue);
+    /// @notice 申请门槛证明：在密文状态下比较“最近 K 条记录的均值 ≥ 门槛”，并将结果标记为可公开解密
+    /// @param threshold 均值门槛 (0-100)
+    /// @param recordCount 参与计算的最近记录数量 K（不超过当前有效记录数）
+    /// @return attestationId 新证明的ID，任何人都可以据此公开解密并调用 finalizeAttestation
+    /// @dev 均值 ≥ 门槛 等价于 总和 ≥ 门槛 × K，避免密文除法；只公开这一个布尔结果
+    function requestThresholdAttestation(uint32 threshold, uint8 recordCount) external returns (uint256 attestationId) {
+        if (threshold > MAX_SCORE) revert InvalidThreshold();
+        UserData storage userData = userDataMap[msg.sender];
+        if (recordCount == 0 || recordCount > userData.historyCount) revert InvalidRecordCount();
+
+        euint32 encryptedSum = userData.historyRecords[_slotFromNewest(userData, 0)].encryptedScore;
+        for (uint256 i = 1; i < recordCount; i++) {
+            encryptedSum = FHE.add(encryptedSum, userData.historyRecords[_slotFromNewest(userData, i)].encryptedScore);
         }
+        ebool encryptedResult = FHE.ge(encryptedSum, threshold * recordCount);
+
+        FHE.allowThis(encryptedResult);
+        FHE.makePubliclyDecryptable(encryptedResult);
+
+        attestationId = ++attestationCount;
+        Attestation storage attestation = attestations[attestationId];
+        attestation.driver = msg.sender;
+        attestation.threshold = threshold;
+        attestation.recordCount = recordCount;
+        attestation.requestedAt = uint64(block.timestamp);
+        attestation.encryptedResult = encryptedResult;
+        driverAttestationIds[msg.sender].push(attestationId);
+
+        emit AttestationRequested(attestationId, msg.sender, threshold, recordCount);
+    }
+
+    /// @notice 提交门槛证明的公开解密结果（需附带 KMS 解密证明，任何人都可以调用）
+    /// @param attestationId 证明ID
+    /// @param abiEncodedCleartexts 公开解密得到的 ABI 编码明文
+    /// @param decryptionProof KMS 签名证明
+    function finalizeAttestation(
+        uint256 attestationId,
+        bytes calldata abiEncodedCleartexts,
+        bytes calldata decryptionProof
+    ) external {
+        Attestation storage attestation = attestations[attestationId];
+        if (attestation.driver == address(0)) revert UnknownAttestation();
+        if (attestation.isRevealed) revert AlreadyRevealed();
+
+        bytes32[] memory handles = new bytes32[](1);
+        handles[0] = FHE.toBytes32(attestation.encryptedResult);
+        FHE.checkSignatures(handles, abiEncodedCleartexts, decryptionProof);
+
+        bool passed = abi.decode(abiEncodedCleartexts, (bool));
+        attestation.isRevealed = true;
+        attestation.passed = passed;
+        attestation.revealedAt = uint64(block.timestamp);
+
+        emit AttestationRevealed(attestationId, attestation.driver, passed);
+    }
+
+    /// @notice 获取门槛证明记录
+    /// @param attestationId 证明ID
+    /// @return 证明记录
+    function getAttestation(uint256 attestationId) external view returns (Attestation memory) {
+        Attestation storage attestation = attestations[attestationId];
+        if (attestation.driver == address(0)) revert UnknownAttestation();
+        return attestation;
+    }
+
+    /// @notice 获取司机的全部证明ID（按申请顺序）
+    /// @param driver 司机地址
+    /// @return 证明ID列表
+    function getAttestationIds(address driver) external view returns (uint256[] memory) {
+        return driverAttestationIds[driver];
+    }
 
-        // 5. 计算趋势差值（当前评分 - 上次评分）
+    /// @notice 提议监护人（如父母），对方接受后可查看全部评分明细
+    /// @param guardian 监护人地址
+    function proposeGuardian(address guardian) external {
+        if (guardian == address(0) || guardian == msg.sender) revert InvalidGuardian();
+        if (guardians[msg.sender] != address(0)) revert GuardianAlreadySet();
+
+        pendingGuardians[msg.sender] = guardian;
+        emit GuardianProposed(msg.sender, guardian);
+    }
+
+    /// @notice 监护人接受监护关系，并获得该司机现有记录和统计的解密权限
+    /// @param driver 提议方司机地址
+    function acceptGuardianship(address driver) external {
+        if (pendingGuardians[driver] != msg.sender) revert NotProposed();
+
+        guardians[driver] = msg.sender;
+        pendingGuardians[driver] = address(0);
+        guardianWards[msg.sender].push(driver);
+
+        UserData storage userData = userDataMap[driver];
         if (userData.totalRecords > 0) {
-            // 计算差值：current - previous
-            // 如果差值 > 0，表示改善；< 0 表示下降；= 0 表示无变化
-            userData.encryptedScoreChange = FHE.sub(encryptedValue, userData.encryptedLastScore);
-        } else {
-            // 首次提交，差值为0（加密）
-            userData.encryptedScoreChange = FHE.sub(encryptedValue, encryptedValue);
+            _allowAggregates(userData, msg.sender);
+        }
+        for (uint256 i = 0; i < userData.historyCount; i++) {
+            _allowRecord(userData, _slotFromNewest(userData, i), msg.sender);
+        }
+        DriveTrips.WeightedAggregate storage weighted = weightedAggregates[driver];
+        if (FHE.isInitialized(weighted.encryptedTotalWeight)) {
+            _allowWeightedAggregates(weighted, msg.sender);
         }
 
-        // 6. 更新记录数量
-        userData.totalRecords++;
+        emit GuardianAccepted(driver, msg.sender);
+    }
 
-        // 7. 更新连续天数
-        if (userData.lastRecordTime == 0) {
-            // 首次提交
-            userData.continuousDays = 1;
-        } else {
-            uint256 timeDiff = block.timestamp - userData.lastRecordTime;
-            if (timeDiff < DAILY_SUBMIT_INTERVAL + 3600) {
-                // 在25小时内提交，视为连续
-                userData.continuousDays++;
-            } else {
-                // 超过25小时，重置连续天数
-                userData.continuousDays = 1;
-            }
+    /// @notice 解除监护关系（司机或监护人均可调用），也可撤回尚未接受的提议
+    /// @param driver 司机地址
+    /// @dev ACL 授权无法收回：监护人仍可解密解除前已授权的句柄，但不会再获得新的评分
+    function removeGuardian(address driver) external {
+        address guardian = guardians[driver];
+
+        if (guardian == address(0)) {
+            if (msg.sender != driver || pendingGuardians[driver] == address(0)) revert NoGuardian();
+            pendingGuardians[driver] = address(0);
+            return;
         }
+        if (msg.sender != driver && msg.sender != guardian) revert NotAuthorized();
 
-        // 8. 添加新记录
-        userData.historyRecords.push(DriveRecord({
-            encryptedScore: encryptedValue,
-            recordTime: uint64(block.timestamp),
-            distanceCategory: distanceCategory
-        }));
-
-        // 9. 限制记录数量（保留最近MAX_HISTORY_RECORDS条）
-        if (userData.historyRecords.length > MAX_HISTORY_RECORDS) {
-            // 移除最旧的记录（简化实现：只保留索引0到MAX_HISTORY_RECORDS-1）
-            // 注意：Solidity数组删除操作较昂贵，实际可考虑循环队列
-            for (uint256 i = 0; i < userData.historyRecords.length - MAX_HISTORY_RECORDS; i++) {
-                delete userData.historyRecords[i];
+        address[] storage wards = guardianWards[guardian];
+        for (uint256 i = 0; i < wards.length; i++) {
+            if (wards[i] == driver) {
+                wards[i] = wards[wards.length - 1];
+                wards.pop();
+                break;
             }
         }
+        guardians[driver] = address(0);
 
-        // 10. 更新上次评分和时间戳
-        userData.encryptedLastScore = encryptedValue;
-        userData.lastRecordTime = uint64(block.timestamp);
+        emit GuardianRemoved(driver, guardian);
+    }
 
-        // 11. ACL 授权 - 允许合约和用户访问加密数据
-        FHE.allowThis(encryptedValue);
-        FHE.allowThis(userData.encryptedTotalScore);
-        FHE.allowThis(userData.encryptedScoreChange);
-        FHE.allowThis(userData.encryptedLastScore);
-        
-        // 授权用户解密
-        FHE.allow(encryptedValue, msg.sender);
-        FHE.allow(userData.encryptedTotalScore, msg.sender);
-        FHE.allow(userData.encryptedScoreChange, msg.sender);
-        FHE.allow(userData.encryptedLastScore, msg.sender);
+    /// @notice 获取司机的监护关系
+    /// @param driver 司机地址
+    /// @return guardian 已接受的监护人
+    /// @return pendingGuardian 等待接受的监护人
+    function getGuardianInfo(address driver) external view returns (address guardian, address pendingGuardian) {
+        return (guardians[driver], pendingGuardians[driver]);
+    }
 
-        emit ScoreRecorded(msg.sender, uint64(block.timestamp), distanceCategory);
-        
-        if (userData.continuousDays > 1) {
-            emit ContinuousDaysChanged(msg.sender, userData.continuousDays);
-        }
+    /// @notice 获取监护人名下的司机列表
+    /// @param guardian 监护人地址
+    /// @return 被监护的司机地址列表
+    function getWards(address guardian) external view returns (address[] memory) {
+        return guardianWards[guardian];
+    }
+
+    /// @notice 在密文状态下比较“我的均值 > 全体均值”，结果只授权给调用者
+    /// @return 加密的比较结果
+    /// @dev 全体均值为全体评分总和 / 全体提交次数（向下取整），两个数值都不会被解密
+    function comparePopulationAverage() external returns (ebool) {
+        UserData storage userData = userDataMap[msg.sender];
+        if (userData.totalRecords == 0) revert NoRecords();
+
+        euint32 encryptedPopulationAverage = FHE.div(encryptedPopulationTotal, populationSubmissions);
+        ebool encryptedIsAboveAverage = FHE.gt(userData.encryptedAverageScore, encryptedPopulationAverage);
+        FHE.allowThis(encryptedIsAboveAverage);
+        FHE.allow(encryptedIsAboveAverage, msg.sender);
+
+        populationComparisons[msg.sender] = PopulationComparison({
+            encryptedIsAboveAverage: encryptedIsAboveAverage,
+            comparedAt: uint64(block.timestamp)
+        });
+
+        emit PopulationComparisonUpdated(msg.sender, uint64(block.timestamp));
+        return encryptedIsAboveAverage;
+    }
+
+    /// @notice 获取最近一次全体均值比较结果
+    /// @param userAddress 用户地址
+    /// @return encryptedIsAboveAverage 加密的比较结果（从未比较时为空句柄）
+    /// @return comparedAt 比较时间（0 表示从未比较）
+    function getPopulationComparison(address userAddress) external view returns (
+        ebool encryptedIsAboveAverage,
+        uint64 comparedAt
+    ) {
+        PopulationComparison storage comparison = populationComparisons[userAddress];
+        return (comparison.encryptedIsAboveAverage, comparison.comparedAt);
+    }
+
+    /// @notice 设置加密个人目标（如“本月均值 ≥ 85”），从现在起到 periodEnd 的提交计入进度，会替换之前的目标
+    /// @param encryptedTarget 加密的目标均值（超过 MAX_SCORE 的值会被裁剪）
+    /// @param inputProof 输入证明
+    /// @param periodEnd 周期结束时间
+    function setPersonalGoal(externalEuint32 encryptedTarget, bytes calldata inputProof, uint64 periodEnd) external {
+        DriveGoals.PersonalGoal storage goal = personalGoals[msg.sender];
+        goal.set(msg.sender, encryptedTarget, inputProof, periodEnd, MAX_SCORE);
+
+        emit GoalSet(msg.sender, goal.periodStart, periodEnd);
+    }
+
+    /// @notice 获取当前个人目标及进度
+    /// @param userAddress 用户地址
+    /// @return encryptedTarget 加密目标均值
+    /// @return periodStart 周期开始时间
+    /// @return periodEnd 周期结束时间（0 表示未设置目标）
+    /// @return periodRecords 周期内已计入的天数（周期内当天的行程在日期翻转或周期结束后计入）
+    /// @return encryptedOnTargetCount 周期内评分 ≥ 目标的加密次数
+    /// @return encryptedGoalMet 加密的“目标已达成”标志
+    function getPersonalGoal(address userAddress) external view returns (
+        euint32 encryptedTarget,
+        uint64 periodStart,
+        uint64 periodEnd,
+        uint32 periodRecords,
+        euint32 encryptedOnTargetCount,
+        ebool encryptedGoalMet
+    ) {
+        DriveGoals.PersonalGoal storage goal = personalGoals[userAddress];
+        return (
+            goal.encryptedTarget,
+            goal.periodStart,
+            goal.periodEnd,
+            goal.periodRecords,
+            goal.encryptedOnTargetCount,
+            goal.encryptedGoalMet
+        );
+    }
+
+    /// @notice 邀请另一位司机进行挑战，对方接受后开始 CHALLENGE_DURATION 的比赛窗口
+    /// @param opponent 受邀司机地址
+    /// @return challengeId 新挑战的ID
+    function createChallenge(address opponent) external returns (uint256 challengeId) {
+        challengeId = ++challengeCount;
+        challengeRegistry.create(challengeId, msg.sender, opponent);
+        emit ChallengeCreated(challengeId, msg.sender, opponent);
+    }
+
+    /// @notice 受邀方接受挑战，窗口从此刻开始；之后双方的日记录都会累加到各自的加密挑战总分
+    /// @param challengeId 挑战ID
+    function acceptChallenge(uint256 challengeId) external {
+        (uint64 startTime, uint64 endTime) = challengeRegistry.accept(challengeId, msg.sender);
+        emit ChallengeAccepted(challengeId, startTime, endTime);
+    }
+
+    /// @notice 受邀方拒绝，或发起方撤回尚未接受的挑战
+    /// @param challengeId 挑战ID
+    function cancelChallenge(uint256 challengeId) external {
+        challengeRegistry.cancel(challengeId, msg.sender);
+        emit ChallengeCancelled(challengeId);
+    }
+
+    /// @notice 窗口结束后结算挑战：在密文状态下比较双方总分，胜负标志只授权给双方（任何人都可以调用）
+    /// @param challengeId 挑战ID
+    /// @dev 双方窗口内尚未结算的行程日在比较前按均值计入，不需要先调用 finalizePendingDay
+    function finalizeChallenge(uint256 challengeId) external {
+        challengeRegistry.finalize(challengeId);
+        emit ChallengeFinalized(challengeId);
+    }
+
+    /// @notice 获取挑战详情（双方总分句柄只有合约可访问，结算后可解密 encryptedChallengerWon）
+    /// @param challengeId 挑战ID
+    /// @return 挑战记录
+    function getChallenge(uint256 challengeId) external view returns (DriveChallenges.Challenge memory) {
+        DriveChallenges.Challenge storage challenge = challengeRegistry.challenges[challengeId];
+        if (challenge.challenger == address(0)) revert UnknownChallenge();
+        return challenge;
+    }
+
+    /// @notice 获取用户参与的全部挑战ID（按发起顺序）
+    /// @param userAddress 用户地址
+    /// @return 挑战ID列表
+    function getChallengeIds(address userAddress) external view returns (uint256[] memory) {
+        return challengeRegistry.userChallengeIds[userAddress];
+    }
+
+    /// @notice 创建车队，调用者成为车队经理
+    /// @param name 车队名称
+    /// @return fleetId 新车队的ID，司机凭此ID加入
+    function createFleet(string calldata name) external returns (uint256 fleetId) {
+        fleetId = ++fleetCount;
+        fleetRegistry.create(fleetId, msg.sender, name);
+
+        emit FleetCreated(fleetId, msg.sender, name);
+    }
+
+    /// @notice 加入车队，之后的每次提交都会累加到车队的加密累计总分
+    /// @param fleetId 车队ID
+    /// @dev 加入前的历史评分不计入车队
+    function joinFleet(uint256 fleetId) external {
+        fleetRegistry.join(fleetId, msg.sender);
+
+        emit FleetJoined(fleetId, msg.sender);
+    }
+
+    /// @notice 将司机移出车队（司机本人或车队经理均可调用）
+    /// @param driver 司机地址
+    /// @dev 已累加的评分保留在车队总分中，之后的提交不再计入
+    function removeFleetMember(address driver) external {
+        uint256 fleetId = fleetRegistry.remove(driver, msg.sender);
+
+        emit FleetLeft(fleetId, driver);
+    }
+
+    /// @notice 发布车队总分和均值的快照，只有车队经理可以解密（仅车队经理可调用）
+    /// @param fleetId 车队ID
+    /// @dev 距上次发布须满 FLEET_PUBLISH_INTERVAL，且本轮至少有 MIN_FLEET_PUBLISH_MEMBERS 名成员、
+    ///      MIN_FLEET_PUBLISH_SUBMISSIONS 次提交，经理无法通过相邻快照的差值还原单条评分
+    function publishFleetAggregates(uint256 fleetId) external {
+        fleetRegistry.publish(fleetId, msg.sender);
+
+        emit FleetAggregatesPublished(fleetId, fleetRegistry.fleets[fleetId].publishedSubmissions);
+    }
+
+    /// @notice 获取司机所属车队ID
+    /// @param driver 司机地址
+    /// @return 车队ID（0 表示未加入车队）
+    function driverFleetIds(address driver) external view returns (uint256) {
+        return fleetRegistry.driverFleetIds[driver];
+    }
+
+    /// @notice 获取车队的明文信息
+    /// @param fleetId 车队ID
+    /// @return manager 车队经理
+    /// @return name 车队名称
+    /// @return createdAt 创建时间
+    /// @return memberCount 当前成员数量
+    /// @return totalSubmissions 成员在车队期间的提交次数
+    function getFleet(uint256 fleetId) external view returns (
+        address manager,
+        string memory name,
+        uint64 createdAt,
+        uint32 memberCount,
+        uint32 totalSubmissions
+    ) {
+        DriveFleets.Fleet storage fleet = fleetRegistry.fleets[fleetId];
+        if (fleet.manager == address(0)) revert UnknownFleet();
+        return (fleet.manager, fleet.name, fleet.createdAt, uint32(fleet.members.length), fleet.totalSubmissions);
+    }
+
+    /// @notice 获取车队当前成员
+    /// @param fleetId 车队ID
+    /// @return 成员地址列表
+    function getFleetMembers(uint256 fleetId) external view returns (address[] memory) {
+        return fleetRegistry.fleets[fleetId].members;
+    }
+
+    /// @notice 获取最近一次发布的车队加密总分和均值（仅车队经理有解密权限）
+    /// @param fleetId 车队ID
+    /// @return encryptedTotal 加密车队总分
+    /// @return encryptedAverage 加密车队均值
+    /// @return publishedAt 发布时间
+    /// @return publishedSubmissions 快照包含的提交次数
+    function getFleetEncryptedAggregates(uint256 fleetId) external view returns (
+        euint32 encryptedTotal,
+        euint32 encryptedAverage,
+        uint64 publishedAt,
+        uint32 publishedSubmissions
+    ) {
+        DriveFleets.Fleet storage fleet = fleetRegistry.fleets[fleetId];
+        if (fleet.publishedAt == 0) revert NoRecords();
+        return (
+            fleet.encryptedPublishedTotal,
+            fleet.encryptedPublishedAverage,
+            fleet.publishedAt,
+            fleet.publishedSubmissions
+        );
+    }
+
+    /// @notice 获取车队本轮（上次发布之后）的发布进度
+    /// @param fleetId 车队ID
+    /// @return roundMembers 本轮有提交的不同成员数量
+    /// @return roundSubmissions 本轮的提交次数
+    /// @return publishedAt 上次发布的时间（0 表示尚未发布，此时无需等待间隔）
+    function getFleetPublishProgress(uint256 fleetId) external view returns (
+        uint32 roundMembers,
+        uint32 roundSubmissions,
+        uint64 publishedAt
+    ) {
+        DriveFleets.Fleet storage fleet = fleetRegistry.fleets[fleetId];
+        if (fleet.manager == address(0)) revert UnknownFleet();
+        return (fleet.roundMembers, fleet.roundSubmissions, fleet.publishedAt);
+    }
+
+    /// @notice 获取经理创建的车队ID列表
+    /// @param manager 经理地址
+    /// @return 车队ID列表
+    function getManagedFleetIds(address manager) external view returns (uint256[] memory) {
+        return fleetRegistry.managerFleetIds[manager];
     }
 
     /// @notice 获取趋势差值（加密）
     /// @param userAddress 用户地址
-    /// @return 加密的评分差值（>0改善, <0下降, =0无变化）
+    /// @return 加密的评分差值（无符号，下降时会回绕；判断方向请使用 getScoreTrendDetails）
     /// @dev 需要至少2条记录才能计算趋势
     function getScoreTrend(address userAddress) external view returns (euint32) {
         UserData storage userData = userDataMap[userAddress];
-        require(userData.totalRecords >= 2, "Insufficient records for trend");
+        if (userData.totalRecords < 2) revert InsufficientRecordsForTrend();
         return userData.encryptedScoreChange;
     }
 
-    /// @notice 获取累加值和计数（用于前端计算均值）
+    /// @notice 获取趋势详情（加密方向标志 + 绝对差值）
+    /// @param userAddress 用户地址
+    /// @return improved 加密的“较上次提升”标志
+    /// @return declined 加密的“较上次下降”标志
+    /// @return absoluteDelta 加密的评分变化绝对值
+    /// @dev 需要至少2条记录才能计算趋势
+    function getScoreTrendDetails(address userAddress) external view returns (
+        ebool improved,
+        ebool declined,
+        euint32 absoluteDelta
+    ) {
+        UserData storage userData = userDataMap[userAddress];
+        if (userData.totalRecords < 2) revert InsufficientRecordsForTrend();
+        return (userData.encryptedImproved, userData.encryptedDeclined, userData.encryptedScoreDelta);
+    }
+
+    /// @notice 获取累加值和计数（保留给旧版前端，新代码请使用 getEncryptedAverage）
     /// @param userAddress 用户地址
     /// @return encryptedTotal 加密的累加总分
     /// @return recordCount 记录数量
@@ -196,13 +860,132 @@ contract DriveScoreLogger is ZamaEthereumConfig {
         return (userData.encryptedTotalScore, userData.totalRecords);
     }
 
+    /// @notice 获取链上计算的加密均值
+    /// @param userAddress 用户地址
+    /// @return 加密的平均评分（向下取整）
+    function getEncryptedAverage(address userAddress) external view returns (euint32) {
+        UserData storage userData = userDataMap[userAddress];
+        if (userData.totalRecords == 0) revert NoRecords();
+        return userData.encryptedAverageScore;
+    }
+
+    /// @notice 获取授权给第三方的加密均值快照（仅快照时有效的被授权方可以解密）
+    /// @param userAddress 用户地址
+    /// @return encryptedAverage 加密的均值快照
+    /// @return recordCount 快照包含的记录数量
+    /// @return sharedAt 快照时间
+    function getSharedAverage(address userAddress) external view returns (
+        euint32 encryptedAverage,
+        uint32 recordCount,
+        uint64 sharedAt
+    ) {
+        DriveGrants.AverageGrants storage userGrants = averageGrants[userAddress];
+        if (userGrants.sharedAt == 0) revert NoRecords();
+        return (userGrants.encryptedSharedAverage, userGrants.sharedRecords, userGrants.sharedAt);
+    }
+
+    /// @notice 获取历史最高分和最低分（加密，包含已滚出环形缓冲区的记录）
+    /// @param userAddress 用户地址
+    /// @return best 加密的历史最高分
+    /// @return worst 加密的历史最低分
+    function getLifetimeBestAndWorst(address userAddress) external view returns (euint32 best, euint32 worst) {
+        UserData storage userData = userDataMap[userAddress];
+        if (userData.totalRecords == 0) revert NoRecords();
+        return (userData.encryptedBestScore, userData.encryptedWorstScore);
+    }
+
     /// @notice 获取最新记录
     /// @param userAddress 用户地址
     /// @return 最新的驾驶记录
     function getLatestRecord(address userAddress) external view returns (DriveRecord memory) {
         UserData storage userData = userDataMap[userAddress];
-        require(userData.historyRecords.length > 0, "No records");
-        return userData.historyRecords[userData.historyRecords.length - 1];
+        if (userData.historyCount == 0) revert NoRecords();
+        return userData.historyRecords[_slotFromNewest(userData, 0)];
+    }
+
+    /// @notice 获取最新记录的加密裁剪标志
+    /// @param userAddress 用户地址
+    /// @return 加密标志：最新一次提交的评分是否超出范围并被裁剪
+    function getLatestClampFlag(address userAddress) external view returns (ebool) {
+        UserData storage userData = userDataMap[userAddress];
+        if (userData.historyCount == 0) revert NoRecords();
+        return userData.historyRecords[_slotFromNewest(userData, 0)].encryptedWasClamped;
+    }
+
+    /// @notice 获取按里程加权的加密总分和权重总和
+    /// @param userAddress 用户地址
+    /// @return encryptedWeightedTotal 加密加权总分
+    /// @return encryptedTotalWeight 加密权重总和
+    /// @dev 除数是密文，无法在链上做同态除法，由用户解密两者后相除得到加权均值
+    function getEncryptedWeightedAggregates(address userAddress) external view returns (
+        euint32 encryptedWeightedTotal,
+        euint32 encryptedTotalWeight
+    ) {
+        DriveTrips.WeightedAggregate storage weighted = weightedAggregates[userAddress];
+        if (!FHE.isInitialized(weighted.encryptedTotalWeight)) revert NoRecords();
+        return (weighted.encryptedWeightedTotal, weighted.encryptedTotalWeight);
+    }
+
+    /// @notice 获取综合评分的子评分权重（综合评分 = Σ 子评分 × 权重 / 100）
+    /// @return 按 超速、急刹车、急转弯、使用手机 排列的权重，总和为 100
+    function subScoreWeights() external pure returns (uint32[SUB_SCORE_COUNT] memory) {
+        return DriveTrips.subScoreWeights();
+    }
+
+    /// @notice 获取全部有效记录的加密子评分（与 getAllRecords 顺序一致，最新的在前）
+    /// @param userAddress 用户地址
+    /// @return encryptedSubScores 每条记录按 超速、急刹车、急转弯、使用手机 排列的加密子评分
+    function getAllRecordSubScores(address userAddress) external view returns (
+        euint32[SUB_SCORE_COUNT][] memory encryptedSubScores
+    ) {
+        UserData storage userData = userDataMap[userAddress];
+        encryptedSubScores = new euint32[SUB_SCORE_COUNT][](userData.historyCount);
+        for (uint256 i = 0; i < userData.historyCount; i++) {
+            encryptedSubScores[i] = userData.historySubScores[_slotFromNewest(userData, i)];
+        }
+    }
+
+    /// @notice 获取各子评分维度的加密总和（除以记录数量即为各维度均值）
+    /// @param userAddress 用户地址
+    /// @return totals 按 超速、急刹车、急转弯、使用手机 排列的加密总和
+    function getEncryptedSubScoreTotals(address userAddress) external view returns (
+        euint32[SUB_SCORE_COUNT] memory totals
+    ) {
+        UserData storage userData = userDataMap[userAddress];
+        for (uint256 i = 0; i < SUB_SCORE_COUNT; i++) {
+            totals[i] = userData.encryptedSubScoreTotals[i];
+        }
+    }
+
+    /// @notice 获取各里程等级的加密提交次数
+    /// @param userAddress 用户地址
+    /// @return 按里程等级（0=未知, 1=短途, 2=中程, 3=长程）排列的加密计数
+    function getEncryptedCategoryCounts(address userAddress) external view returns (euint32[] memory) {
+        UserData storage userData = userDataMap[userAddress];
+        if (userData.totalRecords == 0) revert NoRecords();
+        euint32[] memory counts = new euint32[](DISTANCE_CATEGORY_COUNT);
+        for (uint256 i = 0; i < DISTANCE_CATEGORY_COUNT; i++) {
+            counts[i] = userData.encryptedCategoryCounts[i];
+        }
+        return counts;
+    }
+
+    /// @notice 获取各里程等级的加密评分总和与提交次数（解密后相除即为该等级的平均分）
+    /// @param userAddress 用户地址
+    /// @return sums 按里程等级排列的加密评分总和
+    /// @return counts 按里程等级排列的加密提交次数
+    function getEncryptedCategoryAggregates(address userAddress) external view returns (
+        euint32[] memory sums,
+        euint32[] memory counts
+    ) {
+        UserData storage userData = userDataMap[userAddress];
+        if (userData.totalRecords == 0) revert NoRecords();
+        sums = new euint32[](DISTANCE_CATEGORY_COUNT);
+        counts = new euint32[](DISTANCE_CATEGORY_COUNT);
+        for (uint256 i = 0; i < DISTANCE_CATEGORY_COUNT; i++) {
+            sums[i] = userData.encryptedCategorySums[i];
+            counts[i] = userData.encryptedCategoryCounts[i];
+        }
     }
 
     /// @notice 获取用户统计信息（明文部分）
@@ -221,26 +1004,315 @@ contract DriveScoreLogger is ZamaEthereumConfig {
 
     /// @notice 获取记录数量
     /// @param userAddress 用户地址
-    /// @return 记录数量
+    /// @return 环形缓冲区中的有效记录数量
     function getRecordCount(address userAddress) external view returns (uint256) {
-        return userDataMap[userAddress].historyRecords.length;
+        return userDataMap[userAddress].historyCount;
     }
 
     /// @notice 获取指定索引的记录（仅返回可公开信息）
     /// @param userAddress 用户地址
-    /// @param recordIndex 记录索引
+    /// @param recordIndex 记录索引（0为最旧的有效记录）
     /// @return recordTime 时间戳
-    /// @return distanceCategory 里程等级
+    /// @return encryptedDistanceCategory 加密里程等级（需要授权才能解密）
     /// @return encryptedScore 加密评分（需要授权才能解密）
     function getRecordByIndex(address userAddress, uint256 recordIndex) external view returns (
         uint64 recordTime,
-        uint8 distanceCategory,
+        euint8 encryptedDistanceCategory,
         euint32 encryptedScore
     ) {
         UserData storage userData = userDataMap[userAddress];
-        require(recordIndex < userData.historyRecords.length, "Index out of bounds");
-        DriveRecord storage record = userData.historyRecords[recordIndex];
-        return (record.recordTime, record.distanceCategory, record.encryptedScore);
+        if (recordIndex >= userData.historyCount) revert IndexOutOfBounds();
+        DriveRecord storage record = userData.historyRecords[
+            _slotFromNewest(userData, userData.historyCount - 1 - recordIndex)
+        ];
+        return (record.recordTime, record.encryptedDistanceCategory, record.encryptedScore);
+    }
+
+    /// @notice 分页获取有效记录（按时间倒序，最新的在前）
+    /// @param userAddress 用户地址
+    /// @param offset 跳过的最新记录数量
+    /// @param limit 本页最多返回的记录数量
+    /// @return recordTimes 时间戳列表
+    /// @return encryptedDistanceCategories 加密里程等级列表（需要授权才能解密）
+    /// @return encryptedScores 加密评分列表（需要授权才能解密）
+    function getRecordsPage(address userAddress, uint256 offset, uint256 limit) public view returns (
+        uint64[] memory recordTimes,
+        euint8[] memory encryptedDistanceCategories,
+        euint32[] memory encryptedScores
+    ) {
+        UserData storage userData = userDataMap[userAddress];
+        uint256 pageSize = 0;
+        if (offset < userData.historyCount) {
+            pageSize = userData.historyCount - offset;
+            if (pageSize > limit) {
+                pageSize = limit;
+            }
+        }
+
+        recordTimes = new uint64[](pageSize);
+        encryptedDistanceCategories = new euint8[](pageSize);
+        encryptedScores = new euint32[](pageSize);
+
+        for (uint256 i = 0; i < pageSize; i++) {
+            DriveRecord storage record = userData.historyRecords[_slotFromNewest(userData, offset + i)];
+            recordTimes[i] = record.recordTime;
+            encryptedDistanceCategories[i] = record.encryptedDistanceCategory;
+            encryptedScores[i] = record.encryptedScore;
+        }
+    }
+
+    /// @notice 一次性获取全部有效记录（按时间倒序，最新的在前）
+    /// @param userAddress 用户地址
+    /// @return recordTimes 时间戳列表
+    /// @return encryptedDistanceCategories 加密里程等级列表（需要授权才能解密）
+    /// @return encryptedScores 加密评分列表（需要授权才能解密）
+    function getAllRecords(address userAddress) external view returns (
+        uint64[] memory recordTimes,
+        euint8[] memory encryptedDistanceCategories,
+        euint32[] memory encryptedScores
+    ) {
+        return getRecordsPage(userAddress, 0, MAX_HISTORY_RECORDS);
+    }
+
+    /// @dev 授权某地址解密一条记录的全部加密字段
+    function _allowRecord(UserData storage userData, uint256 slot, address account) private {
+        DriveRecord storage record = userData.historyRecords[slot];
+        FHE.allow(record.encryptedScore, account);
+        FHE.allow(record.encryptedDistanceCategory, account);
+        FHE.allow(record.encryptedWasClamped, account);
+        for (uint256 i = 0; i < SUB_SCORE_COUNT; i++) {
+            FHE.allow(userData.historySubScores[slot][i], account);
+        }
+    }
+
+    /// @dev 授权某地址解密用户的全部加密统计值
+    function _allowAggregates(UserData storage userData, address account) private {
+        FHE.allow(userData.encryptedTotalScore, account);
+        FHE.allow(userData.encryptedAverageScore, account);
+        FHE.allow(userData.encryptedScoreChange, account);
+        FHE.allow(userData.encryptedImproved, account);
+        FHE.allow(userData.encryptedDeclined, account);
+        FHE.allow(userData.encryptedScoreDelta, account);
+        FHE.allow(userData.encryptedBestScore, account);
+        FHE.allow(userData.encryptedWorstScore, account);
+        FHE.allow(userData.encryptedLastScore, account);
+        for (uint256 i = 0; i < DISTANCE_CATEGORY_COUNT; i++) {
+            FHE.allow(userData.encryptedCategoryCounts[i], account);
+            FHE.allow(userData.encryptedCategorySums[i], account);
+        }
+        for (uint256 i = 0; i < SUB_SCORE_COUNT; i++) {
+            FHE.allow(userData.encryptedSubScoreTotals[i], account);
+        }
+    }
+
+    /// @dev 授权某地址解密最新一条记录和全部统计值（每次提交后调用）
+    function _allowLatestRecordAndAggregates(UserData storage userData, address account) private {
+        _allowRecord(userData, _slotFromNewest(userData, 0), account);
+        _allowAggregates(userData, account);
+    }
+
+    /// @dev 验证并转换加密输入（子评分裁剪到 MAX_SCORE 后推导综合评分，超出范围的里程等级归为未知），
+    ///      并按里程权重计入加权统计
+    function _decodeTrip(
+        externalEuint32[SUB_SCORE_COUNT] calldata encryptedSubScores,
+        externalEuint8 encryptedDistanceCategory,
+        bytes calldata inputProof
+    ) private returns (DriveTrips.Trip memory trip) {
+        trip = DriveTrips.decode(
+            encryptedSubScores,
+            encryptedDistanceCategory,
+            inputProof,
+            MAX_SCORE,
+            DISTANCE_CATEGORY_COUNT
+        );
+        _recordWeightedScore(msg.sender, trip.encryptedScore, trip.encryptedDistanceCategory);
+    }
+
+    /// @dev 将一天的行程结算为日记录（日评分和各子评分取当天行程的均值）
+    function _finalizeTripDay(address driver, DriveTrips.TripDay storage tripDay) private {
+        _recordDailyScore(driver, tripDay.dailyAverage(), tripDay.lastTripTime);
+        delete pendingTripDays[driver];
+    }
+
+    /// @dev 写入一条日记录并更新全部统计、授权和车队总分（挑战和目标按行程时间另行计入）
+    function _recordDailyScore(address driver, DriveTrips.Trip memory daily, uint64 recordTime) private {
+        UserData storage userData = userDataMap[driver];
+        euint32 encryptedValue = daily.encryptedScore;
+
+        // 1. 更新累加总分（用于均值计算）
+        if (userData.totalRecords == 0) {
+            // 首次提交，直接赋值
+            userData.encryptedTotalScore = encryptedValue;
+        } else {
+            // 累加
+            userData.encryptedTotalScore = FHE.add(userData.encryptedTotalScore, encryptedValue);
+        }
+
+        // 2. 计算趋势差值（当前评分 - 上次评分）
+        if (userData.totalRecords > 0) {
+            // 计算差值：current - previous
+            // 如果差值 > 0，表示改善；< 0 表示下降；= 0 表示无变化
+            userData.encryptedScoreChange = FHE.sub(encryptedValue, userData.encryptedLastScore);
+
+            // 无符号差值在下降时会回绕，因此另行计算方向标志和绝对差值
+            userData.encryptedImproved = FHE.gt(encryptedValue, userData.encryptedLastScore);
+            userData.encryptedDeclined = FHE.lt(encryptedValue, userData.encryptedLastScore);
+            userData.encryptedScoreDelta = FHE.select(
+                userData.encryptedImproved,
+                userData.encryptedScoreChange,
+                FHE.sub(userData.encryptedLastScore, encryptedValue)
+            );
+        } else {
+            // 首次提交，差值为0（加密）
+            userData.encryptedScoreChange = FHE.sub(encryptedValue, encryptedValue);
+            userData.encryptedImproved = FHE.asEbool(false);
+            userData.encryptedDeclined = FHE.asEbool(false);
+            userData.encryptedScoreDelta = userData.encryptedScoreChange;
+        }
+
+        // 3. 更新历史最高/最低分
+        if (userData.totalRecords == 0) {
+            userData.encryptedBestScore = encryptedValue;
+            userData.encryptedWorstScore = encryptedValue;
+        } else {
+            userData.encryptedBestScore = FHE.max(userData.encryptedBestScore, encryptedValue);
+            userData.encryptedWorstScore = FHE.min(userData.encryptedWorstScore, encryptedValue);
+        }
+
+        // 4. 更新记录数量和加密均值（除数为明文记录数量）
+        userData.totalRecords++;
+        userData.encryptedAverageScore = FHE.div(userData.encryptedTotalScore, userData.totalRecords);
+
+        // 5. 更新连续天数（按自然日计算，与当天的行程数量无关）
+        if (userData.lastRecordTime == 0) {
+            // 首次提交
+            userData.continuousDays = 1;
+        } else {
+            uint256 recordDay = recordTime / 1 days;
+            uint256 lastDay = userData.lastRecordTime / 1 days;
+            if (recordDay == lastDay + 1) {
+                // 紧接上一条记录的下一天，视为连续
+                userData.continuousDays++;
+            } else if (recordDay != lastDay) {
+                // 中间有空缺的日期，重置连续天数（同一天只会出现在测试模式下，保持不变）
+                userData.continuousDays = 1;
+            }
+        }
+
+        // 6. 写入环形缓冲区（已满时覆盖最旧的记录）
+        userData.historyRecords[userData.historyHead] = DriveRecord({
+            encryptedScore: encryptedValue,
+            recordTime: recordTime,
+            encryptedDistanceCategory: daily.encryptedDistanceCategory,
+            encryptedWasClamped: daily.encryptedWasClamped
+        });
+        _recordSubScores(userData, userData.historyHead, daily.encryptedSubScores);
+
+        // 7. 移动写指针并更新有效记录数量
+        userData.historyHead = uint8((uint256(userData.historyHead) + 1) % MAX_HISTORY_RECORDS);
+        if (userData.historyCount < MAX_HISTORY_RECORDS) {
+            userData.historyCount++;
+        }
+
+        // 8. 累加各里程等级的加密计数和评分总和（匹配的等级累加，其余 +0，不泄露实际等级）
+        euint32 encryptedZero = FHE.asEuint32(0);
+        for (uint8 category = 0; category < DISTANCE_CATEGORY_COUNT; category++) {
+            ebool isCategory = FHE.eq(daily.encryptedDistanceCategory, category);
+
+            euint32 updatedCount = FHE.add(userData.encryptedCategoryCounts[category], FHE.asEuint32(isCategory));
+            userData.encryptedCategoryCounts[category] = updatedCount;
+            FHE.allowThis(updatedCount);
+
+            euint32 updatedSum = FHE.add(
+                userData.encryptedCategorySums[category],
+                FHE.select(isCategory, encryptedValue, encryptedZero)
+            );
+            userData.encryptedCategorySums[category] = updatedSum;
+            FHE.allowThis(updatedSum);
+        }
+
+        // 9. 更新上次评分和时间戳
+        userData.encryptedLastScore = encryptedValue;
+        userData.lastRecordTime = recordTime;
+
+        // 10. ACL 授权 - 允许合约和用户访问加密数据
+        FHE.allowThis(encryptedValue);
+        FHE.allowThis(daily.encryptedDistanceCategory);
+        FHE.allowThis(daily.encryptedWasClamped);
+        FHE.allowThis(userData.encryptedTotalScore);
+        FHE.allowThis(userData.encryptedAverageScore);
+        FHE.allowThis(userData.encryptedScoreChange);
+        FHE.allowThis(userData.encryptedImproved);
+        FHE.allowThis(userData.encryptedDeclined);
+        FHE.allowThis(userData.encryptedScoreDelta);
+        FHE.allowThis(userData.encryptedBestScore);
+        FHE.allowThis(userData.encryptedWorstScore);
+        FHE.allowThis(userData.encryptedLastScore);
+        
+        // 授权用户解密（监护人获得同样的权限）
+        _allowLatestRecordAndAggregates(userData, driver);
+        address guardian = guardians[driver];
+        if (guardian != address(0)) {
+            _allowLatestRecordAndAggregates(userData, guardian);
+        }
+
+        // 新增记录足够时刷新授权给第三方的均值快照
+        if (averageGrants[driver].grantees.length > 0) {
+            averageGrants[driver].refresh(userData.encryptedAverageScore, userData.totalRecords);
+        }
+
+        // 11. 累加全体用户的加密总分和提交次数
+        encryptedPopulationTotal = FHE.add(encryptedPopulationTotal, encryptedValue);
+        populationSubmissions++;
+        FHE.allowThis(encryptedPopulationTotal);
+
+        // 12. 累加到所属车队的加密总分
+        if (fleetRegistry.driverFleetIds[driver] != 0) {
+            fleetRegistry.recordScore(driver, encryptedValue);
+        }
+
+        emit ScoreRecorded(driver, recordTime);
+        
+        if (userData.continuousDays > 1) {
+            emit ContinuousDaysChanged(driver, userData.continuousDays);
+        }
+    }
+
+    /// @dev 将日记录的子评分写入环形缓冲区对应槽位，并累加各维度的加密总和
+    function _recordSubScores(
+        UserData storage userData,
+        uint256 slot,
+        euint32[SUB_SCORE_COUNT] memory encryptedSubScores
+    ) private {
+        userData.historySubScores[slot] = encryptedSubScores;
+        for (uint256 i = 0; i < SUB_SCORE_COUNT; i++) {
+            FHE.allowThis(encryptedSubScores[i]);
+            euint32 updatedTotal = FHE.add(userData.encryptedSubScoreTotals[i], encryptedSubScores[i]);
+            userData.encryptedSubScoreTotals[i] = updatedTotal;
+            FHE.allowThis(updatedTotal);
+        }
+    }
+
+    /// @dev 按加密里程等级选取权重并累加加权总分和权重总和，授权给用户和监护人
+    function _recordWeightedScore(address driver, euint32 encryptedValue, euint8 encryptedCategory) private {
+        DriveTrips.WeightedAggregate storage weighted = weightedAggregates[driver];
+        weighted.addWeighted(encryptedValue, encryptedCategory);
+        _allowWeightedAggregates(weighted, driver);
+        address guardian = guardians[driver];
+        if (guardian != address(0)) {
+            _allowWeightedAggregates(weighted, guardian);
+        }
+    }
+
+    /// @dev 授权加权统计
+    function _allowWeightedAggregates(DriveTrips.WeightedAggregate storage weighted, address account) private {
+        FHE.allow(weighted.encryptedWeightedTotal, account);
+        FHE.allow(weighted.encryptedTotalWeight, account);
+    }
+
+    /// @dev 将“距最新记录的偏移”换算为环形缓冲区槽位
+    function _slotFromNewest(UserData storage userData, uint256 newestOffset) private view returns (uint256) {
+        return (uint256(userData.historyHead) + MAX_HISTORY_RECORDS - 1 - newestOffset) % MAX_HISTORY_RECORDS;
     }
 }
 
@@ -0,0 +1,148 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.27;
+
+import {FHE, ebool, euint8, euint32, externalEuint8, externalEuint32} from "@fhevm/solidity/lib/FHE.sol";
+
+/// @title DriveTrips - 行程子评分与当天行程累加
+/// @notice 由加密子评分推导综合评分，并把同一自然日的行程累加为一条日记录
+/// @dev 外部库：由 DriveScoreLogger 通过 DELEGATECALL 调用，状态和 ACL 授权都属于调用合约
+library DriveTrips {
+    /// @notice 子评分维度数量（0=超速, 1=急刹车, 2=急转弯, 3=使用手机）
+    uint8 internal constant SUB_SCORE_COUNT = 4;
+
+    /// @notice 一次行程（或结算后的一天）的加密评分
+    struct Trip {
+        euint32 encryptedScore;                          // 综合评分（子评分加权和）
+        euint32[SUB_SCORE_COUNT] encryptedSubScores;     // 子评分，按 超速、急刹车、急转弯、使用手机 排列
+        euint8 encryptedDistanceCategory;                // 里程等级
+        ebool encryptedWasClamped;                       // 是否有子评分超出范围并被裁剪
+    }
+
+    /// @notice 当天尚未结算的行程累加（日期翻转后结算为一条日记录）
+    struct TripDay {
+        uint32 day;                      // 自然日（UTC 天数，自 1970-01-01 起）
+        uint32 tripCount;                // 已累加的行程数量（行程交易本身公开，因此以明文计数作为除数）
+        uint64 lastTripTime;             // 最近一次行程的提交时间（结算后作为日记录时间）
+        euint32 encryptedTripTotal;      // 加密的行程评分总和
+        euint32[SUB_SCORE_COUNT] encryptedSubScoreTotals; // 各子评分维度的加密行程总和
+        euint8 encryptedMaxCategory;     // 当天最长一次行程的加密里程等级
+        ebool encryptedAnyClamped;       // 加密标志：当天是否有行程评分被裁剪
+    }
+
+    /// @notice 按里程加权的加密统计（权重随行程的加密里程等级在密文状态下选取）
+    struct WeightedAggregate {
+        euint32 encryptedWeightedTotal;  // 加密加权总分（行程评分 × 里程权重之和）
+        euint32 encryptedTotalWeight;    // 加密权重总和
+    }
+
+    /// @notice 中程行程的加权均值权重（未知和短途的权重为 1）
+    uint32 internal constant MEDIUM_DISTANCE_WEIGHT = 2;
+
+    /// @notice 长程行程的加权均值权重
+    uint32 internal constant LONG_DISTANCE_WEIGHT = 4;
+
+    /// @notice 回填时间超出回填窗口，或不早于尚未结算的行程日 / 不晚于最近一条记录
+    error InvalidBackfillTime();
+
+    /// @notice 综合评分的子评分权重（综合评分 = Σ 子评分 × 权重 / 100）
+    function subScoreWeights() internal pure returns (uint32[SUB_SCORE_COUNT] memory) {
+        return [uint32(35), 25, 20, 20];
+    }
+
+    /// @notice 验证并转换一次行程的加密输入：子评分裁剪到 maxScore，里程等级超出范围归为未知(0)，
+    ///         综合评分以明文权重在密文状态下加权求和
+    function decode(
+        externalEuint32[SUB_SCORE_COUNT] calldata encryptedSubScores,
+        externalEuint8 encryptedDistanceCategory,
+        bytes calldata inputProof,
+        uint32 maxScore,
+        uint8 distanceCategoryCount
+    ) external returns (Trip memory trip) {
+        uint32[SUB_SCORE_COUNT] memory weights = subScoreWeights();
+        euint32 encryptedWeightedSum = FHE.asEuint32(0);
+        trip.encryptedWasClamped = FHE.asEbool(false);
+        for (uint256 i = 0; i < SUB_SCORE_COUNT; i++) {
+            euint32 encryptedInput = FHE.fromExternal(encryptedSubScores[i], inputProof);
+            trip.encryptedWasClamped = FHE.or(trip.encryptedWasClamped, FHE.gt(encryptedInput, maxScore));
+            trip.encryptedSubScores[i] = FHE.min(encryptedInput, maxScore);
+            encryptedWeightedSum = FHE.add(encryptedWeightedSum, FHE.mul(trip.encryptedSubScores[i], weights[i]));
+        }
+        trip.encryptedScore = FHE.div(encryptedWeightedSum, 100);
+
+        euint8 encryptedCategoryInput = FHE.fromExternal(encryptedDistanceCategory, inputProof);
+        trip.encryptedDistanceCategory = FHE.select(
+            FHE.le(encryptedCategoryInput, distanceCategoryCount - 1),
+            encryptedCategoryInput,
+            FHE.asEuint8(0)
+        );
+    }
+
+    /// @notice 累加当天的行程：评分和子评分求和，里程等级取最长的一次，裁剪标志取或
+    function accumulate(TripDay storage self, address driver, uint32 today, Trip memory trip) external {
+        if (self.tripCount == 0) {
+            self.day = today;
+            self.encryptedTripTotal = trip.encryptedScore;
+            self.encryptedSubScoreTotals = trip.encryptedSubScores;
+            self.encryptedMaxCategory = trip.encryptedDistanceCategory;
+            self.encryptedAnyClamped = trip.encryptedWasClamped;
+        } else {
+            self.encryptedTripTotal = FHE.add(self.encryptedTripTotal, trip.encryptedScore);
+            for (uint256 i = 0; i < SUB_SCORE_COUNT; i++) {
+                self.encryptedSubScoreTotals[i] = FHE.add(self.encryptedSubScoreTotals[i], trip.encryptedSubScores[i]);
+            }
+            self.encryptedMaxCategory = FHE.max(self.encryptedMaxCategory, trip.encryptedDistanceCategory);
+            self.encryptedAnyClamped = FHE.or(self.encryptedAnyClamped, trip.encryptedWasClamped);
+        }
+        self.tripCount++;
+        self.lastTripTime = uint64(block.timestamp);
+
+        FHE.allowThis(self.encryptedTripTotal);
+        for (uint256 i = 0; i < SUB_SCORE_COUNT; i++) {
+            FHE.allowThis(self.encryptedSubScoreTotals[i]);
+        }
+        FHE.allowThis(self.encryptedMaxCategory);
+        FHE.allowThis(self.encryptedAnyClamped);
+        FHE.allow(self.encryptedTripTotal, driver);
+    }
+
+    /// @notice 按行程的加密里程等级选取权重，计入加权总分和权重总和（只授权给合约本身）
+    function addWeighted(WeightedAggregate storage self, euint32 encryptedScore, euint8 encryptedCategory) external {
+        euint32 encryptedWeight = FHE.select(
+            FHE.eq(encryptedCategory, 3),
+            FHE.asEuint32(LONG_DISTANCE_WEIGHT),
+            FHE.select(FHE.eq(encryptedCategory, 2), FHE.asEuint32(MEDIUM_DISTANCE_WEIGHT), FHE.asEuint32(1))
+        );
+        self.encryptedWeightedTotal = FHE.add(self.encryptedWeightedTotal, FHE.mul(encryptedScore, encryptedWeight));
+        self.encryptedTotalWeight = FHE.add(self.encryptedTotalWeight, encryptedWeight);
+
+        FHE.allowThis(self.encryptedWeightedTotal);
+        FHE.allowThis(self.encryptedTotalWeight);
+    }
+
+    /// @notice 校验回填日记录的时间：须晚于最近一条记录所在的自然日、早于今天和尚未结算的行程日，
+    ///         且不早于 maxAge 之前，保证日记录按时间顺序写入
+    function requireBackfillTime(
+        TripDay storage self,
+        uint64 lastRecordTime,
+        uint64 recordTime,
+        uint256 maxAge
+    ) external view {
+        uint256 recordDay = recordTime / 1 days;
+        if (
+            recordTime + maxAge < block.timestamp ||
+            recordDay >= block.timestamp / 1 days ||
+            recordDay <= lastRecordTime / 1 days ||
+            (self.tripCount != 0 && recordDay >= self.day)
+        ) revert InvalidBackfillTime();
+    }
+
+    /// @notice 计算当天的日记录：日评分和各子评分 = 行程总和 / 行程数量（向下取整）
+    function dailyAverage(TripDay storage self) external returns (Trip memory daily) {
+        daily.encryptedScore = FHE.div(self.encryptedTripTotal, self.tripCount);
+        for (uint256 i = 0; i < SUB_SCORE_COUNT; i++) {
+            daily.encryptedSubScores[i] = FHE.div(self.encryptedSubScoreTotals[i], self.tripCount);
+        }
+        daily.encryptedDistanceCategory = self.encryptedMaxCategory;
+        daily.encryptedWasClamped = self.encryptedAnyClamped;
+    }
+}
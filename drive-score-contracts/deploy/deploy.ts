@@ -4,11 +4,21 @@ export default async function (hre: HardhatRuntimeEnvironment) {
   const { deployer } = await hre.getNamedAccounts();
   const { deploy } = hre.deployments;
 
+  // 行程、目标、授权、挑战和车队逻辑位于外部库，先部署库再链接到主合约
+  const libraries: Record<string, string> = {};
+  for (const name of ["DriveTrips", "DriveGoals", "DriveGrants", "DriveChallenges", "DriveFleets"]) {
+    const deployedLibrary = await deploy(name, {
+      from: deployer,
+      log: true,
+    });
+    libraries[name] = deployedLibrary.address;
+  }
+
   const deployedDriveScoreLogger = await deploy("DriveScoreLogger", {
     from: deployer,
     log: true,
+    libraries,
   });
 
   console.log(`DriveScoreLogger contract deployed at: ${deployedDriveScoreLogger.address}`);
 };
-
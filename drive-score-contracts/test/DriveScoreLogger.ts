@@ -0,0 +1,1126 @@
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import type { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { expect } from "chai";
+import type { Contract } from "ethers";
+import { ethers, fhevm } from "hardhat";
+import { DriveScoreLogger, DriveScoreLogger__factory } from "../types";
+
+type Signers = {
+  deployer: HardhatEthersSigner;
+  alice: HardhatEthersSigner;
+  insurer: HardhatEthersSigner;
+  guardian: HardhatEthersSigner;
+  bob: HardhatEthersSigner;
+  manager: HardhatEthersSigner;
+};
+
+async function deployFixture(deployer: HardhatEthersSigner) {
+  // 行程、目标、授权、挑战和车队逻辑位于外部库，需要先部署再链接
+  const libraryAddresses = {
+    "contracts/DriveChallenges.sol:DriveChallenges": "",
+    "contracts/DriveFleets.sol:DriveFleets": "",
+    "contracts/DriveGoals.sol:DriveGoals": "",
+    "contracts/DriveGrants.sol:DriveGrants": "",
+    "contracts/DriveTrips.sol:DriveTrips": "",
+  };
+  // 库中抛出的自定义错误不在主合约 ABI 中，断言时需要用库合约的接口解析
+  const libraries: Record<string, Contract> = {};
+  for (const key of Object.keys(libraryAddresses) as (keyof typeof libraryAddresses)[]) {
+    const library = await ethers.deployContract(key.split(":")[1], deployer);
+    libraryAddresses[key] = await library.getAddress();
+    libraries[key.split(":")[1]] = library;
+  }
+  const contract = await new DriveScoreLogger__factory(libraryAddresses, deployer).deploy();
+  const contractAddress = await contract.getAddress();
+  return { contract, contractAddress, libraries };
+}
+
+describe("DriveScoreLogger", function () {
+  let signers: Signers;
+  let contract: DriveScoreLogger;
+  let contractAddress: string;
+  let libraries: Record<string, Contract>;
+
+  // 子评分顺序：超速、急刹车、急转弯、使用手机
+  async function submitSubScores(
+    signer: HardhatEthersSigner,
+    subScores: [number, number, number, number],
+    distanceCategory = 1,
+  ) {
+    const input = fhevm.createEncryptedInput(contractAddress, signer.address);
+    subScores.forEach((subScore) => input.add32(subScore));
+    const encrypted = await input.add8(distanceCategory).encrypt();
+    const [speeding, braking, cornering, phoneUse, category] = encrypted.handles;
+    const tx = await contract
+      .connect(signer)
+      .recordDriveScore([speeding, braking, cornering, phoneUse], category, encrypted.inputProof);
+    await tx.wait();
+  }
+
+  // 全部子评分相同时，综合评分等于该值
+  async function submitScore(signer: HardhatEthersSigner, score: number, distanceCategory = 1) {
+    await submitSubScores(signer, [score, score, score, score], distanceCategory);
+  }
+
+  async function decryptUint32(handle: string, signer: HardhatEthersSigner) {
+    return fhevm.userDecryptEuint(FhevmType.euint32, handle, contractAddress, signer);
+  }
+
+  // mock 解密需要按顺序进行，不能并发
+  async function decryptAllUint32(handles: string[], signer: HardhatEthersSigner) {
+    const values: bigint[] = [];
+    for (const handle of handles) {
+      values.push(await decryptUint32(handle, signer));
+    }
+    return values;
+  }
+
+  before(async function () {
+    const ethSigners = await ethers.getSigners();
+    signers = {
+      deployer: ethSigners[0],
+      alice: ethSigners[1],
+      insurer: ethSigners[2],
+      guardian: ethSigners[3],
+      bob: ethSigners[4],
+      manager: ethSigners[5],
+    };
+  });
+
+  beforeEach(async function () {
+    if (!fhevm.isMock) {
+      console.warn("This hardhat test suite can only run on the mock FHEVM");
+      this.skip();
+    }
+
+    ({ contract, contractAddress, libraries } = await deployFixture(signers.deployer));
+    // 允许同一用户在测试中连续提交
+    await (await contract.connect(signers.deployer).toggleTestMode(true)).wait();
+  });
+
+  describe("score range enforcement", function () {
+    it("stores an in-range score unchanged and leaves the clamp flag unset", async function () {
+      await submitScore(signers.alice, 87);
+
+      const latest = await contract.getLatestRecord(signers.alice.address);
+      expect(await decryptUint32(latest.encryptedScore, signers.alice)).to.eq(87n);
+
+      const clamped = await contract.getLatestClampFlag(signers.alice.address);
+      expect(await fhevm.userDecryptEbool(clamped, contractAddress, signers.alice)).to.eq(false);
+    });
+
+    it("keeps MAX_SCORE itself without flagging it", async function () {
+      await submitScore(signers.alice, 100);
+
+      const latest = await contract.getLatestRecord(signers.alice.address);
+      expect(await decryptUint32(latest.encryptedScore, signers.alice)).to.eq(100n);
+
+      const clamped = await contract.getLatestClampFlag(signers.alice.address);
+      expect(await fhevm.userDecryptEbool(clamped, contractAddress, signers.alice)).to.eq(false);
+    });
+
+    it("clamps an out-of-range score to MAX_SCORE and sets the clamp flag", async function () {
+      await submitScore(signers.alice, 250);
+
+      const latest = await contract.getLatestRecord(signers.alice.address);
+      expect(await decryptUint32(latest.encryptedScore, signers.alice)).to.eq(100n);
+
+      const clamped = await contract.getLatestClampFlag(signers.alice.address);
+      expect(await fhevm.userDecryptEbool(clamped, contractAddress, signers.alice)).to.eq(true);
+    });
+
+    it("keeps the total and average bounded when a huge score is submitted", async function () {
+      await submitScore(signers.alice, 60);
+      await submitScore(signers.alice, 4_000_000_000);
+
+      const [encryptedTotal, recordCount] = await contract.getAverageCalculationData(signers.alice.address);
+      expect(recordCount).to.eq(2n);
+      expect(await decryptUint32(encryptedTotal, signers.alice)).to.eq(160n);
+
+      const encryptedAverage = await contract.getEncryptedAverage(signers.alice.address);
+      expect(await decryptUint32(encryptedAverage, signers.alice)).to.eq(80n);
+
+      const [improved, declined, absoluteDelta] = await contract.getScoreTrendDetails(signers.alice.address);
+      expect(await fhevm.userDecryptEbool(improved, contractAddress, signers.alice)).to.eq(true);
+      expect(await fhevm.userDecryptEbool(declined, contractAddress, signers.alice)).to.eq(false);
+      expect(await decryptUint32(absoluteDelta, signers.alice)).to.eq(40n);
+    });
+
+    it("stores the clamped value in history", async function () {
+      await submitScore(signers.alice, 4_294_967_295);
+      await submitScore(signers.alice, 42);
+
+      const [, , encryptedScores] = await contract.getAllRecords(signers.alice.address);
+      expect(encryptedScores.length).to.eq(2);
+      expect(await decryptUint32(encryptedScores[0], signers.alice)).to.eq(42n);
+      expect(await decryptUint32(encryptedScores[1], signers.alice)).to.eq(100n);
+    });
+  });
+
+  describe("history paging", function () {
+    async function submitScores(scores: number[]) {
+      for (const score of scores) {
+        await submitScore(signers.alice, score);
+      }
+    }
+
+    async function pageScores(offset: number, limit: number) {
+      const [, , encryptedScores] = await contract.getRecordsPage(signers.alice.address, offset, limit);
+      return decryptAllUint32([...encryptedScores], signers.alice);
+    }
+
+    it("returns pages newest first and clips offset and limit", async function () {
+      await submitScores([10, 20, 30, 40, 50]);
+
+      expect(await pageScores(0, 2)).to.deep.eq([50n, 40n]);
+      expect(await pageScores(2, 2)).to.deep.eq([30n, 20n]);
+      expect(await pageScores(3, 10)).to.deep.eq([20n, 10n]);
+      expect(await pageScores(0, 0)).to.deep.eq([]);
+      expect(await pageScores(5, 1)).to.deep.eq([]);
+      expect(await pageScores(1000, 5)).to.deep.eq([]);
+
+      const [recordTime, , encryptedScore] = await contract.getRecordByIndex(signers.alice.address, 0);
+      expect(await decryptUint32(encryptedScore, signers.alice)).to.eq(10n);
+      const [oldestTime] = await contract.getRecordsPage(signers.alice.address, 4, 1);
+      expect(oldestTime).to.deep.eq([recordTime]);
+      await expect(contract.getRecordByIndex(signers.alice.address, 5)).to.be.revertedWithCustomError(
+        contract,
+        "IndexOutOfBounds",
+      );
+    });
+
+    it("keeps pages and indexes in order after the ring buffer wraps", async function () {
+      const maxHistory = Number(await contract.MAX_HISTORY_RECORDS());
+      // 写入 maxHistory + 3 条记录（评分 0, 1, 2, ...），最旧的 3 条被覆盖
+      await submitScores(Array.from({ length: maxHistory + 3 }, (_, i) => i));
+      const newest = maxHistory + 2;
+
+      expect(await contract.getRecordCount(signers.alice.address)).to.eq(BigInt(maxHistory));
+      expect(await pageScores(0, 3)).to.deep.eq([newest, newest - 1, newest - 2].map(BigInt));
+      // 跨越物理槽位 0 → 最后一个槽位的分页
+      expect(await pageScores(2, 4)).to.deep.eq([newest - 2, newest - 3, newest - 4, newest - 5].map(BigInt));
+      expect(await pageScores(maxHistory - 3, 10)).to.deep.eq([5n, 4n, 3n]);
+      expect(await pageScores(maxHistory, 10)).to.deep.eq([]);
+
+      const [recordTimes] = await contract.getAllRecords(signers.alice.address);
+      expect(recordTimes.length).to.eq(maxHistory);
+      for (let i = 1; i < recordTimes.length; i++) {
+        expect(recordTimes[i]).to.be.lessThan(recordTimes[i - 1]);
+      }
+
+      const [, , oldest] = await contract.getRecordByIndex(signers.alice.address, 0);
+      const [, , latest] = await contract.getRecordByIndex(signers.alice.address, maxHistory - 1);
+      expect(await decryptAllUint32([oldest, latest], signers.alice)).to.deep.eq([3n, BigInt(newest)]);
+      await expect(contract.getRecordByIndex(signers.alice.address, maxHistory)).to.be.revertedWithCustomError(
+        contract,
+        "IndexOutOfBounds",
+      );
+    });
+  });
+
+  describe("lifetime best and worst", function () {
+    it("tracks the encrypted all-time max and min", async function () {
+      await submitScore(signers.alice, 70);
+      await submitScore(signers.alice, 95);
+      await submitScore(signers.alice, 40);
+      await submitScore(signers.alice, 80);
+
+      const [best, worst] = await contract.getLifetimeBestAndWorst(signers.alice.address);
+      expect(await decryptUint32(best, signers.alice)).to.eq(95n);
+      expect(await decryptUint32(worst, signers.alice)).to.eq(40n);
+    });
+
+    it("keeps the best score after it rolls out of history", async function () {
+      await submitScore(signers.alice, 99);
+      const maxHistory = Number(await contract.MAX_HISTORY_RECORDS());
+      for (let i = 0; i < maxHistory; i++) {
+        await submitScore(signers.alice, 50);
+      }
+
+      const [, , encryptedScores] = await contract.getAllRecords(signers.alice.address);
+      expect(encryptedScores.length).to.eq(maxHistory);
+
+      const [best, worst] = await contract.getLifetimeBestAndWorst(signers.alice.address);
+      expect(await decryptUint32(best, signers.alice)).to.eq(99n);
+      expect(await decryptUint32(worst, signers.alice)).to.eq(50n);
+    });
+  });
+
+  describe("average sharing", function () {
+    async function insurerCanDecrypt(handle: string) {
+      try {
+        await decryptUint32(handle, signers.insurer);
+        return true;
+      } catch {
+        return false;
+      }
+    }
+
+    async function submitScores(scores: number[]) {
+      for (const score of scores) {
+        await submitScore(signers.alice, score);
+      }
+    }
+
+    it("shares an average snapshot once enough records exist", async function () {
+      await submitScores([80, 90, 70, 60, 100, 80]);
+      await (await contract.connect(signers.alice).grantAverageAccess(signers.insurer.address)).wait();
+      await expect(contract.getSharedAverage(signers.alice.address)).to.be.revertedWithCustomError(
+        contract,
+        "NoRecords",
+      );
+
+      await submitScore(signers.alice, 93);
+      const [encryptedAverage, recordCount] = await contract.getSharedAverage(signers.alice.address);
+      expect(recordCount).to.eq(7n);
+      expect(await decryptUint32(encryptedAverage, signers.insurer)).to.eq(81n);
+    });
+
+    it("shares the current snapshot with a new grantee immediately", async function () {
+      await submitScores([80, 90, 70, 60, 100, 80, 93]);
+      await (await contract.connect(signers.alice).grantAverageAccess(signers.insurer.address)).wait();
+
+      const [encryptedAverage, recordCount] = await contract.getSharedAverage(signers.alice.address);
+      expect(recordCount).to.eq(7n);
+      expect(await decryptUint32(encryptedAverage, signers.insurer)).to.eq(81n);
+    });
+
+    it("does not give a grantee a new average after a single record", async function () {
+      await submitScores([80, 90, 70, 60, 100, 80, 93]);
+      await (await contract.connect(signers.alice).grantAverageAccess(signers.insurer.address)).wait();
+      const [snapshot] = await contract.getSharedAverage(signers.alice.address);
+
+      // 快照后只新增一条记录：快照不变，新均值无法解密（否则可用差值还原这条记录）
+      await submitScore(signers.alice, 20);
+      const [unchanged, recordCount] = await contract.getSharedAverage(signers.alice.address);
+      expect(unchanged).to.eq(snapshot);
+      expect(recordCount).to.eq(7n);
+      expect(await insurerCanDecrypt(await contract.getEncryptedAverage(signers.alice.address))).to.eq(false);
+
+      // 再新增 6 条（共 7 条）后才刷新快照
+      await submitScores([70, 70, 70, 70, 70, 70]);
+      const [refreshed, refreshedCount] = await contract.getSharedAverage(signers.alice.address);
+      expect(refreshedCount).to.eq(14n);
+      expect(await decryptUint32(refreshed, signers.insurer)).to.eq(72n);
+    });
+
+    it("does not expose daily scores to a grantee", async function () {
+      await (await contract.connect(signers.alice).grantAverageAccess(signers.insurer.address)).wait();
+      await submitScore(signers.alice, 80);
+
+      const latest = await contract.getLatestRecord(signers.alice.address);
+      expect(await insurerCanDecrypt(latest.encryptedScore)).to.eq(false);
+    });
+
+    it("lists and revokes grants", async function () {
+      await (await contract.connect(signers.alice).grantAverageAccess(signers.insurer.address)).wait();
+
+      let [grantees] = await contract.getAverageGrants(signers.alice.address);
+      expect(grantees).to.deep.eq([signers.insurer.address]);
+
+      await expect(
+        contract.connect(signers.alice).grantAverageAccess(signers.insurer.address),
+      ).to.be.revertedWithCustomError(libraries.DriveGrants, "AlreadyGranted");
+
+      await (await contract.connect(signers.alice).grantAverageAccess(signers.bob.address)).wait();
+      await (await contract.connect(signers.alice).revokeAverageAccess(signers.insurer.address)).wait();
+      [grantees] = await contract.getAverageGrants(signers.alice.address);
+      expect(grantees).to.deep.eq([signers.bob.address]);
+
+      await submitScores([70, 70, 70, 70, 70, 70, 70]);
+      const [snapshot] = await contract.getSharedAverage(signers.alice.address);
+      expect(await decryptUint32(snapshot, signers.bob)).to.eq(70n);
+      expect(await insurerCanDecrypt(snapshot)).to.eq(false);
+    });
+  });
+
+  describe("threshold attestation", function () {
+    async function requestAttestation(threshold: number, recordCount: number) {
+      const tx = await contract.connect(signers.alice).requestThresholdAttestation(threshold, recordCount);
+      await tx.wait();
+      return contract.attestationCount();
+    }
+
+    async function revealAttestation(attestationId: bigint) {
+      const attestation = await contract.getAttestation(attestationId);
+      const { abiEncodedClearValues, decryptionProof } = await fhevm.publicDecrypt([attestation.encryptedResult]);
+      const tx = await contract
+        .connect(signers.insurer)
+        .finalizeAttestation(attestationId, abiEncodedClearValues, decryptionProof);
+      await tx.wait();
+      return contract.getAttestation(attestationId);
+    }
+
+    it("proves the average of the last K records clears the threshold", async function () {
+      await submitScore(signers.alice, 40);
+      await submitScore(signers.alice, 90);
+      await submitScore(signers.alice, 80);
+
+      // 最近两条均值为 85
+      const attestationId = await requestAttestation(85, 2);
+      const attestation = await revealAttestation(attestationId);
+
+      expect(attestation.driver).to.eq(signers.alice.address);
+      expect(attestation.threshold).to.eq(85n);
+      expect(attestation.recordCount).to.eq(2n);
+      expect(attestation.isRevealed).to.eq(true);
+      expect(attestation.passed).to.eq(true);
+      expect(await contract.getAttestationIds(signers.alice.address)).to.deep.eq([attestationId]);
+    });
+
+    it("reports a failed attestation when the average is below the threshold", async function () {
+      await submitScore(signers.alice, 40);
+      await submitScore(signers.alice, 90);
+      await submitScore(signers.alice, 80);
+
+      // 最近三条均值为 70
+      const attestationId = await requestAttestation(71, 3);
+      const attestation = await revealAttestation(attestationId);
+      expect(attestation.passed).to.eq(false);
+    });
+
+    it("rejects invalid requests and double reveals", async function () {
+      await submitScore(signers.alice, 90);
+
+      await expect(contract.connect(signers.alice).requestThresholdAttestation(80, 2)).to.be.revertedWithCustomError(
+        contract,
+        "InvalidRecordCount",
+      );
+      await expect(contract.connect(signers.alice).requestThresholdAttestation(101, 1)).to.be.revertedWithCustomError(
+        contract,
+        "InvalidThreshold",
+      );
+
+      const attestationId = await requestAttestation(80, 1);
+      const attestation = await contract.getAttestation(attestationId);
+      const { abiEncodedClearValues, decryptionProof } = await fhevm.publicDecrypt([attestation.encryptedResult]);
+      await (await contract.finalizeAttestation(attestationId, abiEncodedClearValues, decryptionProof)).wait();
+
+      await expect(
+        contract.finalizeAttestation(attestationId, abiEncodedClearValues, decryptionProof),
+      ).to.be.revertedWithCustomError(contract, "AlreadyRevealed");
+    });
+  });
+
+  describe("guardian mode", function () {
+    it("requires the guardian to accept before granting access", async function () {
+      await (await contract.connect(signers.alice).proposeGuardian(signers.guardian.address)).wait();
+
+      let [guardian, pendingGuardian] = await contract.getGuardianInfo(signers.alice.address);
+      expect(guardian).to.eq(ethers.ZeroAddress);
+      expect(pendingGuardian).to.eq(signers.guardian.address);
+
+      await expect(
+        contract.connect(signers.insurer).acceptGuardianship(signers.alice.address),
+      ).to.be.revertedWithCustomError(contract, "NotProposed");
+
+      await (await contract.connect(signers.guardian).acceptGuardianship(signers.alice.address)).wait();
+      [guardian, pendingGuardian] = await contract.getGuardianInfo(signers.alice.address);
+      expect(guardian).to.eq(signers.guardian.address);
+      expect(pendingGuardian).to.eq(ethers.ZeroAddress);
+      expect(await contract.getWards(signers.guardian.address)).to.deep.eq([signers.alice.address]);
+    });
+
+    it("shares existing and new score handles with the guardian", async function () {
+      await submitScore(signers.alice, 65, 2);
+      await (await contract.connect(signers.alice).proposeGuardian(signers.guardian.address)).wait();
+      await (await contract.connect(signers.guardian).acceptGuardianship(signers.alice.address)).wait();
+      await submitScore(signers.alice, 85, 1);
+
+      const [, encryptedCategories, encryptedScores] = await contract.getAllRecords(signers.alice.address);
+      expect(await decryptUint32(encryptedScores[0], signers.guardian)).to.eq(85n);
+      expect(await decryptUint32(encryptedScores[1], signers.guardian)).to.eq(65n);
+      expect(
+        await fhevm.userDecryptEuint(FhevmType.euint8, encryptedCategories[1], contractAddress, signers.guardian),
+      ).to.eq(2n);
+
+      const average = await contract.getEncryptedAverage(signers.alice.address);
+      expect(await decryptUint32(average, signers.guardian)).to.eq(75n);
+    });
+
+    it("stops sharing new scores once the guardian is removed", async function () {
+      await (await contract.connect(signers.alice).proposeGuardian(signers.guardian.address)).wait();
+      await (await contract.connect(signers.guardian).acceptGuardianship(signers.alice.address)).wait();
+      await (await contract.connect(signers.guardian).removeGuardian(signers.alice.address)).wait();
+
+      expect(await contract.getWards(signers.guardian.address)).to.deep.eq([]);
+
+      await submitScore(signers.alice, 90);
+      const latest = await contract.getLatestRecord(signers.alice.address);
+      let decrypted = true;
+      try {
+        await decryptUint32(latest.encryptedScore, signers.guardian);
+      } catch {
+        decrypted = false;
+      }
+      expect(decrypted).to.eq(false);
+    });
+  });
+
+  describe("population comparison", function () {
+    async function compare(signer: HardhatEthersSigner) {
+      await (await contract.connect(signer).comparePopulationAverage()).wait();
+      const [handle, comparedAt] = await contract.getPopulationComparison(signer.address);
+      expect(comparedAt).to.be.gt(0n);
+      return fhevm.userDecryptEbool(handle, contractAddress, signer);
+    }
+
+    it("tells each driver privately whether they beat the population average", async function () {
+      await submitScore(signers.alice, 90);
+      await submitScore(signers.bob, 60);
+      await submitScore(signers.bob, 70);
+
+      // 全体均值 = 220 / 3 = 73
+      expect(await contract.populationSubmissions()).to.eq(3n);
+      expect(await compare(signers.alice)).to.eq(true);
+      expect(await compare(signers.bob)).to.eq(false);
+    });
+
+    it("only lets the requesting driver decrypt the result", async function () {
+      await submitScore(signers.alice, 90);
+      await (await contract.connect(signers.alice).comparePopulationAverage()).wait();
+      const [handle] = await contract.getPopulationComparison(signers.alice.address);
+
+      let decrypted = true;
+      try {
+        await fhevm.userDecryptEbool(handle, contractAddress, signers.bob);
+      } catch {
+        decrypted = false;
+      }
+      expect(decrypted).to.eq(false);
+    });
+
+    it("requires at least one record", async function () {
+      await expect(contract.connect(signers.alice).comparePopulationAverage()).to.be.revertedWithCustomError(
+        contract,
+        "NoRecords",
+      );
+      const [, comparedAt] = await contract.getPopulationComparison(signers.alice.address);
+      expect(comparedAt).to.eq(0n);
+    });
+  });
+
+  describe("personal goals", function () {
+    async function setGoal(target: number, periodSeconds = 30 * 24 * 60 * 60) {
+      const input = await fhevm.createEncryptedInput(contractAddress, signers.alice.address).add32(target).encrypt();
+      const periodEnd = (await time.latest()) + periodSeconds;
+      await (await contract.connect(signers.alice).setPersonalGoal(input.handles[0], input.inputProof, periodEnd)).wait();
+    }
+
+    async function readProgress() {
+      const goal = await contract.getPersonalGoal(signers.alice.address);
+      return {
+        periodRecords: goal.periodRecords,
+        onTarget: await decryptUint32(goal.encryptedOnTargetCount, signers.alice),
+        met: await fhevm.userDecryptEbool(goal.encryptedGoalMet, contractAddress, signers.alice),
+      };
+    }
+
+    it("tracks whether the period average meets the encrypted target", async function () {
+      await submitScore(signers.alice, 40);
+      await setGoal(85);
+
+      await submitScore(signers.alice, 90);
+      expect(await readProgress()).to.deep.eq({ periodRecords: 1n, onTarget: 1n, met: true });
+
+      await submitScore(signers.alice, 70);
+      expect(await readProgress()).to.deep.eq({ periodRecords: 2n, onTarget: 1n, met: false });
+
+      await submitScore(signers.alice, 95);
+      expect(await readProgress()).to.deep.eq({ periodRecords: 3n, onTarget: 2n, met: true });
+    });
+
+    it("ignores scores submitted after the period ends", async function () {
+      await setGoal(80, 60 * 60);
+      await submitScore(signers.alice, 85);
+      await time.increase(2 * 60 * 60);
+      await submitScore(signers.alice, 10);
+
+      expect(await readProgress()).to.deep.eq({ periodRecords: 1n, onTarget: 1n, met: true });
+    });
+
+    it("only counts the in-period trips of the day the period ends", async function () {
+      await (await contract.connect(signers.deployer).toggleTestMode(false)).wait();
+      const day = 24 * 60 * 60;
+      await time.increaseTo(Math.floor((await time.latest()) / day + 1) * day + 60 * 60);
+      await setGoal(80, 2 * 60 * 60);
+      await submitScore(signers.alice, 90);
+      await submitScore(signers.alice, 70);
+      await time.increase(3 * 60 * 60);
+
+      // 周期已结束：当天周期内的两次行程按均值 80 计为一天，之后的行程不计入
+      await submitScore(signers.alice, 10);
+      expect(await readProgress()).to.deep.eq({ periodRecords: 1n, onTarget: 1n, met: true });
+    });
+
+    it("counts the last in-period day when the driver finalizes it", async function () {
+      await (await contract.connect(signers.deployer).toggleTestMode(false)).wait();
+      await setGoal(80, 60 * 60);
+      await submitScore(signers.alice, 75);
+      await time.increase(24 * 60 * 60);
+
+      await (await contract.connect(signers.alice).finalizePendingDay()).wait();
+      expect(await readProgress()).to.deep.eq({ periodRecords: 1n, onTarget: 0n, met: false });
+    });
+
+    it("keeps the target private to the driver", async function () {
+      await setGoal(85);
+      const goal = await contract.getPersonalGoal(signers.alice.address);
+      expect(await decryptUint32(goal.encryptedTarget, signers.alice)).to.eq(85n);
+
+      let decrypted = true;
+      try {
+        await decryptUint32(goal.encryptedTarget, signers.bob);
+      } catch {
+        decrypted = false;
+      }
+      expect(decrypted).to.eq(false);
+    });
+
+    it("rejects a period that has already ended", async function () {
+      const input = await fhevm.createEncryptedInput(contractAddress, signers.alice.address).add32(80).encrypt();
+      await expect(
+        contract.connect(signers.alice).setPersonalGoal(input.handles[0], input.inputProof, await time.latest()),
+      ).to.be.revertedWithCustomError(libraries.DriveGoals, "InvalidGoalPeriod");
+    });
+  });
+
+  describe("daily trip aggregation", function () {
+    const DAY = 24 * 60 * 60;
+
+    // 跳到下一个 UTC 自然日开始后 1 小时，保证同一天内还能提交多次行程
+    async function startNextDay() {
+      const now = await time.latest();
+      await time.increaseTo(Math.floor(now / DAY + 1) * DAY + 60 * 60);
+    }
+
+    beforeEach(async function () {
+      await (await contract.connect(signers.deployer).toggleTestMode(false)).wait();
+      await startNextDay();
+    });
+
+    it("sums trips of the same day without creating a record", async function () {
+      await submitScore(signers.alice, 80);
+      await submitScore(signers.alice, 90);
+      await submitScore(signers.alice, 100);
+
+      const pending = await contract.getPendingTrips(signers.alice.address);
+      expect(pending.tripCount).to.eq(3n);
+      expect(await decryptUint32(pending.encryptedTripTotal, signers.alice)).to.eq(270n);
+      expect(await contract.getRecordCount(signers.alice.address)).to.eq(0n);
+    });
+
+    it("finalizes the previous day into one averaged record when the day rolls over", async function () {
+      await submitScore(signers.alice, 80, 1);
+      await submitScore(signers.alice, 91, 3);
+      await startNextDay();
+      await submitScore(signers.alice, 60);
+
+      expect(await contract.getRecordCount(signers.alice.address)).to.eq(1n);
+      const latest = await contract.getLatestRecord(signers.alice.address);
+      expect(await decryptUint32(latest.encryptedScore, signers.alice)).to.eq(85n);
+      expect(
+        await fhevm.userDecryptEuint(FhevmType.euint8, latest.encryptedDistanceCategory, contractAddress, signers.alice),
+      ).to.eq(3n);
+
+      const pending = await contract.getPendingTrips(signers.alice.address);
+      expect(pending.tripCount).to.eq(1n);
+    });
+
+    it("lets the driver finalize a finished day explicitly", async function () {
+      await submitScore(signers.alice, 70);
+      await expect(contract.connect(signers.alice).finalizePendingDay()).to.be.revertedWithCustomError(
+        contract,
+        "NoDayToFinalize",
+      );
+
+      await startNextDay();
+      await (await contract.connect(signers.alice).finalizePendingDay()).wait();
+
+      expect(await contract.getRecordCount(signers.alice.address)).to.eq(1n);
+      expect((await contract.getPendingTrips(signers.alice.address)).tripCount).to.eq(0n);
+    });
+
+    it("counts the streak in calendar days rather than trips", async function () {
+      await submitScore(signers.alice, 80);
+      await submitScore(signers.alice, 80);
+      await startNextDay();
+      await submitScore(signers.alice, 80);
+      await submitScore(signers.alice, 80);
+      await startNextDay();
+      await submitScore(signers.alice, 80);
+
+      let stats = await contract.getUserStatistics(signers.alice.address);
+      expect(stats.recordCount).to.eq(2n);
+      expect(stats.continuousDays).to.eq(2n);
+
+      // 中间空出一整天后连续天数重新计算
+      await startNextDay();
+      await startNextDay();
+      await submitScore(signers.alice, 80);
+      await startNextDay();
+      await (await contract.connect(signers.alice).finalizePendingDay()).wait();
+
+      stats = await contract.getUserStatistics(signers.alice.address);
+      expect(stats.recordCount).to.eq(4n);
+      expect(stats.continuousDays).to.eq(1n);
+    });
+  });
+
+  describe("historical backfill", function () {
+    const DAY = 24 * 60 * 60;
+
+    async function backfillScore(signer: HardhatEthersSigner, score: number, recordTime: number) {
+      const input = fhevm.createEncryptedInput(contractAddress, signer.address);
+      [score, score, score, score].forEach((subScore) => input.add32(subScore));
+      const encrypted = await input.add8(1).encrypt();
+      const [speeding, braking, cornering, phoneUse, category] = encrypted.handles;
+      return contract
+        .connect(signer)
+        .recordDriveScoreAt([speeding, braking, cornering, phoneUse], category, encrypted.inputProof, recordTime);
+    }
+
+    // 今天 UTC 零点之前 daysAgo 天的中午
+    async function daysAgo(days: number) {
+      const today = Math.floor((await time.latest()) / DAY);
+      return (today - days) * DAY + 12 * 60 * 60;
+    }
+
+    beforeEach(async function () {
+      await (await contract.connect(signers.deployer).toggleTestMode(false)).wait();
+    });
+
+    it("requires the admin to approve the driver", async function () {
+      await expect(backfillScore(signers.alice, 80, await daysAgo(3))).to.be.revertedWithCustomError(
+        contract,
+        "BackfillNotApproved",
+      );
+      await expect(
+        contract.connect(signers.alice).setBackfillApproval(signers.alice.address, true),
+      ).to.be.revertedWithCustomError(contract, "OnlyAdmin");
+
+      await expect(contract.connect(signers.deployer).setBackfillApproval(signers.alice.address, true))
+        .to.emit(contract, "BackfillApprovalChanged")
+        .withArgs(signers.alice.address, true);
+      expect(await contract.isBackfillApproved(signers.alice.address)).to.eq(true);
+    });
+
+    it("records past days with their own record time and streak", async function () {
+      await (await contract.connect(signers.deployer).setBackfillApproval(signers.alice.address, true)).wait();
+      const recordTimes = [await daysAgo(3), await daysAgo(2), await daysAgo(1)];
+      for (const [i, recordTime] of recordTimes.entries()) {
+        await (await backfillScore(signers.alice, 70 + i * 10, recordTime)).wait();
+      }
+
+      const records = await contract.getAllRecords(signers.alice.address);
+      expect([...records.recordTimes]).to.deep.eq([...recordTimes].reverse().map(BigInt));
+      const stats = await contract.getUserStatistics(signers.alice.address);
+      expect(stats.continuousDays).to.eq(3n);
+      expect(stats.lastRecordTime).to.eq(BigInt(recordTimes[2]));
+      expect(await decryptUint32(await contract.getEncryptedAverage(signers.alice.address), signers.alice)).to.eq(80n);
+    });
+
+    it("only accepts one record per day, in order, within the backfill window", async function () {
+      await (await contract.connect(signers.deployer).setBackfillApproval(signers.alice.address, true)).wait();
+      const maxAgeDays = Number(await contract.MAX_BACKFILL_AGE()) / DAY;
+
+      await expect(backfillScore(signers.alice, 80, await daysAgo(maxAgeDays + 1))).to.be.revertedWithCustomError(
+        libraries.DriveTrips,
+        "InvalidBackfillTime",
+      );
+      await expect(backfillScore(signers.alice, 80, await time.latest())).to.be.revertedWithCustomError(
+        libraries.DriveTrips,
+        "InvalidBackfillTime",
+      );
+
+      await (await backfillScore(signers.alice, 80, await daysAgo(2))).wait();
+      await expect(backfillScore(signers.alice, 80, (await daysAgo(2)) + 60)).to.be.revertedWithCustomError(
+        libraries.DriveTrips,
+        "InvalidBackfillTime",
+      );
+      await expect(backfillScore(signers.alice, 80, await daysAgo(3))).to.be.revertedWithCustomError(
+        libraries.DriveTrips,
+        "InvalidBackfillTime",
+      );
+
+      // 今天已有未结算的行程时，回填仍只能写入更早的日期
+      await submitScore(signers.alice, 90);
+      await (await backfillScore(signers.alice, 80, await daysAgo(1))).wait();
+      expect(await contract.getRecordCount(signers.alice.address)).to.eq(2n);
+    });
+  });
+
+  describe("head-to-head challenges", function () {
+    let challengeId: bigint;
+
+    beforeEach(async function () {
+      challengeId = await contract.connect(signers.alice).createChallenge.staticCall(signers.bob.address);
+      await (await contract.connect(signers.alice).createChallenge(signers.bob.address)).wait();
+    });
+
+    async function finishChallenge() {
+      await time.increase(7 * 24 * 60 * 60);
+      await (await contract.finalizeChallenge(challengeId)).wait();
+      return (await contract.getChallenge(challengeId)).encryptedChallengerWon;
+    }
+
+    it("only counts scores submitted inside the challenge window", async function () {
+      await submitScore(signers.alice, 100);
+      await (await contract.connect(signers.bob).acceptChallenge(challengeId)).wait();
+      await submitScore(signers.alice, 60);
+      await submitScore(signers.bob, 70);
+
+      const won = await finishChallenge();
+      expect(await fhevm.userDecryptEbool(won, contractAddress, signers.alice)).to.eq(false);
+      expect(await fhevm.userDecryptEbool(won, contractAddress, signers.bob)).to.eq(false);
+
+      await submitScore(signers.alice, 100);
+      const challenge = await contract.getChallenge(challengeId);
+      expect(challenge.status).to.eq(2n);
+    });
+
+    it("reveals the winner flag only to the two participants", async function () {
+      await (await contract.connect(signers.bob).acceptChallenge(challengeId)).wait();
+      await submitScore(signers.alice, 90);
+      await submitScore(signers.alice, 85);
+      await submitScore(signers.bob, 95);
+
+      const won = await finishChallenge();
+      expect(await fhevm.userDecryptEbool(won, contractAddress, signers.alice)).to.eq(true);
+
+      let decrypted = true;
+      try {
+        await fhevm.userDecryptEbool(won, contractAddress, signers.insurer);
+      } catch {
+        decrypted = false;
+      }
+      expect(decrypted).to.eq(false);
+    });
+
+    it("enforces the invitation and window rules", async function () {
+      await expect(
+        contract.connect(signers.alice).createChallenge(signers.alice.address),
+      ).to.be.revertedWithCustomError(libraries.DriveChallenges, "InvalidOpponent");
+      await expect(contract.connect(signers.alice).acceptChallenge(challengeId)).to.be.revertedWithCustomError(
+        libraries.DriveChallenges,
+        "NotInvited",
+      );
+
+      await (await contract.connect(signers.bob).acceptChallenge(challengeId)).wait();
+      await expect(contract.finalizeChallenge(challengeId)).to.be.revertedWithCustomError(
+        libraries.DriveChallenges,
+        "ChallengeNotEnded",
+      );
+      await expect(contract.connect(signers.bob).cancelChallenge(challengeId)).to.be.revertedWithCustomError(
+        libraries.DriveChallenges,
+        "ChallengeNotPending",
+      );
+
+      expect(await contract.getChallengeIds(signers.bob.address)).to.deep.eq([challengeId]);
+    });
+
+    describe("with daily aggregation", function () {
+      beforeEach(async function () {
+        await (await contract.connect(signers.deployer).toggleTestMode(false)).wait();
+      });
+
+      it("counts trip days that are still pending when the challenge ends", async function () {
+        await (await contract.connect(signers.bob).acceptChallenge(challengeId)).wait();
+        await submitScore(signers.alice, 90);
+        await submitScore(signers.alice, 100);
+        await submitScore(signers.bob, 80);
+
+        // 最后一天的行程在窗口结束前提交，结算时当天还没有结束
+        const { endTime } = await contract.getChallenge(challengeId);
+        await time.increaseTo(endTime - 60n);
+        await submitScore(signers.alice, 60);
+        await submitScore(signers.bob, 70);
+        await time.increaseTo(endTime);
+        expect((await contract.getPendingTrips(signers.alice.address)).tripCount).to.be.greaterThan(0n);
+
+        // 发起方 95 + 60 > 受邀方 80 + 70，双方都没有调用 finalizePendingDay
+        await (await contract.finalizeChallenge(challengeId)).wait();
+        const won = (await contract.getChallenge(challengeId)).encryptedChallengerWon;
+        expect(await fhevm.userDecryptEbool(won, contractAddress, signers.alice)).to.eq(true);
+      });
+
+      it("checks the window per trip rather than per day", async function () {
+        await submitScore(signers.alice, 100);
+        await (await contract.connect(signers.bob).acceptChallenge(challengeId)).wait();
+        await submitScore(signers.alice, 60);
+        await submitScore(signers.bob, 70);
+
+        const { endTime } = await contract.getChallenge(challengeId);
+        await time.increaseTo(endTime);
+        await submitScore(signers.alice, 100);
+
+        // 只计入窗口内的 60，接受前和窗口结束后的行程即使在同一天也不计入
+        await (await contract.finalizeChallenge(challengeId)).wait();
+        const won = (await contract.getChallenge(challengeId)).encryptedChallengerWon;
+        expect(await fhevm.userDecryptEbool(won, contractAddress, signers.alice)).to.eq(false);
+      });
+    });
+  });
+
+  describe("fleet mode", function () {
+    let fleetId: bigint;
+
+    beforeEach(async function () {
+      fleetId = await contract.connect(signers.manager).createFleet.staticCall("Depot A");
+      await (await contract.connect(signers.manager).createFleet("Depot A")).wait();
+    });
+
+    async function joinAll(...members: HardhatEthersSigner[]) {
+      for (const member of members) {
+        await (await contract.connect(member).joinFleet(fleetId)).wait();
+      }
+    }
+
+    it("publishes the fleet average only the manager can decrypt once the thresholds are met", async function () {
+      await submitScore(signers.alice, 60);
+      await joinAll(signers.alice, signers.bob, signers.insurer);
+      await submitScore(signers.alice, 80);
+      await submitScore(signers.bob, 91);
+      await submitScore(signers.insurer, 70);
+      await submitScore(signers.bob, 79);
+
+      // 4 次提交：未达到提交次数门槛
+      await expect(contract.connect(signers.manager).publishFleetAggregates(fleetId)).to.be.revertedWithCustomError(
+        libraries.DriveFleets,
+        "InsufficientFleetActivity",
+      );
+      await expect(contract.getFleetEncryptedAggregates(fleetId)).to.be.revertedWithCustomError(contract, "NoRecords");
+
+      await submitScore(signers.alice, 100);
+      await expect(contract.connect(signers.bob).publishFleetAggregates(fleetId)).to.be.revertedWithCustomError(
+        libraries.DriveFleets,
+        "NotAuthorized",
+      );
+      await expect(contract.connect(signers.manager).publishFleetAggregates(fleetId))
+        .to.emit(contract, "FleetAggregatesPublished")
+        .withArgs(fleetId, 5);
+
+      const [, , , memberCount, totalSubmissions] = await contract.getFleet(fleetId);
+      expect(memberCount).to.eq(3n);
+      expect(totalSubmissions).to.eq(5n);
+
+      const [encryptedTotal, encryptedAverage, , publishedSubmissions] =
+        await contract.getFleetEncryptedAggregates(fleetId);
+      expect(publishedSubmissions).to.eq(5n);
+      expect(await decryptUint32(encryptedTotal, signers.manager)).to.eq(420n);
+      expect(await decryptUint32(encryptedAverage, signers.manager)).to.eq(84n);
+
+      let decrypted = true;
+      try {
+        await decryptUint32(encryptedAverage, signers.alice);
+      } catch {
+        decrypted = false;
+      }
+      expect(decrypted).to.eq(false);
+    });
+
+    it("requires enough distinct members per round", async function () {
+      await joinAll(signers.alice, signers.bob);
+      for (const score of [60, 70, 80]) {
+        await submitScore(signers.alice, score);
+        await submitScore(signers.bob, score);
+      }
+
+      const [roundMembers, roundSubmissions] = await contract.getFleetPublishProgress(fleetId);
+      expect(roundMembers).to.eq(2n);
+      expect(roundSubmissions).to.eq(6n);
+      await expect(contract.connect(signers.manager).publishFleetAggregates(fleetId)).to.be.revertedWithCustomError(
+        libraries.DriveFleets,
+        "InsufficientFleetActivity",
+      );
+    });
+
+    it("does not expose a new handle to the manager after a single submission", async function () {
+      await joinAll(signers.alice, signers.bob, signers.insurer);
+      for (const member of [signers.alice, signers.bob, signers.insurer, signers.alice, signers.bob]) {
+        await submitScore(member, 80);
+      }
+      await (await contract.connect(signers.manager).publishFleetAggregates(fleetId)).wait();
+      const [publishedTotal, publishedAverage] = await contract.getFleetEncryptedAggregates(fleetId);
+
+      // 发布后只有一次新提交：快照不变，经理拿不到任何包含这条评分的新句柄
+      await submitScore(signers.insurer, 35);
+      const [encryptedTotal, encryptedAverage] = await contract.getFleetEncryptedAggregates(fleetId);
+      expect(encryptedTotal).to.eq(publishedTotal);
+      expect(encryptedAverage).to.eq(publishedAverage);
+
+      await expect(contract.connect(signers.manager).publishFleetAggregates(fleetId)).to.be.revertedWithCustomError(
+        libraries.DriveFleets,
+        "PublishTooEarly",
+      );
+      await time.increase(Number(await contract.FLEET_PUBLISH_INTERVAL()));
+      await expect(contract.connect(signers.manager).publishFleetAggregates(fleetId)).to.be.revertedWithCustomError(
+        libraries.DriveFleets,
+        "InsufficientFleetActivity",
+      );
+      expect(await decryptUint32(publishedTotal, signers.manager)).to.eq(400n);
+    });
+
+    it("does not give the manager access to individual scores", async function () {
+      await (await contract.connect(signers.alice).joinFleet(fleetId)).wait();
+      await submitScore(signers.alice, 75);
+
+      const latest = await contract.getLatestRecord(signers.alice.address);
+      let decrypted = true;
+      try {
+        await decryptUint32(latest.encryptedScore, signers.manager);
+      } catch {
+        decrypted = false;
+      }
+      expect(decrypted).to.eq(false);
+    });
+
+    it("stops counting a member's scores after removal", async function () {
+      await joinAll(signers.alice, signers.bob, signers.insurer);
+      await expect(contract.connect(signers.alice).joinFleet(fleetId)).to.be.revertedWithCustomError(
+        libraries.DriveFleets,
+        "AlreadyInFleet",
+      );
+      await expect(
+        contract.connect(signers.bob).removeFleetMember(signers.alice.address),
+      ).to.be.revertedWithCustomError(libraries.DriveFleets, "NotAuthorized");
+
+      await submitScore(signers.alice, 70);
+      await submitScore(signers.bob, 80);
+      await submitScore(signers.insurer, 90);
+      await submitScore(signers.bob, 60);
+      await submitScore(signers.insurer, 100);
+      await (await contract.connect(signers.manager).removeFleetMember(signers.alice.address)).wait();
+      await submitScore(signers.alice, 100);
+      await (await contract.connect(signers.manager).publishFleetAggregates(fleetId)).wait();
+
+      expect(await contract.getFleetMembers(fleetId)).to.deep.eq([signers.insurer.address, signers.bob.address]);
+      expect(await contract.driverFleetIds(signers.alice.address)).to.eq(0n);
+      const [, encryptedAverage] = await contract.getFleetEncryptedAggregates(fleetId);
+      expect(await decryptUint32(encryptedAverage, signers.manager)).to.eq(80n);
+    });
+  });
+
+  describe("encrypted sub-scores", function () {
+    it("derives the overall score as the weighted sum of the sub-scores", async function () {
+      // (90×35 + 70×25 + 80×20 + 40×20) / 100 = 73
+      await submitSubScores(signers.alice, [90, 70, 80, 40]);
+
+      const latest = await contract.getLatestRecord(signers.alice.address);
+      expect(await decryptUint32(latest.encryptedScore, signers.alice)).to.eq(73n);
+    });
+
+    it("stores each record's sub-scores and per-dimension totals", async function () {
+      await submitSubScores(signers.alice, [90, 70, 80, 40]);
+      await submitSubScores(signers.alice, [60, 100, 20, 250]);
+
+      const [newest, oldest] = await contract.getAllRecordSubScores(signers.alice.address);
+      expect(await decryptAllUint32(newest, signers.alice)).to.deep.eq([60n, 100n, 20n, 100n]);
+      expect(await decryptAllUint32(oldest, signers.alice)).to.deep.eq([90n, 70n, 80n, 40n]);
+
+      const totals = await contract.getEncryptedSubScoreTotals(signers.alice.address);
+      expect(await decryptAllUint32(totals, signers.alice)).to.deep.eq([150n, 170n, 100n, 140n]);
+
+      const clamped = await contract.getLatestClampFlag(signers.alice.address);
+      expect(await fhevm.userDecryptEbool(clamped, contractAddress, signers.alice)).to.eq(true);
+    });
+
+    it("averages sub-scores across the trips of a day", async function () {
+      await (await contract.connect(signers.deployer).toggleTestMode(false)).wait();
+      await submitSubScores(signers.alice, [80, 60, 90, 100]);
+      await submitSubScores(signers.alice, [100, 80, 70, 61]);
+      await time.increase(24 * 60 * 60);
+      await (await contract.connect(signers.alice).finalizePendingDay()).wait();
+
+      const [daily] = await contract.getAllRecordSubScores(signers.alice.address);
+      expect(await decryptAllUint32(daily, signers.alice)).to.deep.eq([90n, 70n, 80n, 80n]);
+    });
+  });
+
+  describe("distance-weighted average", function () {
+    async function readWeighted(signer: HardhatEthersSigner) {
+      const weighted = await contract.getEncryptedWeightedAggregates(signers.alice.address);
+      return {
+        total: await decryptUint32(weighted.encryptedWeightedTotal, signer),
+        weight: await decryptUint32(weighted.encryptedTotalWeight, signer),
+      };
+    }
+
+    it("weights each score by its distance category", async function () {
+      await submitScore(signers.alice, 60, 1);
+      await submitScore(signers.alice, 90, 3);
+      await submitScore(signers.alice, 70, 2);
+      await submitScore(signers.alice, 50, 0);
+
+      // 60×1 + 90×4 + 70×2 + 50×1 = 610，权重 1 + 4 + 2 + 1 = 8
+      expect(await readWeighted(signers.alice)).to.deep.eq({ total: 610n, weight: 8n });
+    });
+
+    it("shares the weighted aggregates with an accepted guardian", async function () {
+      await expect(contract.getEncryptedWeightedAggregates(signers.alice.address)).to.be.revertedWithCustomError(
+        contract,
+        "NoRecords",
+      );
+
+      await submitScore(signers.alice, 80, 3);
+      await (await contract.connect(signers.alice).proposeGuardian(signers.guardian.address)).wait();
+      await (await contract.connect(signers.guardian).acceptGuardianship(signers.alice.address)).wait();
+      expect(await readWeighted(signers.guardian)).to.deep.eq({ total: 320n, weight: 4n });
+
+      await submitScore(signers.alice, 40, 1);
+      expect(await readWeighted(signers.guardian)).to.deep.eq({ total: 360n, weight: 5n });
+    });
+  });
+
+  describe("encrypted distance category", function () {
+    async function decryptUint8(handle: string, signer: HardhatEthersSigner) {
+      return fhevm.userDecryptEuint(FhevmType.euint8, handle, contractAddress, signer);
+    }
+
+    it("stores the category encrypted alongside the score", async function () {
+      await submitScore(signers.alice, 75, 2);
+      await submitScore(signers.alice, 80, 3);
+
+      const [, encryptedCategories] = await contract.getAllRecords(signers.alice.address);
+      expect(await decryptUint8(encryptedCategories[0], signers.alice)).to.eq(3n);
+      expect(await decryptUint8(encryptedCategories[1], signers.alice)).to.eq(2n);
+    });
+
+    it("treats an out-of-range category as unknown", async function () {
+      await submitScore(signers.alice, 75, 9);
+
+      const latest = await contract.getLatestRecord(signers.alice.address);
+      expect(await decryptUint8(latest.encryptedDistanceCategory, signers.alice)).to.eq(0n);
+    });
+
+    it("keeps encrypted per-category counters", async function () {
+      await submitScore(signers.alice, 70, 1);
+      await submitScore(signers.alice, 71, 1);
+      await submitScore(signers.alice, 72, 3);
+
+      const counts = await contract.getEncryptedCategoryCounts(signers.alice.address);
+      const clearCounts = [];
+      for (const handle of counts) {
+        clearCounts.push(await decryptUint32(handle, signers.alice));
+      }
+      expect(clearCounts).to.deep.eq([0n, 2n, 0n, 1n]);
+    });
+
+    it("keeps encrypted per-category score sums", async function () {
+      await submitScore(signers.alice, 60, 3);
+      await submitScore(signers.alice, 90, 1);
+      await submitScore(signers.alice, 80, 3);
+
+      const [sums, counts] = await contract.getEncryptedCategoryAggregates(signers.alice.address);
+      const clearSums = [];
+      const clearCounts = [];
+      for (let i = 0; i < sums.length; i++) {
+        clearSums.push(await decryptUint32(sums[i], signers.alice));
+        clearCounts.push(await decryptUint32(counts[i], signers.alice));
+      }
+      expect(clearSums).to.deep.eq([0n, 90n, 0n, 140n]);
+      expect(clearCounts).to.deep.eq([0n, 1n, 0n, 2n]);
+    });
+  });
+});
@@ -2,11 +2,17 @@ import { useState } from 'react'
 import { BrowserRouter as Router, Routes, Route } from 'react-router-dom'
 import { useWallet } from './hooks/useWallet'
 import { useFhevm } from './fhevm/useFhevm'
+import { FhevmStorageProvider } from './fhevm/FhevmStorageContext'
 import Layout from './components/Layout'
 import Dashboard from './pages/Dashboard'
 import Submit from './pages/Submit'
 import History from './pages/History'
 import Analytics from './pages/Analytics'
+import Sharing from './pages/Sharing'
+import Guardian, { WardAnalytics, WardHistory } from './pages/Guardian'
+import Fleet from './pages/Fleet'
+import Challenges from './pages/Challenges'
+import Backfill from './pages/Backfill'
 import './App.css'
 
 function App() {
@@ -21,16 +27,25 @@ function App() {
   });
 
   return (
-    <Router>
-      <Layout wallet={wallet} fhevm={fhevm}>
-        <Routes>
-          <Route path="/" element={<Dashboard wallet={wallet} fhevm={fhevm} />} />
-          <Route path="/submit" element={<Submit wallet={wallet} fhevm={fhevm} />} />
-          <Route path="/history" element={<History wallet={wallet} fhevm={fhevm} />} />
-          <Route path="/analytics" element={<Analytics wallet={wallet} fhevm={fhevm} />} />
-        </Routes>
-      </Layout>
-    </Router>
+    <FhevmStorageProvider chainId={wallet.chainId} account={wallet.accounts[0]}>
+      <Router>
+        <Layout wallet={wallet} fhevm={fhevm}>
+          <Routes>
+            <Route path="/" element={<Dashboard wallet={wallet} fhevm={fhevm} />} />
+            <Route path="/submit" element={<Submit wallet={wallet} fhevm={fhevm} />} />
+            <Route path="/history" element={<History wallet={wallet} fhevm={fhevm} />} />
+            <Route path="/analytics" element={<Analytics wallet={wallet} fhevm={fhevm} />} />
+            <Route path="/sharing" element={<Sharing wallet={wallet} fhevm={fhevm} />} />
+            <Route path="/guardian" element={<Guardian wallet={wallet} fhevm={fhevm} />} />
+            <Route path="/guardian/:ward/history" element={<WardHistory wallet={wallet} fhevm={fhevm} />} />
+            <Route path="/guardian/:ward/analytics" element={<WardAnalytics wallet={wallet} fhevm={fhevm} />} />
+            <Route path="/fleet" element={<Fleet wallet={wallet} fhevm={fhevm} />} />
+            <Route path="/challenges" element={<Challenges wallet={wallet} fhevm={fhevm} />} />
+            <Route path="/backfill" element={<Backfill wallet={wallet} fhevm={fhevm} />} />
+          </Routes>
+        </Layout>
+      </Router>
+    </FhevmStorageProvider>
   );
 }
 
@@ -1,5 +1,6 @@
 import { ReactNode } from 'react'
 import { Link, useLocation } from 'react-router-dom'
+import { clearDecryptedValueCache } from '../fhevm/FhevmDecryptedValueCache'
 
 interface LayoutProps {
   children: ReactNode
@@ -26,8 +27,23 @@ export default function Layout({ children, wallet, fhevm }: LayoutProps) {
     { name: 'RECORD', path: '/submit', icon: '◆', color: 'from-cyan-500 to-blue-500' },
     { name: 'HISTORY', path: '/history', icon: '▲', color: 'from-green-500 to-emerald-500' },
     { name: 'ANALYTICS', path: '/analytics', icon: '◇', color: 'from-pink-500 to-rose-500' },
+    { name: 'SHARING', path: '/sharing', icon: '⬢', color: 'from-yellow-500 to-orange-500' },
+    { name: 'GUARDIAN', path: '/guardian', icon: '⛨', color: 'from-blue-500 to-indigo-500' },
+    { name: 'FLEET', path: '/fleet', icon: '▣', color: 'from-teal-500 to-cyan-500' },
+    { name: 'CHALLENGES', path: '/challenges', icon: '⚔', color: 'from-red-500 to-pink-500' },
+    { name: 'BACKFILL', path: '/backfill', icon: '↺', color: 'from-indigo-500 to-cyan-500' },
   ]
 
+  const forgetDecryptedData = async () => {
+    if (!window.confirm('清除本机缓存的所有已解密数据？')) return
+    try {
+      await clearDecryptedValueCache()
+      alert('已清除本机缓存的解密数据')
+    } catch (error) {
+      console.error('Failed to clear decrypted data:', error)
+    }
+  }
+
   const isActive = (path: string) => {
     if (path === '/') {
       return location.pathname === '/'
@@ -93,6 +109,13 @@ export default function Layout({ children, wallet, fhevm }: LayoutProps) {
                       FHEVM:{fhevm.status.toUpperCase()}
                     </span>
                   </div>
+                  <button
+                    onClick={forgetDecryptedData}
+                    title="FORGET_DECRYPTED_DATA"
+                    className="px-4 py-2 rounded backdrop-blur-sm border bg-red-500/10 border-red-500/30 hover:bg-red-500/20 transition-colors"
+                  >
+                    <span className="text-xs text-red-400 font-orbitron">FORGET</span>
+                  </button>
                 </>
               ) : (
                 <button
@@ -0,0 +1,179 @@
+import { ethers } from "ethers";
+import type { FhevmInstance, HandleContractPair } from "./fhevmTypes";
+import { FhevmDecryptionSignature } from "./FhevmDecryptionSignature";
+import type { FhevmDecryptedValueCache } from "./FhevmDecryptedValueCache";
+
+// The relayer rejects any userDecrypt request above 2048 encrypted bits.
+export const MAX_USER_DECRYPT_BITS = 2048;
+
+// Encrypted bit size per FHE type discriminant (byte 30 of the handle).
+const NumEncryptedBits: Record<number, number> = {
+  0: 2, // ebool
+  2: 8, // euint8
+  3: 16, // euint16
+  4: 32, // euint32
+  5: 64, // euint64
+  6: 128, // euint128
+  7: 160, // eaddress
+  8: 256, // euint256
+};
+
+export type FhevmClearValue = bigint | boolean | `0x${string}`;
+
+export type FhevmBatchDecryptProgress = {
+  done: number;
+  failed: number;
+  total: number;
+};
+
+// Both maps are keyed by `handleKey(handle)`.
+export type FhevmBatchDecryptResult = {
+  values: Record<string, FhevmClearValue>;
+  errors: Record<string, Error>;
+};
+
+/**
+ * Normalized map key for a handle: lowercase 0x-prefixed hex string.
+ */
+export function handleKey(handle: HandleContractPair["handle"]): string {
+  return typeof handle === "string"
+    ? handle.toLowerCase()
+    : ethers.hexlify(handle).toLowerCase();
+}
+
+function _handleBits(handle: string): number {
+  const typeDiscriminant = parseInt(handle.slice(-4, -2), 16);
+  const bits = NumEncryptedBits[typeDiscriminant];
+  if (handle.length !== 66 || bits === undefined) {
+    throw new TypeError(`Invalid handle ${handle}`);
+  }
+  return bits;
+}
+
+function _toError(e: unknown): Error {
+  return e instanceof Error ? e : new Error(String(e));
+}
+
+/**
+ * Splits handles into chunks that each stay within the relayer bit limit.
+ * Duplicate handles are only decrypted once.
+ */
+export function chunkHandleContractPairs(
+  pairs: HandleContractPair[],
+  maxBits: number = MAX_USER_DECRYPT_BITS
+): HandleContractPair[][] {
+  const chunks: HandleContractPair[][] = [];
+  const seen = new Set<string>();
+
+  let current: HandleContractPair[] = [];
+  let currentBits = 0;
+
+  for (const pair of pairs) {
+    const handle = handleKey(pair.handle);
+    if (seen.has(handle)) continue;
+    seen.add(handle);
+
+    const bits = _handleBits(handle);
+    if (current.length > 0 && currentBits + bits > maxBits) {
+      chunks.push(current);
+      current = [];
+      currentBits = 0;
+    }
+    current.push(pair);
+    currentBits += bits;
+  }
+
+  if (current.length > 0) {
+    chunks.push(current);
+  }
+
+  return chunks;
+}
+
+/**
+ * Decrypts any number of handles with a single signature, issuing one
+ * `userDecrypt` call per relayer-sized chunk.
+ *
+ * When a `cache` is given it is consulted first and only the misses are sent
+ * to the relayer; freshly decrypted values are written back to it.
+ *
+ * A failing chunk does not abort the batch: its handles are reported in
+ * `errors` and the remaining chunks are still decrypted.
+ */
+export async function userDecryptBatch(
+  instance: FhevmInstance,
+  pairs: HandleContractPair[],
+  sig: FhevmDecryptionSignature,
+  options?: {
+    cache?: FhevmDecryptedValueCache;
+    signal?: AbortSignal;
+    onProgress?: (progress: FhevmBatchDecryptProgress) => void;
+  }
+): Promise<FhevmBatchDecryptResult> {
+  const cache = options?.cache;
+  const chunks = chunkHandleContractPairs(pairs);
+  const total = chunks.reduce((n, chunk) => n + chunk.length, 0);
+
+  const result: FhevmBatchDecryptResult = { values: {}, errors: {} };
+  const progress: FhevmBatchDecryptProgress = { done: 0, failed: 0, total };
+
+  let misses = chunks.flat();
+  if (cache) {
+    const cached = await Promise.all(
+      misses.map(({ handle, contractAddress }) =>
+        cache.get(contractAddress, handleKey(handle))
+      )
+    );
+    misses = misses.filter(({ handle }, i) => {
+      if (cached[i] === undefined) return true;
+      result.values[handleKey(handle)] = cached[i];
+      progress.done++;
+      return false;
+    });
+  }
+
+  options?.onProgress?.({ ...progress });
+
+  for (const chunk of chunkHandleContractPairs(misses)) {
+    if (options?.signal?.aborted) break;
+
+    try {
+      const clear = await instance.userDecrypt(
+        chunk,
+        sig.privateKey,
+        sig.publicKey,
+        sig.signature,
+        sig.contractAddresses,
+        sig.userAddress,
+        sig.startTimestamp,
+        sig.durationDays
+      );
+      const clearByKey = new Map<string, FhevmClearValue>();
+      for (const [k, v] of Object.entries(clear)) {
+        clearByKey.set(k.toLowerCase(), v);
+      }
+      for (const { handle, contractAddress } of chunk) {
+        const key = handleKey(handle);
+        const value = clearByKey.get(key);
+        if (value === undefined) {
+          result.errors[key] = new Error(`Missing decrypted value for ${key}`);
+          progress.failed++;
+        } else {
+          result.values[key] = value;
+          progress.done++;
+          await cache?.set(contractAddress, key, value);
+        }
+      }
+    } catch (e) {
+      const error = _toError(e);
+      for (const { handle } of chunk) {
+        result.errors[handleKey(handle)] = error;
+      }
+      progress.failed += chunk.length;
+    }
+
+    options?.onProgress?.({ ...progress });
+  }
+
+  return result;
+}
@@ -0,0 +1,170 @@
+import { openDB, DBSchema, IDBPDatabase } from "idb";
+import type { FhevmClearValue } from "./FhevmBatchDecryptor";
+
+type StoredDecryptedValue = {
+  id: string;
+  iv: ArrayBuffer;
+  data: ArrayBuffer;
+};
+
+type SerializedClearValue =
+  | { t: "bigint"; v: string }
+  | { t: "boolean"; v: boolean }
+  | { t: "hex"; v: `0x${string}` };
+
+interface DecryptedValuesDB extends DBSchema {
+  decryptedValueStore: {
+    key: string;
+    value: StoredDecryptedValue;
+  };
+}
+
+let __dbPromise: Promise<IDBPDatabase<DecryptedValuesDB>> | undefined =
+  undefined;
+
+async function _getDB(): Promise<IDBPDatabase<DecryptedValuesDB> | undefined> {
+  if (__dbPromise) {
+    return __dbPromise;
+  }
+  if (typeof window === "undefined") {
+    return undefined;
+  }
+  __dbPromise = openDB<DecryptedValuesDB>("fhevm-decrypted", 1, {
+    upgrade(db) {
+      if (!db.objectStoreNames.contains("decryptedValueStore")) {
+        db.createObjectStore("decryptedValueStore", { keyPath: "id" });
+      }
+    },
+  });
+  return __dbPromise;
+}
+
+function _serialize(value: FhevmClearValue): SerializedClearValue {
+  if (typeof value === "bigint") {
+    return { t: "bigint", v: value.toString() };
+  }
+  if (typeof value === "boolean") {
+    return { t: "boolean", v: value };
+  }
+  return { t: "hex", v: value };
+}
+
+function _deserialize(value: SerializedClearValue): FhevmClearValue {
+  switch (value.t) {
+    case "bigint":
+      return BigInt(value.v);
+    case "boolean":
+      return value.v;
+    case "hex":
+      return value.v;
+  }
+}
+
+async function _deriveKey(chainId: number, privateKey: string) {
+  const encoder = new TextEncoder();
+  const material = await crypto.subtle.importKey(
+    "raw",
+    encoder.encode(privateKey),
+    "HKDF",
+    false,
+    ["deriveKey"]
+  );
+  return crypto.subtle.deriveKey(
+    {
+      name: "HKDF",
+      hash: "SHA-256",
+      salt: encoder.encode("fhevm-decrypted-value-cache"),
+      info: encoder.encode(String(chainId)),
+    },
+    material,
+    { name: "AES-GCM", length: 256 },
+    false,
+    ["encrypt", "decrypt"]
+  );
+}
+
+/**
+ * IndexedDB cache of decrypted handle values.
+ *
+ * Handles are immutable, so a decrypted value never goes stale. Values are
+ * encrypted at rest with an AES-GCM key derived from the user's decryption
+ * private key; entries written under another keypair simply read as misses.
+ */
+export class FhevmDecryptedValueCache {
+  #chainId: number;
+  #key: Promise<CryptoKey>;
+
+  constructor(chainId: number, keyPair: { privateKey: string }) {
+    this.#chainId = chainId;
+    this.#key = _deriveKey(chainId, keyPair.privateKey);
+  }
+
+  #id(contractAddress: string, handle: string): string {
+    return `${this.#chainId}:${contractAddress.toLowerCase()}:${handle.toLowerCase()}`;
+  }
+
+  async get(
+    contractAddress: string,
+    handle: string
+  ): Promise<FhevmClearValue | undefined> {
+    const db = await _getDB();
+    if (!db) {
+      return undefined;
+    }
+
+    const id = this.#id(contractAddress, handle);
+    try {
+      const stored = await db.get("decryptedValueStore", id);
+      if (!stored) {
+        return undefined;
+      }
+      const plain = await crypto.subtle.decrypt(
+        {
+          name: "AES-GCM",
+          iv: stored.iv,
+          additionalData: new TextEncoder().encode(id),
+        },
+        await this.#key,
+        stored.data
+      );
+      return _deserialize(JSON.parse(new TextDecoder().decode(plain)));
+    } catch {
+      return undefined;
+    }
+  }
+
+  async set(
+    contractAddress: string,
+    handle: string,
+    value: FhevmClearValue
+  ): Promise<void> {
+    const db = await _getDB();
+    if (!db) {
+      return;
+    }
+
+    const id = this.#id(contractAddress, handle);
+    try {
+      const iv = crypto.getRandomValues(new Uint8Array(12));
+      const data = await crypto.subtle.encrypt(
+        { name: "AES-GCM", iv, additionalData: new TextEncoder().encode(id) },
+        await this.#key,
+        new TextEncoder().encode(JSON.stringify(_serialize(value)))
+      );
+      await db.put("decryptedValueStore", { id, iv: iv.buffer, data });
+    } catch {
+      console.error(`FhevmDecryptedValueCache.set() failed! id=${id}`);
+    }
+  }
+}
+
+/**
+ * Forgets every decrypted value stored in this browser.
+ */
+export async function clearDecryptedValueCache(): Promise<void> {
+  const db = await _getDB();
+  if (!db) {
+    return;
+  }
+  await db.clear("decryptedValueStore");
+}
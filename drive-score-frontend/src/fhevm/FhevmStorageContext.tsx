@@ -0,0 +1,64 @@
+import { createContext, ReactNode, useContext, useEffect, useMemo, useRef } from "react";
+import {
+  GenericStringInMemoryStorage,
+  GenericStringLocalStorage,
+  GenericStringStorage,
+} from "./GenericStringStorage";
+
+const FhevmStorageContext = createContext<GenericStringStorage | undefined>(
+  undefined
+);
+
+/**
+ * Provides the app-wide storage used to cache `FhevmDecryptionSignature`s.
+ *
+ * Storage is namespaced by chain and account. When the connected account
+ * changes, everything stored for the previous account is cleared.
+ */
+export function FhevmStorageProvider({
+  chainId,
+  account,
+  children,
+}: {
+  chainId: number | undefined;
+  account: string | undefined;
+  children: ReactNode;
+}) {
+  const storage = useMemo<GenericStringStorage>(() => {
+    if (chainId === undefined || !account) {
+      return new GenericStringInMemoryStorage();
+    }
+    return new GenericStringLocalStorage(
+      `fhevm.sig:${chainId}:${account.toLowerCase()}`
+    );
+  }, [chainId, account]);
+
+  const _previousRef = useRef<GenericStringLocalStorage | undefined>(
+    undefined
+  );
+
+  useEffect(() => {
+    if (!(storage instanceof GenericStringLocalStorage)) {
+      return;
+    }
+    const previous = _previousRef.current;
+    if (previous && previous.namespace !== storage.namespace) {
+      previous.clear();
+    }
+    _previousRef.current = storage;
+  }, [storage]);
+
+  return (
+    <FhevmStorageContext.Provider value={storage}>
+      {children}
+    </FhevmStorageContext.Provider>
+  );
+}
+
+export function useFhevmStorage(): GenericStringStorage {
+  const storage = useContext(FhevmStorageContext);
+  if (!storage) {
+    throw new Error("useFhevmStorage must be used within a FhevmStorageProvider");
+  }
+  return storage;
+}
@@ -18,3 +18,48 @@ export class GenericStringInMemoryStorage implements GenericStringStorage {
   }
 }
 
+
+/**
+ * `window.localStorage` backed storage. Every key is prefixed with
+ * `namespace` so that several accounts or chains can share the same origin.
+ */
+export class GenericStringLocalStorage implements GenericStringStorage {
+  #namespace: string;
+
+  constructor(namespace: string) {
+    this.#namespace = namespace;
+  }
+
+  get namespace(): string {
+    return this.#namespace;
+  }
+
+  #key(key: string): string {
+    return `${this.#namespace}:${key}`;
+  }
+
+  getItem(key: string): string | Promise<string | null> | null {
+    return window.localStorage.getItem(this.#key(key));
+  }
+  setItem(key: string, value: string): void | Promise<void> {
+    window.localStorage.setItem(this.#key(key), value);
+  }
+  removeItem(key: string): void | Promise<void> {
+    window.localStorage.removeItem(this.#key(key));
+  }
+
+  /**
+   * Removes every key stored under this namespace.
+   */
+  clear(): void {
+    const prefix = `${this.#namespace}:`;
+    const keys: string[] = [];
+    for (let i = 0; i < window.localStorage.length; ++i) {
+      const key = window.localStorage.key(i);
+      if (key !== null && key.startsWith(prefix)) {
+        keys.push(key);
+      }
+    }
+    keys.forEach((key) => window.localStorage.removeItem(key));
+  }
+}
@@ -0,0 +1,141 @@
+import { ethers } from "ethers";
+import type { FhevmInstance } from "../fhevm/fhevmTypes";
+
+export type DriveAttestation = {
+  id: bigint;
+  driver: string;
+  threshold: number;
+  recordCount: number;
+  requestedAt: number;
+  encryptedResult: string;
+  isRevealed: boolean;
+  passed: boolean;
+  revealedAt: number;
+};
+
+export type AttestationVerification = {
+  status: "passed" | "failed" | "pending" | "wrong-driver" | "not-found";
+  attestation: DriveAttestation | null;
+};
+
+const ATTESTATION_ID_PREFIX = "DSA";
+
+/**
+ * 可分享的证明ID：`DSA-<chainId>-<attestationId>`。
+ */
+export function formatAttestationId(chainId: number, attestationId: bigint): string {
+  return `${ATTESTATION_ID_PREFIX}-${chainId}-${attestationId}`;
+}
+
+export function parseAttestationId(
+  value: string
+): { chainId: number; attestationId: bigint } | null {
+  const match = new RegExp(`^${ATTESTATION_ID_PREFIX}-(\\d+)-(\\d+)$`).exec(value.trim().toUpperCase());
+  if (!match) {
+    return null;
+  }
+  return { chainId: Number(match[1]), attestationId: BigInt(match[2]) };
+}
+
+export async function loadAttestation(
+  contract: ethers.Contract,
+  attestationId: bigint
+): Promise<DriveAttestation> {
+  const a = await contract.getAttestation(attestationId);
+  return {
+    id: attestationId,
+    driver: a.driver,
+    threshold: Number(a.threshold),
+    recordCount: Number(a.recordCount),
+    requestedAt: Number(a.requestedAt),
+    encryptedResult: a.encryptedResult,
+    isRevealed: a.isRevealed,
+    passed: a.passed,
+    revealedAt: Number(a.revealedAt),
+  };
+}
+
+/**
+ * 读取司机的全部证明（最新的在前）。
+ */
+export async function loadDriverAttestations(
+  contract: ethers.Contract,
+  driver: string
+): Promise<DriveAttestation[]> {
+  const ids: bigint[] = [...(await contract.getAttestationIds(driver))];
+  const attestations = await Promise.all(ids.map((id) => loadAttestation(contract, id)));
+  return attestations.reverse();
+}
+
+/**
+ * 申请“最近 K 条记录均值 ≥ 门槛”的证明，返回新证明的ID。
+ */
+export async function requestAttestation(
+  contract: ethers.Contract,
+  threshold: number,
+  recordCount: number
+): Promise<bigint> {
+  const tx = await contract.requestThresholdAttestation(threshold, recordCount);
+  const receipt: ethers.TransactionReceipt = await tx.wait();
+
+  for (const log of receipt.logs) {
+    const parsed = contract.interface.parseLog(log);
+    if (parsed?.name === "AttestationRequested") {
+      return parsed.args.attestationId;
+    }
+  }
+  throw new Error("AttestationRequested event not found");
+}
+
+/**
+ * 公开解密证明结果并连同 KMS 证明提交上链。任何人都可以调用。
+ */
+export async function revealAttestation(
+  instance: FhevmInstance,
+  contract: ethers.Contract,
+  attestationId: bigint
+): Promise<DriveAttestation> {
+  const attestation = await loadAttestation(contract, attestationId);
+  if (attestation.isRevealed) {
+    return attestation;
+  }
+
+  const { abiEncodedClearValues, decryptionProof } = await instance.publicDecrypt([
+    attestation.encryptedResult,
+  ]);
+  const tx = await contract.finalizeAttestation(
+    attestationId,
+    abiEncodedClearValues,
+    decryptionProof
+  );
+  await tx.wait();
+
+  return loadAttestation(contract, attestationId);
+}
+
+/**
+ * 按司机地址核验证明：证明必须存在、属于该司机，且已上链公开结果。
+ */
+export async function verifyAttestation(
+  contract: ethers.Contract,
+  attestationId: bigint,
+  driver: string
+): Promise<AttestationVerification> {
+  let attestation: DriveAttestation;
+  try {
+    attestation = await loadAttestation(contract, attestationId);
+  } catch (e) {
+    if (ethers.isError(e, "CALL_EXCEPTION")) {
+      return { status: "not-found", attestation: null };
+    }
+    throw e;
+  }
+
+  if (attestation.driver.toLowerCase() !== driver.toLowerCase()) {
+    return { status: "wrong-driver", attestation };
+  }
+  if (!attestation.isRevealed) {
+    return { status: "pending", attestation };
+  }
+  return { status: attestation.passed ? "passed" : "failed", attestation };
+}
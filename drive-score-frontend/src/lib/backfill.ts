@@ -0,0 +1,175 @@
+import { ethers } from "ethers";
+import { GenericStringLocalStorage } from "../fhevm/GenericStringStorage";
+import { deriveOverallScore, type SubScores } from "./subScores";
+import { analyzeTrip, type TelemetrySample } from "./telemetry";
+import type { ImportRowError } from "./tripImport";
+
+const SECONDS_PER_DAY = 24 * 60 * 60;
+
+// queued=等待提交, sending=交易已发出等待确认, onChain=已上链, failed=提交失败, ineligible=已不满足回填条件
+export type BackfillStatus = "queued" | "sending" | "onChain" | "failed" | "ineligible";
+
+export type BackfillEntry = {
+  // UTC 自然日（自 1970-01-01 起的天数）
+  day: number;
+  // 上链的记录时间（秒）：当天最后一个样本的时间
+  recordTime: number;
+  distanceKm: number;
+  distanceCategory: number;
+  subScores: SubScores;
+  score: number;
+  status: BackfillStatus;
+  txHash?: string;
+  error?: string;
+};
+
+// 合约的回填条件（与 recordDriveScoreAt 的校验一致）
+export type BackfillWindow = {
+  // 最近一条记录所在的自然日，没有记录时为 null
+  lastRecordDay: number | null;
+  // 尚未结算的行程所在的自然日，没有时为 null
+  pendingTripDay: number | null;
+  today: number;
+  // 最早可回填的记录时间（秒）
+  earliestRecordTime: number;
+};
+
+// 回填队列保存在 localStorage，刷新页面后可以继续提交；不随钱包账户切换清空
+const backfillStorage = new GenericStringLocalStorage("drive-score-backfill");
+
+export const formatUtcDay = (day: number) => new Date(day * SECONDS_PER_DAY * 1000).toISOString().slice(0, 10);
+
+/**
+ * 将多天的遥测样本按 UTC 自然日分组，每天生成一条回填记录（同一天的行程合并评分）。
+ */
+export function buildBackfillEntries(
+  samples: TelemetrySample[],
+  selfReported: Pick<SubScores, "cornering" | "phoneUse">
+): { entries: BackfillEntry[]; errors: ImportRowError[] } {
+  const samplesByDay = new Map<number, TelemetrySample[]>();
+  for (const sample of samples) {
+    const day = Math.floor(sample.timestamp / 1000 / SECONDS_PER_DAY);
+    samplesByDay.set(day, [...(samplesByDay.get(day) ?? []), sample]);
+  }
+
+  const entries: BackfillEntry[] = [];
+  const errors: ImportRowError[] = [];
+  for (const [day, daySamples] of [...samplesByDay.entries()].sort(([a], [b]) => a - b)) {
+    try {
+      const analysis = analyzeTrip(daySamples);
+      const subScores = { ...analysis.subScores, ...selfReported };
+      entries.push({
+        day,
+        recordTime: Math.floor(daySamples[daySamples.length - 1].timestamp / 1000),
+        distanceKm: analysis.distanceKm,
+        distanceCategory: analysis.distanceCategory,
+        subScores,
+        score: deriveOverallScore(subScores),
+        status: "queued",
+      });
+    } catch (error: any) {
+      errors.push({ location: `DAY_${formatUtcDay(day)}`, message: error.message });
+    }
+  }
+  return { entries, errors };
+}
+
+/**
+ * 读取链上的回填条件。
+ */
+export async function loadBackfillWindow(
+  contract: ethers.Contract,
+  provider: ethers.Provider,
+  userAddress: string
+): Promise<BackfillWindow> {
+  const [[, , lastRecordTime], [pendingDay, pendingTripCount], maxBackfillAge, block] = await Promise.all([
+    contract.getUserStatistics(userAddress),
+    contract.getPendingTrips(userAddress),
+    contract.MAX_BACKFILL_AGE(),
+    // 以链上时间为准（本地链的时间可能与浏览器时间不同）
+    provider.getBlock("latest"),
+  ]);
+  const now = block ? block.timestamp : Math.floor(Date.now() / 1000);
+  return {
+    lastRecordDay: Number(lastRecordTime) > 0 ? Math.floor(Number(lastRecordTime) / SECONDS_PER_DAY) : null,
+    pendingTripDay: Number(pendingTripCount) > 0 ? Number(pendingDay) : null,
+    today: Math.floor(now / SECONDS_PER_DAY),
+    earliestRecordTime: now - Number(maxBackfillAge),
+  };
+}
+
+export function isBackfillEligible(entry: BackfillEntry, window: BackfillWindow): boolean {
+  return (
+    (window.lastRecordDay === null || entry.day > window.lastRecordDay) &&
+    (window.pendingTripDay === null || entry.day < window.pendingTripDay) &&
+    entry.day < window.today &&
+    entry.recordTime >= window.earliestRecordTime
+  );
+}
+
+/**
+ * 等待提交的记录如果已不满足回填条件（例如之后的日期已经上链）则标记为 ineligible。
+ */
+export function applyBackfillWindow(entries: BackfillEntry[], window: BackfillWindow): BackfillEntry[] {
+  return entries.map((entry) =>
+    (entry.status === "queued" || entry.status === "failed") && !isBackfillEligible(entry, window)
+      ? { ...entry, status: "ineligible" }
+      : entry
+  );
+}
+
+/**
+ * 把新导入的记录合并进队列：已上链或正在确认的日期保持不变，其余日期以新导入的为准。
+ */
+export function mergeBackfillEntries(existing: BackfillEntry[], imported: BackfillEntry[]): BackfillEntry[] {
+  const locked = existing.filter((entry) => entry.status === "onChain" || entry.status === "sending");
+  const lockedDays = new Set(locked.map((entry) => entry.day));
+  return [...locked, ...imported.filter((entry) => !lockedDays.has(entry.day))].sort((a, b) => a.day - b.day);
+}
+
+/**
+ * 刷新页面后核对已发出的交易：已确认的标记为上链，失败的标记为失败；还没有交易哈希的重新排队。
+ */
+export async function reconcileBackfillEntries(
+  provider: ethers.Provider,
+  entries: BackfillEntry[]
+): Promise<BackfillEntry[]> {
+  return Promise.all(
+    entries.map(async (entry): Promise<BackfillEntry> => {
+      if (entry.status !== "sending") return entry;
+      if (!entry.txHash) return { ...entry, status: "queued" };
+
+      const receipt = await provider.getTransactionReceipt(entry.txHash);
+      if (!receipt) return entry;
+      return receipt.status === 1
+        ? { ...entry, status: "onChain" }
+        : { ...entry, status: "failed", error: "TRANSACTION_REVERTED" };
+    })
+  );
+}
+
+const queueKey = (chainId: number, contractAddress: string, userAddress: string) =>
+  `${chainId}:${contractAddress.toLowerCase()}:${userAddress.toLowerCase()}`;
+
+export async function loadBackfillQueue(
+  chainId: number,
+  contractAddress: string,
+  userAddress: string
+): Promise<BackfillEntry[]> {
+  const stored = await backfillStorage.getItem(queueKey(chainId, contractAddress, userAddress));
+  return stored ? (JSON.parse(stored) as BackfillEntry[]) : [];
+}
+
+export async function saveBackfillQueue(
+  chainId: number,
+  contractAddress: string,
+  userAddress: string,
+  entries: BackfillEntry[]
+): Promise<void> {
+  const key = queueKey(chainId, contractAddress, userAddress);
+  if (entries.length === 0) {
+    await backfillStorage.removeItem(key);
+  } else {
+    await backfillStorage.setItem(key, JSON.stringify(entries));
+  }
+}
@@ -0,0 +1,78 @@
+import { ethers } from "ethers";
+
+export type ChallengeStatus = "pending" | "active" | "finalized" | "cancelled";
+
+// 与合约中 ChallengeStatus 枚举的顺序一致
+const CHALLENGE_STATUSES: ChallengeStatus[] = ["pending", "active", "finalized", "cancelled"];
+
+export type DriveChallenge = {
+  id: bigint;
+  challenger: string;
+  opponent: string;
+  status: ChallengeStatus;
+  createdAt: number;
+  startTime: number;
+  endTime: number;
+  // 结算后才有效，只有双方可以解密
+  encryptedChallengerWon: string;
+};
+
+export async function loadChallenge(
+  contract: ethers.Contract,
+  challengeId: bigint
+): Promise<DriveChallenge> {
+  const c = await contract.getChallenge(challengeId);
+  return {
+    id: challengeId,
+    challenger: c.challenger,
+    opponent: c.opponent,
+    status: CHALLENGE_STATUSES[Number(c.status)],
+    createdAt: Number(c.createdAt),
+    startTime: Number(c.startTime),
+    endTime: Number(c.endTime),
+    encryptedChallengerWon: c.encryptedChallengerWon,
+  };
+}
+
+/**
+ * 读取用户参与的全部挑战（最新的在前）。
+ */
+export async function loadUserChallenges(
+  contract: ethers.Contract,
+  userAddress: string
+): Promise<DriveChallenge[]> {
+  const ids: bigint[] = [...(await contract.getChallengeIds(userAddress))];
+  const challenges = await Promise.all(ids.map((id) => loadChallenge(contract, id)));
+  return challenges.reverse();
+}
+
+/**
+ * 邀请对手，返回新挑战的ID。
+ */
+export async function createChallenge(
+  contract: ethers.Contract,
+  opponent: string
+): Promise<bigint> {
+  const tx = await contract.createChallenge(opponent);
+  const receipt: ethers.TransactionReceipt = await tx.wait();
+
+  for (const log of receipt.logs) {
+    const parsed = contract.interface.parseLog(log);
+    if (parsed?.name === "ChallengeCreated") {
+      return parsed.args.challengeId;
+    }
+  }
+  throw new Error("ChallengeCreated event not found");
+}
+
+/**
+ * 由解密后的“发起方获胜”标志换算为当前用户是否获胜（平局算受邀方获胜）。
+ */
+export function didUserWin(
+  challenge: DriveChallenge,
+  userAddress: string,
+  challengerWon: boolean
+): boolean {
+  const isChallenger = challenge.challenger.toLowerCase() === userAddress.toLowerCase();
+  return isChallenger ? challengerWon : !challengerWon;
+}
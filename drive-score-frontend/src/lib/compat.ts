@@ -0,0 +1,14 @@
+import { ethers } from "ethers";
+
+/**
+ * 判断合约调用失败是否因为已部署的合约早于该函数：
+ * 未知的函数选择器会不带数据回退，或返回无法解码的空数据。
+ */
+export function isMissingFunctionError(e: unknown): boolean {
+  if (ethers.isError(e, "BAD_DATA")) {
+    return true;
+  }
+  return (
+    ethers.isError(e, "CALL_EXCEPTION") && (e.data === null || e.data === "0x")
+  );
+}
@@ -0,0 +1,123 @@
+import { ethers } from "ethers";
+
+/**
+ * 合约（及其外部库）的全部自定义错误。reason 为改用自定义错误之前的 require 文案，
+ * 用于解析旧部署返回的 Error(string)（之后新增的错误没有）；hint 会附加在界面文案之后。
+ */
+const CONTRACT_ERRORS = {
+  OnlyAdmin: { reason: "Only admin" },
+  TestModeNotEnabled: { reason: "Test mode not enabled" },
+  BackfillNotApproved: { reason: "Backfill not approved", hint: "ASK_ADMIN_FOR_APPROVAL" },
+  InvalidBackfillTime: { reason: "Invalid backfill time", hint: "DAY_ALREADY_RECORDED_OR_OUTSIDE_WINDOW" },
+  NoDayToFinalize: { reason: "No day to finalize", hint: "DAY_FINALIZES_AFTER_UTC_MIDNIGHT" },
+  InvalidGrantee: { reason: "Invalid grantee" },
+  AlreadyGranted: { reason: "Already granted" },
+  TooManyGrants: { reason: "Too many grants" },
+  NotGranted: { reason: "Not granted" },
+  InvalidThreshold: { reason: "Invalid threshold", hint: "[0-100]" },
+  InvalidRecordCount: { reason: "Invalid record count", hint: "EXCEEDS_STORED_RECORDS" },
+  UnknownAttestation: { reason: "Unknown attestation" },
+  AlreadyRevealed: { reason: "Already revealed" },
+  InvalidGuardian: { reason: "Invalid guardian" },
+  GuardianAlreadySet: { reason: "Guardian already set" },
+  NotProposed: { reason: "Not proposed" },
+  NoGuardian: { reason: "No guardian" },
+  NotAuthorized: { reason: "Not authorized" },
+  NoRecords: { reason: "No records" },
+  UnknownChallenge: { reason: "Unknown challenge" },
+  UnknownFleet: { reason: "Unknown fleet" },
+  InsufficientRecordsForTrend: { reason: "Insufficient records for trend", hint: "[MIN_2]" },
+  IndexOutOfBounds: { reason: "Index out of bounds" },
+  InvalidOpponent: { reason: "Invalid opponent" },
+  NotInvited: { reason: "Not invited" },
+  TooManyActiveChallenges: { reason: "Too many active challenges" },
+  ChallengeNotPending: { reason: "Challenge not pending" },
+  ChallengeNotActive: { reason: "Challenge not active" },
+  ChallengeNotEnded: { reason: "Challenge not ended" },
+  InvalidFleetName: { reason: "Invalid fleet name", hint: "[1-64_BYTES]" },
+  AlreadyInFleet: { reason: "Already in a fleet" },
+  NotInFleet: { reason: "Not in a fleet" },
+  PublishTooEarly: { hint: "ONE_SNAPSHOT_PER_INTERVAL" },
+  InsufficientFleetActivity: { hint: "MORE_MEMBERS_OR_SUBMISSIONS_NEEDED" },
+  InvalidGoalPeriod: { reason: "Invalid goal period" },
+} satisfies Record<string, { reason?: string; hint?: string }>;
+
+// 只会由旧部署返回的 require 文案（对应的检查已从合约中移除）
+const LEGACY_ERRORS = {
+  InvalidDistanceCategory: { reason: "Invalid distance category", hint: "[0-3]" },
+} satisfies Record<string, { reason?: string; hint?: string }>;
+
+export type ContractErrorCode = keyof typeof CONTRACT_ERRORS | keyof typeof LEGACY_ERRORS;
+
+export type DecodedContractError = {
+  // 无法识别为合约错误时为 null（网络错误、余额不足等）
+  code: ContractErrorCode | null;
+  // 界面显示的文案
+  text: string;
+};
+
+const ERROR_TABLE: Record<ContractErrorCode, { reason?: string; hint?: string }> = {
+  ...CONTRACT_ERRORS,
+  ...LEGACY_ERRORS,
+};
+
+// 自定义错误都没有参数，按名称生成签名即可得到选择器
+const errorInterface = new ethers.Interface(Object.keys(CONTRACT_ERRORS).map((name) => `error ${name}()`));
+
+const codeByReason = new Map(
+  (Object.keys(ERROR_TABLE) as ContractErrorCode[])
+    .filter((code) => ERROR_TABLE[code].reason !== undefined)
+    .map((code) => [ERROR_TABLE[code].reason, code])
+);
+
+// OnlyAdmin → ONLY_ADMIN
+const toUpperSnake = (name: string) => name.replace(/([a-z0-9])([A-Z])/g, "$1_$2").toUpperCase();
+
+const errorText = (code: ContractErrorCode) => {
+  const { hint } = ERROR_TABLE[code];
+  return hint ? `${toUpperSnake(code)} · ${hint}` : toUpperSnake(code);
+};
+
+/**
+ * 在 ethers 错误及钱包包装的内层错误中查找 revert 数据。
+ */
+function findRevertData(error: any): string | null {
+  for (let current = error, depth = 0; current && depth < 5; depth++) {
+    const data = typeof current.data === "string" ? current.data : current.data?.data;
+    if (typeof data === "string" && ethers.isHexString(data) && data.length >= 10) {
+      return data;
+    }
+    current = current.info?.error ?? current.error ?? current.cause;
+  }
+  return null;
+}
+
+/**
+ * 将合约调用失败解码为类型化的错误码和界面文案。
+ * 同时支持自定义错误（包括外部库抛出的）和旧部署的 require 文案。
+ */
+export function decodeContractError(error: unknown): DecodedContractError {
+  if (ethers.isError(error, "ACTION_REJECTED")) {
+    return { code: null, text: "TRANSACTION_REJECTED_BY_USER" };
+  }
+
+  const data = findRevertData(error);
+  const parsed = data ? errorInterface.parseError(data) : null;
+  if (parsed) {
+    // 内置的 Error(string) 由 parseError 解析为 name === "Error"，Panic 不属于合约错误
+    const code =
+      parsed.name === "Error"
+        ? codeByReason.get(String(parsed.args[0]))
+        : parsed.name in CONTRACT_ERRORS
+          ? (parsed.name as ContractErrorCode)
+          : undefined;
+    if (code) return { code, text: errorText(code) };
+  }
+
+  const reason = ethers.isError(error, "CALL_EXCEPTION") ? error.reason : null;
+  const code = reason ? codeByReason.get(reason) : undefined;
+  if (code) return { code, text: errorText(code) };
+
+  const e = error as { shortMessage?: string; message?: string } | null;
+  return { code: null, text: e?.shortMessage || e?.message || "UNKNOWN_ERROR" };
+}
@@ -0,0 +1,104 @@
+import { ethers } from "ethers";
+import { isMissingFunctionError } from "./compat";
+
+export type DriveRecordEntry = {
+  recordTime: number;
+  // 旧部署以明文存储里程等级；新部署为 null，需解密 encDistanceCategory
+  distanceCategory: number | null;
+  encDistanceCategory: string | null;
+  encScore: string;
+  // 按 超速、急刹车、急转弯、使用手机 排列的加密子评分；旧部署没有子评分时为 null
+  encSubScores: string[] | null;
+};
+
+/**
+ * 旧部署在同一返回槽位给出明文 uint8 里程等级，新部署给出 euint8 句柄。
+ * 句柄是哈希值，不会落在 0-255 之内，据此区分两者。
+ */
+function parseDistanceCategory(
+  word: string
+): Pick<DriveRecordEntry, "distanceCategory" | "encDistanceCategory"> {
+  const value = BigInt(word);
+  if (value <= 255n) {
+    return { distanceCategory: Number(value), encDistanceCategory: null };
+  }
+  return { distanceCategory: null, encDistanceCategory: word };
+}
+
+async function loadByIndex(
+  contract: ethers.Contract,
+  userAddress: string
+): Promise<DriveRecordEntry[]> {
+  const recordCount = Number(await contract.getRecordCount(userAddress));
+
+  const records: DriveRecordEntry[] = [];
+  for (let i = 0; i < recordCount; i++) {
+    const [recordTime, distanceCategory, encScore] =
+      await contract.getRecordByIndex(userAddress, i);
+    // 旧部署会把被裁剪的记录清零，这里跳过这些空记录
+    if (Number(recordTime) === 0) continue;
+    records.push({
+      recordTime: Number(recordTime),
+      ...parseDistanceCategory(distanceCategory),
+      encScore,
+      encSubScores: null,
+    });
+  }
+
+  return records.reverse();
+}
+
+/**
+ * 读取全部记录的加密子评分（与 `getAllRecords` 顺序一致）。
+ * 旧部署没有子评分时返回 null；未写入子评分的记录为 null。
+ */
+async function loadRecordSubScores(
+  contract: ethers.Contract,
+  userAddress: string
+): Promise<(string[] | null)[] | null> {
+  let result: string[][];
+  try {
+    result = await contract.getAllRecordSubScores(userAddress);
+  } catch (e) {
+    if (!isMissingFunctionError(e)) {
+      throw e;
+    }
+    return null;
+  }
+  return result.map((handles) =>
+    handles.every((handle) => handle === ethers.ZeroHash) ? null : [...handles]
+  );
+}
+
+/**
+ * 一次性读取用户的全部有效记录（按时间倒序，最新的在前）。
+ * 合约不支持 `getAllRecords` 时退回到逐条调用 `getRecordByIndex`。
+ */
+export async function loadDriveRecords(
+  contract: ethers.Contract,
+  userAddress: string
+): Promise<DriveRecordEntry[]> {
+  let result: ethers.Result;
+  try {
+    result = await contract.getAllRecords(userAddress);
+  } catch (e) {
+    if (!isMissingFunctionError(e)) {
+      throw e;
+    }
+    console.warn("[loadDriveRecords] getAllRecords unavailable, falling back to getRecordByIndex");
+    return loadByIndex(contract, userAddress);
+  }
+
+  const [recordTimes, distanceCategories, encScores] = result;
+  const encSubScores = await loadRecordSubScores(contract, userAddress);
+  const records: DriveRecordEntry[] = [];
+  for (let i = 0; i < recordTimes.length; i++) {
+    records.push({
+      recordTime: Number(recordTimes[i]),
+      ...parseDistanceCategory(distanceCategories[i]),
+      encScore: encScores[i],
+      encSubScores: encSubScores?.[i] ?? null,
+    });
+  }
+  return records;
+}
@@ -0,0 +1,42 @@
+export type SubScoreKey = "speeding" | "braking" | "cornering" | "phoneUse";
+
+export type SubScoreDimension = {
+  key: SubScoreKey;
+  label: string;
+  icon: string;
+  // 综合评分中的权重（百分比）
+  weight: number;
+  // 图表线条颜色
+  stroke: string;
+};
+
+// 顺序与合约 recordDriveScore 的子评分数组一致，权重与 subScoreWeights() 一致
+export const SUB_SCORE_DIMENSIONS: SubScoreDimension[] = [
+  { key: "speeding", label: "SPEEDING", icon: "⚡", weight: 35, stroke: "#f43f5e" },
+  { key: "braking", label: "BRAKING", icon: "◼", weight: 25, stroke: "#f59e0b" },
+  { key: "cornering", label: "CORNERING", icon: "↻", weight: 20, stroke: "#06b6d4" },
+  { key: "phoneUse", label: "PHONE_USE", icon: "☎", weight: 20, stroke: "#a855f7" },
+];
+
+export type SubScores = Record<SubScoreKey, number>;
+
+/**
+ * 按数组顺序（与合约一致）组装子评分。
+ */
+export function toSubScores(values: number[]): SubScores {
+  return Object.fromEntries(
+    SUB_SCORE_DIMENSIONS.map((dimension, i) => [dimension.key, values[i]])
+  ) as SubScores;
+}
+
+/**
+ * 与合约相同的综合评分推导：Σ 子评分 × 权重 / 100，向下取整。
+ * 仅用于提交前的本地预览，链上结果以合约计算为准。
+ */
+export function deriveOverallScore(subScores: SubScores): number {
+  const weightedSum = SUB_SCORE_DIMENSIONS.reduce(
+    (sum, dimension) => sum + Math.min(subScores[dimension.key], 100) * dimension.weight,
+    0
+  );
+  return Math.floor(weightedSum / 100);
+}
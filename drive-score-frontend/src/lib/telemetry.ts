@@ -0,0 +1,179 @@
+import type { SubScoreKey, SubScores } from "./subScores";
+
+export type TelemetrySample = {
+  // 毫秒时间戳
+  timestamp: number;
+  // 车速（km/h）
+  speedKmh: number;
+  // 纵向加速度（m/s²，减速为负）；缺省时由相邻样本的车速差推算
+  accelerationMs2?: number;
+  // 路段限速（km/h）；缺省时使用 DEFAULT_SPEED_LIMIT_KMH
+  speedLimitKmh?: number;
+  // GPS 坐标（度）；相邻样本都有坐标时按坐标计算里程，否则按车速积分
+  latitude?: number;
+  longitude?: number;
+};
+
+export type TelemetryEvent = "speeding" | "harshBraking" | "harshAcceleration";
+
+export type TelemetryDeduction = {
+  event: TelemetryEvent;
+  label: string;
+  // 扣分计入的子评分维度
+  subScore: SubScoreKey;
+  count: number;
+  // 每 EVENT_DISTANCE_BASIS_KM 公里一次事件扣的分数
+  pointsPerEvent: number;
+  // 实际扣分（已按里程折算）
+  points: number;
+};
+
+export type TripAnalysis = {
+  sampleCount: number;
+  durationSeconds: number;
+  distanceKm: number;
+  distanceCategory: number;
+  maxSpeedKmh: number;
+  deductions: TelemetryDeduction[];
+  // 由遥测数据推导的子评分；急转弯和使用手机无法从车速/加速度得出，仍由用户填写
+  subScores: Pick<SubScores, "speeding" | "braking">;
+};
+
+// 低于该纵向加速度（m/s²）视为急刹车
+export const HARSH_BRAKING_MS2 = -3.5;
+// 高于该纵向加速度（m/s²）视为急加速
+export const HARSH_ACCELERATION_MS2 = 3.0;
+// 超过限速该值（km/h）以上才算超速，容忍测速误差
+export const SPEEDING_TOLERANCE_KMH = 5;
+// 样本没有限速信息时使用的限速（km/h）
+export const DEFAULT_SPEED_LIMIT_KMH = 120;
+// 相邻样本间隔超过该值（毫秒）视为信号中断，不累计里程也不推算加速度
+export const MAX_SAMPLE_GAP_MS = 60_000;
+// 事件扣分按每 10 公里折算，短于 10 公里的行程按 10 公里计，避免短途一次事件扣光
+export const EVENT_DISTANCE_BASIS_KM = 10;
+
+const EARTH_RADIUS_KM = 6371;
+
+const EVENT_RULES: { event: TelemetryEvent; label: string; subScore: SubScoreKey; pointsPerEvent: number }[] = [
+  { event: "speeding", label: "SPEEDING", subScore: "speeding", pointsPerEvent: 10 },
+  { event: "harshBraking", label: "HARSH_BRAKING", subScore: "braking", pointsPerEvent: 15 },
+  { event: "harshAcceleration", label: "HARSH_ACCELERATION", subScore: "braking", pointsPerEvent: 10 },
+];
+
+/**
+ * 由行程里程推导里程等级，与 Submit 页面的等级一致：1=短途(<20km)，2=中途(20-50km)，3=长途(≥50km)。
+ */
+export function distanceCategoryForKm(distanceKm: number): number {
+  if (!(distanceKm > 0)) return 0;
+  if (distanceKm < 20) return 1;
+  if (distanceKm < 50) return 2;
+  return 3;
+}
+
+/**
+ * 两个 GPS 坐标之间的大圆距离（km，haversine 公式）。
+ */
+export function haversineKm(
+  from: { latitude: number; longitude: number },
+  to: { latitude: number; longitude: number }
+): number {
+  const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+  const dLat = toRadians(to.latitude - from.latitude);
+  const dLon = toRadians(to.longitude - from.longitude);
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(from.latitude)) * Math.cos(toRadians(to.latitude)) * Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.sqrt(a));
+}
+
+/**
+ * 样本是否带有完整的 GPS 坐标。
+ */
+export function hasPosition(
+  sample: Pick<TelemetrySample, "latitude" | "longitude">
+): sample is { latitude: number; longitude: number } {
+  return sample.latitude !== undefined && sample.longitude !== undefined;
+}
+
+/**
+ * 校验样本并按时间排序，至少需要两个样本才能计算里程。
+ */
+export function normalizeSamples(samples: TelemetrySample[]): TelemetrySample[] {
+  samples.forEach((sample, i) => {
+    const optional = [sample.accelerationMs2, sample.speedLimitKmh, sample.latitude, sample.longitude].filter((v) => v !== undefined);
+    if (
+      !Number.isFinite(sample.timestamp) ||
+      !Number.isFinite(sample.speedKmh) ||
+      sample.speedKmh < 0 ||
+      !optional.every((v) => Number.isFinite(v))
+    ) {
+      throw new Error(`INVALID_TELEMETRY: SAMPLE_${i}`);
+    }
+  });
+  if (samples.length < 2) {
+    throw new Error("INVALID_TELEMETRY: NEED_AT_LEAST_2_SAMPLES");
+  }
+  return [...samples].sort((a, b) => a.timestamp - b.timestamp);
+}
+
+/**
+ * 分析一次行程的遥测数据：累计里程，统计超速、急刹车、急加速事件并换算为子评分。
+ * 连续超过阈值的样本只算一次事件；每个子评分从 100 起按事件扣分，最低为 0。
+ */
+export function analyzeTrip(samples: TelemetrySample[]): TripAnalysis {
+  const sorted = normalizeSamples(samples);
+  const counts: Record<TelemetryEvent, number> = { speeding: 0, harshBraking: 0, harshAcceleration: 0 };
+  const active: Record<TelemetryEvent, boolean> = { speeding: false, harshBraking: false, harshAcceleration: false };
+  let distanceKm = 0;
+  let maxSpeedKmh = 0;
+
+  sorted.forEach((sample, i) => {
+    const previous = i > 0 ? sorted[i - 1] : null;
+    const gapMs = previous ? sample.timestamp - previous.timestamp : 0;
+    const connected = gapMs > 0 && gapMs <= MAX_SAMPLE_GAP_MS;
+
+    // 有坐标时按坐标累计里程（信号中断期间车辆仍在行驶），否则用梯形法对车速积分
+    if (previous && hasPosition(previous) && hasPosition(sample)) {
+      distanceKm += haversineKm(previous, sample);
+    } else if (previous && connected) {
+      distanceKm += ((previous.speedKmh + sample.speedKmh) / 2) * (gapMs / 3_600_000);
+    }
+    maxSpeedKmh = Math.max(maxSpeedKmh, sample.speedKmh);
+
+    const acceleration =
+      sample.accelerationMs2 ??
+      (previous && connected ? (sample.speedKmh - previous.speedKmh) / 3.6 / (gapMs / 1000) : 0);
+    const limit = sample.speedLimitKmh ?? DEFAULT_SPEED_LIMIT_KMH;
+    const triggered: Record<TelemetryEvent, boolean> = {
+      speeding: sample.speedKmh > limit + SPEEDING_TOLERANCE_KMH,
+      harshBraking: acceleration <= HARSH_BRAKING_MS2,
+      harshAcceleration: acceleration >= HARSH_ACCELERATION_MS2,
+    };
+    for (const event of Object.keys(counts) as TelemetryEvent[]) {
+      if (triggered[event] && !active[event]) counts[event]++;
+      active[event] = triggered[event];
+    }
+  });
+
+  const eventDistanceKm = Math.max(distanceKm, EVENT_DISTANCE_BASIS_KM);
+  const deductions = EVENT_RULES.map((rule) => ({
+    ...rule,
+    count: counts[rule.event],
+    points: (counts[rule.event] * rule.pointsPerEvent * EVENT_DISTANCE_BASIS_KM) / eventDistanceKm,
+  }));
+  const subScore = (key: SubScoreKey) =>
+    Math.max(
+      0,
+      Math.round(100 - deductions.filter((d) => d.subScore === key).reduce((sum, d) => sum + d.points, 0))
+    );
+
+  return {
+    sampleCount: sorted.length,
+    durationSeconds: (sorted[sorted.length - 1].timestamp - sorted[0].timestamp) / 1000,
+    distanceKm,
+    distanceCategory: distanceCategoryForKm(distanceKm),
+    maxSpeedKmh,
+    deductions,
+    subScores: { speeding: subScore("speeding"), braking: subScore("braking") },
+  };
+}
@@ -0,0 +1,314 @@
+import { analyzeTrip, hasPosition, haversineKm, type TelemetrySample, type TripAnalysis } from "./telemetry";
+
+export type TripFileFormat = "gpx" | "csv" | "json";
+
+export type ImportRowError = {
+  // 出错位置，例如 LINE_5（CSV）、TRKPT_12（GPX）、SAMPLE_3（JSON）或 FILE
+  location: string;
+  message: string;
+};
+
+export type TripImport = {
+  fileName: string;
+  format: TripFileFormat | null;
+  // 有任何行出错时为 null，不会用部分数据评分
+  analysis: TripAnalysis | null;
+  errors: ImportRowError[];
+};
+
+// 导入时车速可以缺省，由相邻坐标推算
+type RawPoint = Omit<TelemetrySample, "speedKmh"> & { speedKmh?: number };
+
+type FieldKey = keyof TelemetrySample;
+
+type TimestampUnit = "s" | "ms";
+
+// 相对时间（从 0 开始计时）的采样间隔中位数不小于该值时视为毫秒：秒级采样间隔通常不超过 1 分钟
+const MIN_MS_SAMPLE_INTERVAL = 100;
+
+const FIELD_LABELS: Record<FieldKey, string> = {
+  timestamp: "TIMESTAMP",
+  speedKmh: "SPEED_KMH",
+  accelerationMs2: "ACCELERATION_MS2",
+  speedLimitKmh: "SPEED_LIMIT_KMH",
+  latitude: "LATITUDE",
+  longitude: "LONGITUDE",
+};
+
+const FIELD_RANGES: Record<Exclude<FieldKey, "timestamp">, (value: number) => boolean> = {
+  speedKmh: (v) => v >= 0,
+  accelerationMs2: () => true,
+  speedLimitKmh: (v) => v > 0,
+  latitude: (v) => v >= -90 && v <= 90,
+  longitude: (v) => v >= -180 && v <= 180,
+};
+
+// CSV 表头别名（不区分大小写）
+const CSV_COLUMNS: Record<FieldKey, string[]> = {
+  timestamp: ["timestamp", "time", "datetime", "timestamp_ms", "time_ms", "timestamp_s", "time_s"],
+  speedKmh: ["speedkmh", "speed_kmh", "speed"],
+  accelerationMs2: ["accelerationms2", "acceleration_ms2", "acceleration", "accel"],
+  speedLimitKmh: ["speedlimitkmh", "speed_limit_kmh", "speed_limit", "speedlimit"],
+  latitude: ["latitude", "lat"],
+  longitude: ["longitude", "lon", "lng"],
+};
+
+// 表头带单位后缀的时间列，单位以表头为准
+const CSV_TIMESTAMP_UNITS: Record<string, TimestampUnit> = {
+  timestamp_ms: "ms",
+  time_ms: "ms",
+  timestamp_s: "s",
+  time_s: "s",
+};
+
+const toNumber = (value: unknown) =>
+  typeof value === "number" ? value : typeof value === "string" && value.trim() !== "" ? Number(value) : NaN;
+
+/**
+ * 由整列数字时间戳推断单位：出现不小于 1e12 的值为毫秒时间戳，全部不小于 1e9 为秒级时间戳；
+ * 其余为相对时间，按相邻样本间隔的中位数判断。没有数字时间戳（ISO 时间）时返回秒，不影响解析。
+ */
+function detectTimestampUnit(values: unknown[]): TimestampUnit {
+  const numbers = values.map(toNumber).filter(Number.isFinite).sort((a, b) => a - b);
+  if (numbers.length === 0) return "s";
+  if (numbers[numbers.length - 1] >= 1e12) return "ms";
+  if (numbers[0] >= 1e9) return "s";
+
+  const intervals = numbers
+    .slice(1)
+    .map((value, i) => value - numbers[i])
+    .filter((interval) => interval > 0)
+    .sort((a, b) => a - b);
+  if (intervals.length === 0) return "s";
+  return intervals[Math.floor(intervals.length / 2)] >= MIN_MS_SAMPLE_INTERVAL ? "ms" : "s";
+}
+
+/**
+ * 解析时间戳（毫秒）：数字按给定单位换算，字符串按数字或 ISO 时间解析。无法解析时返回 NaN。
+ */
+function parseTimestamp(value: unknown, unit: TimestampUnit): number {
+  const numeric = toNumber(value);
+  if (Number.isFinite(numeric)) {
+    return unit === "s" ? numeric * 1000 : numeric;
+  }
+  return typeof value === "string" ? Date.parse(value) : NaN;
+}
+
+/**
+ * 校验一行数据，出错时记录该行的全部问题并返回 null。
+ */
+function readPoint(
+  values: Partial<Record<FieldKey, unknown>>,
+  location: string,
+  errors: ImportRowError[],
+  timestampUnit: TimestampUnit
+): RawPoint | null {
+  const problems: string[] = [];
+  const timestamp = parseTimestamp(values.timestamp, timestampUnit);
+  if (Number.isNaN(timestamp)) {
+    problems.push(`INVALID_TIMESTAMP '${values.timestamp ?? ""}'`);
+  }
+
+  const point: RawPoint = { timestamp };
+  for (const key of Object.keys(FIELD_RANGES) as (keyof typeof FIELD_RANGES)[]) {
+    const raw = values[key];
+    if (raw === undefined || raw === null || raw === "") continue;
+    const value = typeof raw === "number" ? raw : Number(raw);
+    if (!Number.isFinite(value) || !FIELD_RANGES[key](value)) {
+      problems.push(`INVALID_${FIELD_LABELS[key]} '${raw}'`);
+    } else {
+      point[key] = value;
+    }
+  }
+  if (point.speedKmh === undefined && !hasPosition(point) && problems.length === 0) {
+    problems.push("MISSING_SPEED_OR_POSITION");
+  }
+
+  if (problems.length > 0) {
+    errors.push({ location, message: problems.join(" · ") });
+    return null;
+  }
+  return point;
+}
+
+/**
+ * 按时间排序，并为缺少车速的点用相邻坐标推算车速（优先使用前一段）。
+ */
+function fillMissingSpeeds(points: RawPoint[]): TelemetrySample[] {
+  const sorted = [...points].sort((a, b) => a.timestamp - b.timestamp);
+  const segmentSpeed = (from: RawPoint | undefined, to: RawPoint | undefined) => {
+    if (!from || !to || !hasPosition(from) || !hasPosition(to) || to.timestamp <= from.timestamp) return undefined;
+    return haversineKm(from, to) / ((to.timestamp - from.timestamp) / 3_600_000);
+  };
+  return sorted.map((point, i) => ({
+    ...point,
+    speedKmh: point.speedKmh ?? segmentSpeed(sorted[i - 1], point) ?? segmentSpeed(point, sorted[i + 1]) ?? 0,
+  }));
+}
+
+/**
+ * 解析 CSV 遥测：首行为表头，需要时间列，以及车速列或经纬度列；分隔符支持逗号、分号和制表符。
+ * 时间列名带 _ms / _s 后缀时按后缀确定单位，否则由整列数值推断。
+ */
+function parseCsvTrip(text: string): { points: RawPoint[]; errors: ImportRowError[] } {
+  const errors: ImportRowError[] = [];
+  const lines = text.split(/\r?\n/);
+  const headerIndex = lines.findIndex((line) => line.trim() !== "");
+  if (headerIndex < 0) {
+    return { points: [], errors: [{ location: "FILE", message: "EMPTY_FILE" }] };
+  }
+
+  const header = lines[headerIndex];
+  const delimiter = [",", ";", "\t"].find((d) => header.includes(d)) ?? ",";
+  const splitRow = (line: string) => line.split(delimiter).map((cell) => cell.trim().replace(/^"(.*)"$/, "$1"));
+  const columns = splitRow(header).map((name) => name.toLowerCase());
+  const columnIndex = Object.fromEntries(
+    (Object.keys(CSV_COLUMNS) as FieldKey[]).map((key) => [key, columns.findIndex((name) => CSV_COLUMNS[key].includes(name))])
+  ) as Record<FieldKey, number>;
+
+  const headerLocation = `LINE_${headerIndex + 1}`;
+  if (columnIndex.timestamp < 0) {
+    errors.push({ location: headerLocation, message: `MISSING_COLUMN [${CSV_COLUMNS.timestamp.join("|")}]` });
+  }
+  if (columnIndex.speedKmh < 0 && (columnIndex.latitude < 0 || columnIndex.longitude < 0)) {
+    errors.push({ location: headerLocation, message: "MISSING_COLUMN [speed_kmh | latitude+longitude]" });
+  }
+  if (errors.length > 0) {
+    return { points: [], errors };
+  }
+
+  const rows: { location: string; cells: string[] }[] = [];
+  lines.slice(headerIndex + 1).forEach((line, i) => {
+    if (line.trim() === "") return;
+    const location = `LINE_${headerIndex + i + 2}`;
+    const cells = splitRow(line);
+    if (cells.length !== columns.length) {
+      errors.push({ location, message: `EXPECTED_${columns.length}_FIELDS_GOT_${cells.length}` });
+      return;
+    }
+    rows.push({ location, cells });
+  });
+
+  const timestampUnit =
+    CSV_TIMESTAMP_UNITS[columns[columnIndex.timestamp]] ??
+    detectTimestampUnit(rows.map(({ cells }) => cells[columnIndex.timestamp]));
+  const points: RawPoint[] = [];
+  for (const { location, cells } of rows) {
+    const values = Object.fromEntries(
+      (Object.keys(columnIndex) as FieldKey[])
+        .filter((key) => columnIndex[key] >= 0)
+        .map((key) => [key, cells[columnIndex[key]]])
+    );
+    const point = readPoint(values, location, errors, timestampUnit);
+    if (point) points.push(point);
+  }
+  return { points, errors };
+}
+
+/**
+ * 解析 GPX 轨迹：读取每个 trkpt 的经纬度和时间，扩展字段中的 speed（m/s）可选。
+ */
+function parseGpxTrip(text: string): { points: RawPoint[]; errors: ImportRowError[] } {
+  const doc = new DOMParser().parseFromString(text, "application/xml");
+  if (doc.getElementsByTagName("parsererror").length > 0) {
+    return { points: [], errors: [{ location: "FILE", message: "MALFORMED_XML" }] };
+  }
+
+  const errors: ImportRowError[] = [];
+  const points: RawPoint[] = [];
+  // 使用通配命名空间，兼容 GPX 1.0/1.1 以及 gpxtpx:speed 等扩展
+  Array.from(doc.getElementsByTagNameNS("*", "trkpt")).forEach((trkpt, i) => {
+    const location = `TRKPT_${i + 1}`;
+    const time = trkpt.getElementsByTagNameNS("*", "time")[0]?.textContent?.trim();
+    if (!time) {
+      errors.push({ location, message: "MISSING_TIME" });
+      return;
+    }
+    const speedText = trkpt.getElementsByTagNameNS("*", "speed")[0]?.textContent?.trim();
+    const speedMs = speedText ? Number(speedText) : undefined;
+    const point = readPoint(
+      {
+        timestamp: time,
+        latitude: trkpt.getAttribute("lat") ?? "",
+        longitude: trkpt.getAttribute("lon") ?? "",
+        speedKmh: speedMs !== undefined && Number.isFinite(speedMs) ? speedMs * 3.6 : speedText,
+      },
+      location,
+      errors,
+      // GPX 的时间是 ISO 字符串，单位不起作用
+      "s"
+    );
+    if (point && !hasPosition(point)) {
+      errors.push({ location, message: "MISSING_LAT_LON" });
+      return;
+    }
+    if (point) points.push(point);
+  });
+
+  if (points.length === 0 && errors.length === 0) {
+    errors.push({ location: "FILE", message: "NO_TRACK_POINTS" });
+  }
+  return { points, errors };
+}
+
+/**
+ * 解析 JSON 遥测：样本数组，或带 samples 字段的对象。数字时间戳的单位由全部样本推断。
+ */
+function parseJsonTrip(text: string): { points: RawPoint[]; errors: ImportRowError[] } {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    return { points: [], errors: [{ location: "FILE", message: "MALFORMED_JSON" }] };
+  }
+  const rows = Array.isArray(data) ? data : (data as { samples?: unknown })?.samples;
+  if (!Array.isArray(rows)) {
+    return { points: [], errors: [{ location: "FILE", message: "EXPECTED_SAMPLE_ARRAY" }] };
+  }
+
+  const errors: ImportRowError[] = [];
+  const points: RawPoint[] = [];
+  const samples = rows.map((row) => (typeof row === "object" && row !== null ? row : {}));
+  const timestampUnit = detectTimestampUnit(samples.map((sample) => sample.timestamp));
+  samples.forEach((sample, i) => {
+    const point = readPoint(sample, `SAMPLE_${i + 1}`, errors, timestampUnit);
+    if (point) points.push(point);
+  });
+  return { points, errors };
+}
+
+/**
+ * 在浏览器本地读取行程文件并解析为按时间排序的样本，原始文件不会上传到任何地方。
+ * 有任何行出错时 samples 为空。
+ */
+export async function readTripSamples(
+  file: File
+): Promise<{ format: TripFileFormat | null; samples: TelemetrySample[]; errors: ImportRowError[] }> {
+  const extension = file.name.split(".").pop()?.toLowerCase();
+  const format: TripFileFormat | null =
+    extension === "gpx" || extension === "csv" || extension === "json" ? extension : null;
+  if (!format) {
+    return { format, samples: [], errors: [{ location: "FILE", message: "UNSUPPORTED_FORMAT [GPX|CSV|JSON]" }] };
+  }
+
+  const text = await file.text();
+  const parse = { gpx: parseGpxTrip, csv: parseCsvTrip, json: parseJsonTrip }[format];
+  const { points, errors } = parse(text);
+  return { format, samples: errors.length > 0 ? [] : fillMissingSpeeds(points), errors };
+}
+
+/**
+ * 在浏览器本地读取并分析单次行程文件。
+ */
+export async function importTripFile(file: File): Promise<TripImport> {
+  const { format, samples, errors } = await readTripSamples(file);
+  if (errors.length > 0) {
+    return { fileName: file.name, format, analysis: null, errors };
+  }
+
+  try {
+    return { fileName: file.name, format, analysis: analyzeTrip(samples), errors: [] };
+  } catch (error: any) {
+    return { fileName: file.name, format, analysis: null, errors: [{ location: "FILE", message: error.message }] };
+  }
+}
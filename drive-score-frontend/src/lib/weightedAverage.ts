@@ -0,0 +1,41 @@
+import { ethers } from "ethers";
+import { isMissingFunctionError } from "./compat";
+
+export type AverageMode = "simple" | "weighted";
+
+export type EncryptedWeightedAggregates = {
+  weightedTotal: string;
+  totalWeight: string;
+};
+
+/**
+ * 读取按里程加权的加密总分和权重总和。旧部署没有该接口，或还没有任何行程时返回 null。
+ * 注意：加权聚合在每次提交行程时累加（包括当天尚未结算的行程），
+ * 与按已结算日记录计算的简单均值统计口径不同，界面需分别标注。
+ */
+export async function loadWeightedAggregates(
+  contract: ethers.Contract,
+  userAddress: string
+): Promise<EncryptedWeightedAggregates | null> {
+  try {
+    const [weightedTotal, totalWeight] = await contract.getEncryptedWeightedAggregates(userAddress);
+    return { weightedTotal, totalWeight };
+  } catch (error) {
+    // 还没有行程时合约以 NoRecords 自定义错误回退（旧部署为 "No records" 文案）
+    if (isMissingFunctionError(error) || ethers.isError(error, "CALL_EXCEPTION")) {
+      return null;
+    }
+    throw error;
+  }
+}
+
+/**
+ * 由解密后的加权总分和权重总和计算加权均值（除数是密文，只能在解密后相除）。
+ */
+export function computeWeightedAverage(weightedTotal: unknown, totalWeight: unknown): number | null {
+  if (weightedTotal === undefined || totalWeight === undefined) {
+    return null;
+  }
+  const weight = Number(totalWeight);
+  return weight > 0 ? Number(weightedTotal) / weight : null;
+}
@@ -3,7 +3,13 @@ import { ethers } from 'ethers'
 import { LineChart, Line, BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts'
 import { DriveScoreLoggerABI, DriveScoreLoggerAddresses } from '../abi'
 import { FhevmDecryptionSignature } from '../fhevm/FhevmDecryptionSignature'
-import { GenericStringInMemoryStorage } from '../fhevm/GenericStringStorage'
+import { useFhevmStorage } from '../fhevm/FhevmStorageContext'
+import { FhevmBatchDecryptProgress, handleKey, userDecryptBatch } from '../fhevm/FhevmBatchDecryptor'
+import { FhevmDecryptedValueCache } from '../fhevm/FhevmDecryptedValueCache'
+import { loadDriveRecords } from '../lib/driveRecords'
+import { isMissingFunctionError } from '../lib/compat'
+import { computeWeightedAverage, loadWeightedAggregates, type AverageMode } from '../lib/weightedAverage'
+import { SUB_SCORE_DIMENSIONS, toSubScores, type SubScores } from '../lib/subScores'
 
 interface AnalyticsProps {
   wallet: {
@@ -18,24 +24,40 @@ interface AnalyticsProps {
     status: string
     error: Error | undefined
   }
+  // 监护人查看被监护司机时传入；默认查看当前钱包地址
+  driverAddress?: string
 }
 
-interface ChartDataPoint {
+type ChartDataPoint = {
   date: string
   score: number
   distanceCategory: number
+} & Partial<SubScores>
+
+interface CategoryStat {
+  count: number
+  average: number | null
 }
 
-export default function Analytics({ wallet, fhevm }: AnalyticsProps) {
+const DISTANCE_CATEGORY_NAMES = ['UNKNOWN', 'SHORT', 'MEDIUM', 'LONG']
+
+export default function Analytics({ wallet, fhevm, driverAddress }: AnalyticsProps) {
   const [chartData, setChartData] = useState<ChartDataPoint[]>([])
   const [stats, setStats] = useState({
     average: null as number | null,
+    weightedAverage: null as number | null,
     highest: null as number | null,
     lowest: null as number | null,
     trend: null as number | null,
   })
+  const [categoryStats, setCategoryStats] = useState<CategoryStat[]>([])
+  // 各子评分维度的全部记录均值（由链上加密总和解密后计算）
+  const [subScoreAverages, setSubScoreAverages] = useState<(number | null)[] | null>(null)
+  // 均值显示方式：简单均值（每条日记录等权）或按里程加权的均值
+  const [averageMode, setAverageMode] = useState<AverageMode>('simple')
   const [isLoading, setIsLoading] = useState(false)
-  const storage = new GenericStringInMemoryStorage()
+  const [decryptProgress, setDecryptProgress] = useState<FhevmBatchDecryptProgress | null>(null)
+  const storage = useFhevmStorage()
 
   const getContract = () => {
     if (!wallet.chainId || !wallet.signer) return null
@@ -51,25 +73,59 @@ export default function Analytics({ wallet, fhevm }: AnalyticsProps) {
     setIsLoading(true)
     try {
       const contract = getContract()
-      if (!contract) return
+      const chainId = wallet.chainId
+      if (!contract || !chainId) return
 
-      const userAddress = await wallet.signer.getAddress()
+      const userAddress = driverAddress ?? await wallet.signer.getAddress()
       const contractAddress = await contract.getAddress()
-      const recordCount = await contract.getRecordCount(userAddress)
-      
-      if (Number(recordCount) === 0) {
+
+      const records = await loadDriveRecords(contract, userAddress)
+
+      if (records.length === 0) {
         setIsLoading(false)
         return
       }
 
-      const records = []
-      for (let i = 0; i < Number(recordCount); i++) {
-        const [recordTime, distanceCategory, encScore] = await contract.getRecordByIndex(userAddress, i)
-        records.push({
-          recordTime: Number(recordTime),
-          distanceCategory: Number(distanceCategory),
-          encScore: encScore,
-        })
+      // 图表按时间正序展示
+      records.reverse()
+
+      // 链上计算的加密均值（旧部署没有该接口时退回到前端计算）
+      let encAverage: string | null = null
+      try {
+        encAverage = await contract.getEncryptedAverage(userAddress)
+      } catch (error) {
+        if (!isMissingFunctionError(error)) throw error
+      }
+
+      // 历史最高/最低分（旧部署没有该接口时退回到窗口内的记录）
+      let encBestAndWorst: { best: string, worst: string } | null = null
+      try {
+        const [best, worst] = await contract.getLifetimeBestAndWorst(userAddress)
+        encBestAndWorst = { best, worst }
+      } catch (error) {
+        if (!isMissingFunctionError(error)) throw error
+      }
+
+      // 各里程等级的加密总分和次数（旧部署没有该接口时退回到窗口内的记录）
+      let encCategoryAggregates: { sums: string[], counts: string[] } | null = null
+      try {
+        const [sums, counts] = await contract.getEncryptedCategoryAggregates(userAddress)
+        encCategoryAggregates = { sums: [...sums], counts: [...counts] }
+      } catch (error) {
+        if (!isMissingFunctionError(error)) throw error
+      }
+
+      // 按里程加权的总分和权重总和（旧部署没有该接口时只显示简单均值）
+      const encWeighted = await loadWeightedAggregates(contract, userAddress)
+
+      // 各子评分维度的加密总和（旧部署没有子评分时不显示该面板）
+      let encSubScoreTotals: { totals: string[], recordCount: number } | null = null
+      try {
+        const totals: string[] = [...(await contract.getEncryptedSubScoreTotals(userAddress))]
+        const [recordCount] = await contract.getUserStatistics(userAddress)
+        encSubScoreTotals = { totals, recordCount: Number(recordCount) }
+      } catch (error) {
+        if (!isMissingFunctionError(error)) throw error
       }
 
       const sig = await FhevmDecryptionSignature.loadOrSign(
@@ -84,52 +140,106 @@ export default function Analytics({ wallet, fhevm }: AnalyticsProps) {
         return
       }
 
-      const decryptedRecords = await Promise.all(
-        records.map(async (record) => {
-          try {
-            const result = await fhevm.instance.userDecrypt(
-              [{ handle: record.encScore, contractAddress }],
-              sig.privateKey,
-              sig.publicKey,
-              sig.signature,
-              sig.contractAddresses,
-              sig.userAddress,
-              sig.startTimestamp,
-              sig.durationDays
-            )
-            return {
-              ...record,
-              score: Number(result[record.encScore]),
-            }
-          } catch (error) {
-            return { ...record, score: 0 }
-          }
-        })
+      const { values } = await userDecryptBatch(
+        fhevm.instance,
+        [
+          ...records.map(record => ({ handle: record.encScore, contractAddress })),
+          ...records.flatMap(record =>
+            record.encDistanceCategory !== null ? [{ handle: record.encDistanceCategory, contractAddress }] : []
+          ),
+          ...(encAverage !== null ? [{ handle: encAverage, contractAddress }] : []),
+          ...(encBestAndWorst !== null
+            ? [{ handle: encBestAndWorst.best, contractAddress }, { handle: encBestAndWorst.worst, contractAddress }]
+            : []),
+          ...(encCategoryAggregates !== null
+            ? [...encCategoryAggregates.sums, ...encCategoryAggregates.counts].map(handle => ({ handle, contractAddress }))
+            : []),
+          ...(encWeighted !== null
+            ? [{ handle: encWeighted.weightedTotal, contractAddress }, { handle: encWeighted.totalWeight, contractAddress }]
+            : []),
+          ...records.flatMap(record => (record.encSubScores ?? []).map(handle => ({ handle, contractAddress }))),
+          ...(encSubScoreTotals !== null
+            ? encSubScoreTotals.totals.map(handle => ({ handle, contractAddress }))
+            : []),
+        ],
+        sig,
+        { cache: new FhevmDecryptedValueCache(chainId, sig), onProgress: setDecryptProgress }
       )
 
+      const decryptedRecords = records.map(record => {
+        const value = values[handleKey(record.encScore)]
+        const category = record.encDistanceCategory !== null
+          ? values[handleKey(record.encDistanceCategory)]
+          : record.distanceCategory
+        const subScoreValues = record.encSubScores?.map(handle => values[handleKey(handle)])
+        return {
+          ...record,
+          score: value === undefined ? 0 : Number(value),
+          distanceCategory: category === undefined || category === null ? 0 : Number(category),
+          subScores: subScoreValues && subScoreValues.every(v => v !== undefined)
+            ? toSubScores(subScoreValues.map(Number))
+            : null,
+        }
+      })
+
       const data: ChartDataPoint[] = decryptedRecords.map(record => ({
         date: new Date(record.recordTime * 1000).toLocaleDateString('en-US', { month: '2-digit', day: '2-digit' }).replace('/', '.'),
         score: record.score,
         distanceCategory: record.distanceCategory,
+        ...record.subScores,
       }))
 
       setChartData(data)
 
       const scores = decryptedRecords.map(r => r.score)
-      const average = scores.reduce((a, b) => a + b, 0) / scores.length
-      const highest = Math.max(...scores)
-      const lowest = Math.min(...scores)
+      const onChainAverage = encAverage !== null ? values[handleKey(encAverage)] : undefined
+      const average = onChainAverage !== undefined
+        ? Number(onChainAverage)
+        : scores.reduce((a, b) => a + b, 0) / scores.length
+      const lifetimeBest = encBestAndWorst !== null ? values[handleKey(encBestAndWorst.best)] : undefined
+      const lifetimeWorst = encBestAndWorst !== null ? values[handleKey(encBestAndWorst.worst)] : undefined
+      const highest = lifetimeBest !== undefined ? Number(lifetimeBest) : Math.max(...scores)
+      const lowest = lifetimeWorst !== undefined ? Number(lifetimeWorst) : Math.min(...scores)
       
       let trend = null
       if (scores.length >= 2) {
         trend = scores[scores.length - 1] - scores[scores.length - 2]
       }
 
-      setStats({ average, highest, lowest, trend })
+      const weightedAverage = encWeighted !== null
+        ? computeWeightedAverage(values[handleKey(encWeighted.weightedTotal)], values[handleKey(encWeighted.totalWeight)])
+        : null
+
+      setStats({ average, weightedAverage, highest, lowest, trend })
+
+      setSubScoreAverages(encSubScoreTotals !== null && encSubScoreTotals.recordCount > 0
+        ? encSubScoreTotals.totals.map(handle => {
+            const total = values[handleKey(handle)]
+            return total !== undefined ? Number(total) / encSubScoreTotals.recordCount : null
+          })
+        : null)
+
+      setCategoryStats(DISTANCE_CATEGORY_NAMES.map((_, category) => {
+        if (encCategoryAggregates !== null) {
+          const sum = values[handleKey(encCategoryAggregates.sums[category])]
+          const count = Number(values[handleKey(encCategoryAggregates.counts[category])] ?? 0)
+          return { count, average: sum !== undefined && count > 0 ? Number(sum) / count : null }
+        }
+        const categoryScores = decryptedRecords
+          .filter(record => record.distanceCategory === category)
+          .map(record => record.score)
+        return {
+          count: categoryScores.length,
+          average: categoryScores.length > 0
+            ? categoryScores.reduce((a, b) => a + b, 0) / categoryScores.length
+            : null,
+        }
+      }))
     } catch (error) {
       console.error('Failed to load analytics:', error)
     } finally {
       setIsLoading(false)
+      setDecryptProgress(null)
     }
   }
 
@@ -137,7 +247,7 @@ export default function Analytics({ wallet, fhevm }: AnalyticsProps) {
     if (wallet.isConnected && fhevm.instance) {
       loadAnalytics()
     }
-  }, [wallet.isConnected, fhevm.instance])
+  }, [wallet.isConnected, fhevm.instance, driverAddress])
 
   if (!wallet.isConnected) {
     return (
@@ -157,6 +267,7 @@ export default function Analytics({ wallet, fhevm }: AnalyticsProps) {
   }
 
   const contractAvailable = getContract() !== null
+  const displayedAverage = averageMode === 'weighted' ? stats.weightedAverage : stats.average
 
   return (
     <div className="space-y-6">
@@ -177,7 +288,9 @@ export default function Analytics({ wallet, fhevm }: AnalyticsProps) {
                 <h1 className="text-3xl font-bold font-orbitron text-transparent bg-gradient-to-r from-neon-pink to-neon-purple bg-clip-text">
                   ANALYTICS_SYSTEM
                 </h1>
-                <p className="text-gray-400 font-rajdhani tracking-wide">DATA_VISUALIZATION_MODULE</p>
+                <p className="text-gray-400 font-rajdhani tracking-wide">
+                  {driverAddress ? `WARD: ${driverAddress.slice(0, 6)}...${driverAddress.slice(-4)}` : 'DATA_VISUALIZATION_MODULE'}
+                </p>
               </div>
             </div>
             
@@ -223,7 +336,11 @@ export default function Analytics({ wallet, fhevm }: AnalyticsProps) {
         <div className="flex items-center justify-center h-64">
           <div className="text-center">
             <div className="w-16 h-16 border-4 border-neon-pink border-t-transparent rounded-full animate-spin mx-auto mb-4"></div>
-            <p className="text-gray-400 font-rajdhani tracking-wider">PROCESSING_DATA...</p>
+            <p className="text-gray-400 font-rajdhani tracking-wider">
+              {decryptProgress
+                ? `${decryptProgress.done}/${decryptProgress.total} DECRYPTED...`
+                : 'PROCESSING_DATA...'}
+            </p>
           </div>
         </div>
       )}
@@ -236,13 +353,33 @@ export default function Analytics({ wallet, fhevm }: AnalyticsProps) {
               <div className="absolute inset-0 bg-gradient-to-br from-purple-600/20 to-pink-600/20"></div>
               <div className="relative glass-morphism border-2 border-neon-purple/30 p-6">
                 <div className="flex items-center justify-between mb-2">
-                  <h3 className="text-xs text-gray-500 font-orbitron tracking-wider">AVG</h3>
-                  <span className="text-2xl">◆</span>
+                  <h3 className="text-xs text-gray-500 font-orbitron tracking-wider">
+                    {averageMode === 'weighted' ? 'WEIGHTED_AVG' : 'AVG'}
+                  </h3>
+                  {/* 简单均值 / 里程加权均值切换 */}
+                  <div className="flex text-xs font-orbitron">
+                    {(['simple', 'weighted'] as AverageMode[]).map(mode => (
+                      <button
+                        key={mode}
+                        onClick={() => setAverageMode(mode)}
+                        disabled={mode === 'weighted' && stats.weightedAverage === null}
+                        className={`px-2 py-0.5 border border-neon-purple/30 disabled:opacity-30 disabled:cursor-not-allowed ${
+                          averageMode === mode ? 'bg-neon-purple/20 text-neon-purple' : 'text-gray-500 hover:text-gray-300'
+                        }`}
+                      >
+                        {mode === 'simple' ? 'SIMPLE' : 'BY_KM'}
+                      </button>
+                    ))}
+                  </div>
                 </div>
                 <p className="text-4xl font-bold font-orbitron text-transparent bg-gradient-to-r from-neon-purple to-neon-pink bg-clip-text">
-                  {stats.average !== null ? stats.average.toFixed(1) : '--'}
+                  {displayedAverage !== null ? displayedAverage.toFixed(1) : '--'}
                 </p>
                 <div className="h-1 bg-gradient-to-r from-neon-purple to-neon-pink opacity-30 mt-2"></div>
+                {/* 加权均值按单次行程累加（含当天未结算的行程），简单均值按已结算的日记录计算 */}
+                <p className="text-xs text-gray-500 font-rajdhani mt-1">
+                  {averageMode === 'weighted' ? 'PER_TRIP · INCLUDES_TODAY' : 'PER_DAY · FINALIZED_DAYS'}
+                </p>
               </div>
             </div>
 
@@ -349,6 +486,63 @@ export default function Analytics({ wallet, fhevm }: AnalyticsProps) {
             </div>
           </div>
 
+          {/* 子评分趋势图 */}
+          {chartData.some(d => d.speeding !== undefined) && (
+            <div className="relative overflow-hidden">
+              <div className="absolute inset-0 bg-gradient-to-br from-rose-900/10 via-amber-900/10 to-cyan-900/10"></div>
+              <div className="scan-line absolute inset-0"></div>
+              <div className="relative glass-morphism border-2 border-neon-pink/30 p-6">
+                <h2 className="text-xl font-bold font-orbitron text-transparent bg-gradient-to-r from-neon-pink to-neon-cyan bg-clip-text mb-6 flex items-center space-x-2">
+                  <span>⚡</span>
+                  <span>SUB_SCORE_TREND</span>
+                </h2>
+                {subScoreAverages && (
+                  <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6">
+                    {SUB_SCORE_DIMENSIONS.map((dimension, i) => (
+                      <div key={dimension.key} className="glass-morphism border border-gray-600/30 p-4">
+                        <div className="text-xs text-gray-500 font-orbitron tracking-wider mb-1">
+                          {dimension.icon} AVG_{dimension.label}
+                        </div>
+                        <div className="text-2xl font-bold font-orbitron" style={{ color: dimension.stroke }}>
+                          {subScoreAverages[i] !== null ? subScoreAverages[i]!.toFixed(1) : '--'}
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                )}
+                <ResponsiveContainer width="100%" height={300}>
+                  <LineChart data={chartData}>
+                    <CartesianGrid strokeDasharray="3 3" stroke="rgba(168, 85, 247, 0.2)" />
+                    <XAxis dataKey="date" stroke="#9ca3af" style={{ fontFamily: 'Orbitron' }} />
+                    <YAxis domain={[0, 100]} stroke="#9ca3af" style={{ fontFamily: 'Orbitron' }} />
+                    <Tooltip 
+                      contentStyle={{ 
+                        backgroundColor: 'rgba(19, 19, 26, 0.95)', 
+                        border: '2px solid #ec4899',
+                        borderRadius: '8px',
+                        color: '#e0e0ff',
+                        fontFamily: 'Rajdhani'
+                      }} 
+                    />
+                    <Legend wrapperStyle={{ color: '#9ca3af', fontFamily: 'Orbitron' }} />
+                    {SUB_SCORE_DIMENSIONS.map(dimension => (
+                      <Line
+                        key={dimension.key}
+                        type="monotone"
+                        dataKey={dimension.key}
+                        stroke={dimension.stroke}
+                        strokeWidth={2}
+                        name={dimension.label}
+                        dot={{ fill: dimension.stroke, r: 3 }}
+                        connectNulls
+                      />
+                    ))}
+                  </LineChart>
+                </ResponsiveContainer>
+              </div>
+            </div>
+          )}
+
           {/* 里程分布图 */}
           <div className="relative overflow-hidden">
             <div className="absolute inset-0 bg-gradient-to-br from-purple-900/10 via-pink-900/10 to-orange-900/10"></div>
@@ -364,10 +558,7 @@ export default function Analytics({ wallet, fhevm }: AnalyticsProps) {
                   <XAxis dataKey="date" stroke="#9ca3af" style={{ fontFamily: 'Orbitron' }} />
                   <YAxis stroke="#9ca3af" style={{ fontFamily: 'Orbitron' }} />
                   <Tooltip 
-                    formatter={(value) => {
-                      const names = ['UNKNOWN', 'SHORT', 'MEDIUM', 'LONG']
-                      return names[value as number] || 'UNKNOWN'
-                    }}
+                    formatter={(value) => DISTANCE_CATEGORY_NAMES[value as number] || 'UNKNOWN'}
                     contentStyle={{ 
                       backgroundColor: 'rgba(19, 19, 26, 0.95)', 
                       border: '2px solid #a855f7',
@@ -394,6 +585,31 @@ export default function Analytics({ wallet, fhevm }: AnalyticsProps) {
             </div>
           </div>
 
+          {/* 各里程等级平均分 */}
+          {categoryStats.length > 0 && (
+            <div className="relative overflow-hidden">
+              <div className="absolute inset-0 bg-gradient-to-r from-cyan-900/20 to-purple-900/20"></div>
+              <div className="relative glass-morphism border border-neon-cyan/30 p-6">
+                <h3 className="font-orbitron text-cyan-400 tracking-wider mb-4 flex items-center space-x-2">
+                  <span>◇</span>
+                  <span>AVG_BY_DISTANCE</span>
+                </h3>
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                  {categoryStats.slice(1).map((stat, index) => (
+                    <div key={index}>
+                      <div className="text-3xl font-bold font-orbitron text-cyan-400">
+                        {stat.average !== null ? stat.average.toFixed(1) : '--'}
+                      </div>
+                      <div className="text-xs text-gray-500 font-rajdhani">
+                        {DISTANCE_CATEGORY_NAMES[index + 1]} · {stat.count} TRIPS
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            </div>
+          )}
+
           {/* AI洞察 */}
           <div className="relative overflow-hidden">
             <div className="absolute inset-0 bg-gradient-to-r from-purple-900/20 to-cyan-900/20"></div>
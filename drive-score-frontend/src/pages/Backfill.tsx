@@ -0,0 +1,506 @@
+import { useEffect, useState } from 'react'
+import { ethers } from 'ethers'
+import { DriveScoreLoggerABI, DriveScoreLoggerAddresses } from '../abi'
+import { isMissingFunctionError } from '../lib/compat'
+import { decodeContractError } from '../lib/contractErrors'
+import { SUB_SCORE_DIMENSIONS, type SubScores } from '../lib/subScores'
+import { readTripSamples, type ImportRowError } from '../lib/tripImport'
+import {
+  applyBackfillWindow,
+  buildBackfillEntries,
+  formatUtcDay,
+  isBackfillEligible,
+  loadBackfillQueue,
+  loadBackfillWindow,
+  mergeBackfillEntries,
+  reconcileBackfillEntries,
+  saveBackfillQueue,
+  type BackfillEntry,
+  type BackfillStatus,
+  type BackfillWindow,
+} from '../lib/backfill'
+
+// 导入失败时最多列出的出错行数
+const MAX_LISTED_IMPORT_ERRORS = 8
+
+const STATUS_STYLES: Record<BackfillStatus, { label: string, className: string }> = {
+  queued: { label: 'QUEUED', className: 'text-cyan-400 border-cyan-500/30' },
+  sending: { label: 'CONFIRMING', className: 'text-yellow-400 border-yellow-500/30' },
+  onChain: { label: 'ON_CHAIN', className: 'text-green-400 border-green-500/30' },
+  failed: { label: 'FAILED', className: 'text-red-400 border-red-500/30' },
+  ineligible: { label: 'INELIGIBLE', className: 'text-gray-500 border-gray-600/30' },
+}
+
+const CATEGORY_NAMES = ['UNKNOWN', 'SHORT', 'MEDIUM', 'LONG']
+
+interface BackfillProps {
+  wallet: {
+    provider: any
+    chainId: number | undefined
+    accounts: string[]
+    signer: any
+    isConnected: boolean
+  }
+  fhevm: {
+    instance: any
+    status: string
+    error: Error | undefined
+  }
+}
+
+export default function Backfill({ wallet, fhevm }: BackfillProps) {
+  const [entries, setEntries] = useState<BackfillEntry[]>([])
+  const [backfillWindow, setBackfillWindow] = useState<BackfillWindow | null>(null)
+  // null 表示旧部署不支持回填
+  const [isApproved, setIsApproved] = useState<boolean | null>(null)
+  const [isAdmin, setIsAdmin] = useState(false)
+  const [approvalTarget, setApprovalTarget] = useState('')
+  // 急转弯和使用手机无法从遥测数据得出，对导入的每一天统一使用用户填写的值
+  const [selfReported, setSelfReported] = useState<Pick<SubScores, 'cornering' | 'phoneUse'>>({ cornering: 85, phoneUse: 85 })
+  const [importErrors, setImportErrors] = useState<{ fileName: string, errors: ImportRowError[] } | null>(null)
+  const [isLoading, setIsLoading] = useState(false)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [pendingAction, setPendingAction] = useState<string | null>(null)
+  const [message, setMessage] = useState<{ type: 'success' | 'error' | 'info', text: string } | null>(null)
+
+  const getContract = () => {
+    if (!wallet.chainId || !wallet.signer) return null
+    const chainIdStr = wallet.chainId.toString()
+    const address = DriveScoreLoggerAddresses[chainIdStr as keyof typeof DriveScoreLoggerAddresses]
+    if (!address || address.address === ethers.ZeroAddress) return null
+    return new ethers.Contract(address.address, DriveScoreLoggerABI.abi, wallet.signer)
+  }
+
+  const persistQueue = async (contract: ethers.Contract, queue: BackfillEntry[]) => {
+    setEntries(queue)
+    await saveBackfillQueue(wallet.chainId!, await contract.getAddress(), await wallet.signer.getAddress(), queue)
+  }
+
+  // 读取本地队列，核对刷新前已发出的交易，并按链上的回填条件更新状态
+  const loadQueue = async () => {
+    const contract = getContract()
+    if (!contract) return
+
+    setIsLoading(true)
+    try {
+      const userAddress = await wallet.signer.getAddress()
+      const [approved, admin] = await Promise.all([
+        contract.isBackfillApproved(userAddress),
+        contract.contractAdmin(),
+      ])
+      setIsApproved(approved)
+      setIsAdmin(admin.toLowerCase() === userAddress.toLowerCase())
+
+      const stored = await loadBackfillQueue(wallet.chainId!, await contract.getAddress(), userAddress)
+      const reconciled = await reconcileBackfillEntries(wallet.signer.provider, stored)
+      const window = await loadBackfillWindow(contract, wallet.signer.provider, userAddress)
+      setBackfillWindow(window)
+      await persistQueue(contract, applyBackfillWindow(reconciled, window))
+    } catch (error) {
+      if (isMissingFunctionError(error)) {
+        setIsApproved(null)
+      } else {
+        console.error('Failed to load backfill queue:', error)
+      }
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    if (wallet.isConnected && wallet.signer) {
+      loadQueue()
+    }
+  }, [wallet.isConnected, wallet.signer, wallet.chainId])
+
+  const importFile = async (file: File | undefined) => {
+    const contract = getContract()
+    if (!file || !contract || !backfillWindow) return
+
+    setMessage(null)
+    const { samples, errors } = await readTripSamples(file)
+    const built = errors.length > 0 ? null : buildBackfillEntries(samples, selfReported)
+    const allErrors = built ? built.errors : errors
+    setImportErrors(allErrors.length > 0 ? { fileName: file.name, errors: allErrors } : null)
+    if (!built || built.entries.length === 0) return
+
+    const queue = applyBackfillWindow(mergeBackfillEntries(entries, built.entries), backfillWindow)
+    await persistQueue(contract, queue)
+    const queued = queue.filter(entry => entry.status === 'queued').length
+    setMessage({ type: 'info', text: `${built.entries.length}_DAYS_IMPORTED · ${queued}_ELIGIBLE_FOR_BACKFILL` })
+  }
+
+  // 按日期顺序逐条提交，每一步都写回本地，页面刷新后可以从中断处继续
+  const submitQueue = async () => {
+    const contract = getContract()
+    if (!contract || !fhevm.instance || !backfillWindow) return
+
+    setIsSubmitting(true)
+    let queue = entries
+    const update = async (day: number, patch: Partial<BackfillEntry>) => {
+      queue = queue.map(entry => entry.day === day ? { ...entry, ...patch } : entry)
+      await persistQueue(contract, queue)
+    }
+
+    const contractAddress = await contract.getAddress()
+    const userAddress = await wallet.signer.getAddress()
+    const toSubmit = queue.filter(entry =>
+      (entry.status === 'queued' || entry.status === 'failed') && isBackfillEligible(entry, backfillWindow)
+    )
+
+    let submitted = 0
+    for (const entry of toSubmit) {
+      try {
+        setMessage({ type: 'info', text: `ENCRYPTING_${formatUtcDay(entry.day)} [${submitted + 1}/${toSubmit.length}]...` })
+        await update(entry.day, { status: 'sending', txHash: undefined, error: undefined })
+
+        const input = fhevm.instance.createEncryptedInput(contractAddress, userAddress)
+        SUB_SCORE_DIMENSIONS.forEach(d => input.add32(entry.subScores[d.key]))
+        input.add8(entry.distanceCategory)
+        const enc = await input.encrypt()
+
+        const subScoreHandles = enc.handles.slice(0, SUB_SCORE_DIMENSIONS.length)
+        const categoryHandle = enc.handles[SUB_SCORE_DIMENSIONS.length]
+        const tx = await contract.recordDriveScoreAt(subScoreHandles, categoryHandle, enc.inputProof, entry.recordTime)
+        await update(entry.day, { txHash: tx.hash })
+
+        setMessage({ type: 'info', text: `TX_HASH: ${tx.hash.slice(0, 10)}... [${submitted + 1}/${toSubmit.length}]` })
+        await tx.wait()
+        await update(entry.day, { status: 'onChain' })
+        submitted++
+      } catch (error: any) {
+        console.error('Backfill error:', error)
+        const decoded = decodeContractError(error)
+        // 合约判定日期已不在回填窗口内时不再重试
+        await update(entry.day, {
+          status: decoded.code === 'InvalidBackfillTime' ? 'ineligible' : 'failed',
+          error: decoded.text,
+        })
+        setMessage({ type: 'error', text: `ERROR_ON_${formatUtcDay(entry.day)}: ${decoded.text}` })
+        break
+      }
+    }
+
+    if (submitted === toSubmit.length) {
+      setMessage({ type: 'success', text: `✓ ${submitted}_DAYS_BACKFILLED | DATA_ENCRYPTED_ON_CHAIN` })
+    }
+    setIsSubmitting(false)
+    await loadQueue()
+  }
+
+  const clearQueue = async () => {
+    const contract = getContract()
+    if (!contract) return
+    // 正在确认的交易保留在队列中，以便刷新后核对结果
+    await persistQueue(contract, entries.filter(entry => entry.status === 'sending'))
+    setImportErrors(null)
+  }
+
+  const setApproval = async (approved: boolean) => {
+    const contract = getContract()
+    if (!contract) return
+
+    if (!ethers.isAddress(approvalTarget)) {
+      setMessage({ type: 'error', text: 'INVALID_ADDRESS' })
+      return
+    }
+
+    setPendingAction(approved ? 'approve' : 'revoke')
+    try {
+      const tx = await contract.setBackfillApproval(approvalTarget, approved)
+      await tx.wait()
+      setMessage({ type: 'success', text: approved ? '✓ BACKFILL_APPROVED' : '✓ BACKFILL_APPROVAL_REVOKED' })
+      setApprovalTarget('')
+      await loadQueue()
+    } catch (error: any) {
+      console.error('Backfill approval error:', error)
+      setMessage({ type: 'error', text: `ERROR: ${decodeContractError(error).text}` })
+    } finally {
+      setPendingAction(null)
+    }
+  }
+
+  if (!wallet.isConnected) {
+    return (
+      <div className="flex items-center justify-center h-[600px]">
+        <div className="text-center">
+          <div className="relative inline-block mb-8">
+            <div className="absolute inset-0 bg-gradient-to-r from-neon-purple to-neon-cyan blur-2xl opacity-50 animate-pulse"></div>
+            <div className="relative text-8xl">🔒</div>
+          </div>
+          <h2 className="text-3xl font-bold font-orbitron text-transparent bg-gradient-to-r from-neon-purple via-neon-pink to-neon-cyan bg-clip-text mb-4">
+            ACCESS_DENIED
+          </h2>
+          <p className="text-gray-400 font-rajdhani text-lg tracking-wider">CONNECT_WALLET_TO_BACKFILL</p>
+        </div>
+      </div>
+    )
+  }
+
+  const contractAvailable = getContract() !== null
+  const submittable = backfillWindow
+    ? entries.filter(entry => (entry.status === 'queued' || entry.status === 'failed') && isBackfillEligible(entry, backfillWindow))
+    : []
+
+  return (
+    <div className="max-w-3xl mx-auto space-y-6">
+      {/* 页面标题 */}
+      <div className="relative overflow-hidden">
+        <div className="absolute inset-0 bg-gradient-to-r from-indigo-600/20 via-cyan-600/20 to-teal-600/20"></div>
+        <div className="scan-line absolute inset-0"></div>
+        <div className="relative glass-morphism border-2 border-neon-cyan/30 p-8">
+          <div className="flex items-center space-x-4">
+            <div className="relative">
+              <div className="absolute inset-0 bg-neon-cyan blur-xl opacity-50"></div>
+              <div className="relative w-16 h-16 bg-gradient-to-br from-indigo-400 to-neon-cyan rounded flex items-center justify-center text-4xl">
+                ↺
+              </div>
+            </div>
+            <div>
+              <h1 className="text-3xl font-bold font-orbitron text-transparent bg-gradient-to-r from-indigo-400 to-neon-cyan bg-clip-text">
+                BACKFILL_HISTORY
+              </h1>
+              <p className="text-gray-400 font-rajdhani tracking-wide">IMPORT_PAST_TRIPS · ONE_ENCRYPTED_RECORD_PER_DAY</p>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {!contractAvailable && (
+        <div className="relative overflow-hidden">
+          <div className="absolute inset-0 bg-gradient-to-r from-red-600/10 to-orange-600/10 animate-pulse"></div>
+          <div className="relative glass-morphism border-2 border-red-500/50 p-6">
+            <div className="flex items-start space-x-4">
+              <div className="text-4xl">⚠</div>
+              <div>
+                <h3 className="text-xl font-bold font-orbitron text-red-400 mb-2">CONTRACT_NOT_DEPLOYED</h3>
+                <p className="text-red-300/80 font-rajdhani">CHAIN_ID: {wallet.chainId || 'UNKNOWN'}</p>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {contractAvailable && isApproved === null && !isLoading && (
+        <div className="glass-morphism border-2 border-yellow-500/30 p-6 font-rajdhani text-yellow-300/80">
+          BACKFILL_NOT_SUPPORTED_BY_THIS_DEPLOYMENT
+        </div>
+      )}
+
+      {/* 回填批准状态与回填条件 */}
+      {contractAvailable && isApproved !== null && (
+        <div className="relative glass-morphism border-2 border-gray-600/30 p-6">
+          <div className="flex items-center justify-between">
+            <div>
+              <div className="text-xs font-orbitron text-gray-500 tracking-wider">ADMIN_APPROVAL</div>
+              <div className={`text-xl font-bold font-orbitron ${isApproved ? 'text-green-400' : 'text-yellow-400'}`}>
+                {isApproved ? '✓ APPROVED' : 'AWAITING_ADMIN_APPROVAL'}
+              </div>
+            </div>
+            {backfillWindow && (
+              <div className="text-right text-xs font-rajdhani text-gray-400 tracking-wider space-y-1">
+                <div>
+                  AFTER: {backfillWindow.lastRecordDay !== null ? formatUtcDay(backfillWindow.lastRecordDay) : 'NO_RECORDS_YET'}
+                </div>
+                <div>NOT_BEFORE: {formatUtcDay(Math.ceil(backfillWindow.earliestRecordTime / 86400))}</div>
+                <div>
+                  BEFORE: {formatUtcDay(Math.min(backfillWindow.today, backfillWindow.pendingTripDay ?? backfillWindow.today))}
+                </div>
+              </div>
+            )}
+          </div>
+          <p className="mt-3 text-xs text-gray-500 font-rajdhani">
+            · DAYS_MUST_BE_SUBMITTED_IN_ORDER · SUBMITTING_A_LATER_DAY_MAKES_EARLIER_QUEUED_DAYS_INELIGIBLE
+          </p>
+        </div>
+      )}
+
+      {/* 管理员：批准或撤销回填 */}
+      {contractAvailable && isAdmin && (
+        <div className="relative glass-morphism border-2 border-neon-purple/30 p-6 space-y-4">
+          <label className="block text-sm font-orbitron text-gray-400 tracking-wider">ADMIN · BACKFILL_APPROVAL</label>
+          <input
+            type="text"
+            value={approvalTarget}
+            onChange={(e) => setApprovalTarget(e.target.value.trim())}
+            placeholder="0x..."
+            className="w-full px-4 py-3 bg-cyber-card border-2 border-neon-purple/30 rounded font-orbitron text-sm text-gray-200 focus:border-neon-purple/50 focus:outline-none"
+          />
+          <div className="grid grid-cols-2 gap-3">
+            <button
+              onClick={() => setApproval(true)}
+              disabled={pendingAction !== null || approvalTarget === ''}
+              className="py-3 rounded border border-green-500/30 font-orbitron text-sm text-green-400 tracking-wider disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {pendingAction === 'approve' ? 'APPROVING...' : 'APPROVE'}
+            </button>
+            <button
+              onClick={() => setApproval(false)}
+              disabled={pendingAction !== null || approvalTarget === ''}
+              className="py-3 rounded border border-red-500/30 font-orbitron text-sm text-red-400 tracking-wider disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {pendingAction === 'revoke' ? 'REVOKING...' : 'REVOKE'}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* 导入多天的行程文件 */}
+      {contractAvailable && isApproved !== null && (
+        <div className="relative overflow-hidden">
+          <div className="absolute inset-0 bg-gradient-to-br from-indigo-900/10 via-cyan-900/10 to-teal-900/10"></div>
+          <div className="scan-line absolute inset-0"></div>
+          <div className="relative glass-morphism border-2 border-neon-cyan/30 p-8 space-y-6">
+            <div className="grid grid-cols-2 gap-4">
+              {(['cornering', 'phoneUse'] as const).map(key => {
+                const dimension = SUB_SCORE_DIMENSIONS.find(d => d.key === key)!
+                return (
+                  <label key={key} className="flex items-center justify-between glass-morphism border border-gray-600/30 p-3">
+                    <span className="font-orbitron text-xs text-gray-300 tracking-wider">
+                      {dimension.icon} {dimension.label}
+                      <span className="block text-gray-600">SELF_REPORTED · ALL_DAYS</span>
+                    </span>
+                    <input
+                      type="number"
+                      min="0"
+                      max="100"
+                      value={selfReported[key]}
+                      onChange={(e) => setSelfReported(prev => ({ ...prev, [key]: Math.min(100, Math.max(0, Number(e.target.value))) }))}
+                      className="w-20 px-2 py-1 bg-cyber-card border border-neon-purple/30 rounded text-center font-bold font-orbitron text-gray-200 focus:border-neon-purple/50 focus:outline-none"
+                    />
+                  </label>
+                )
+              })}
+            </div>
+
+            <label className="flex items-center justify-between glass-morphism border border-dashed border-neon-cyan/40 p-4 cursor-pointer hover:bg-neon-cyan/5">
+              <div>
+                <div className="font-orbitron text-sm text-neon-cyan tracking-wider">IMPORT_MULTI_DAY_TRIP_LOG</div>
+                <div className="text-xs text-gray-500 font-rajdhani tracking-wider">
+                  CSV · GPX · JSON · GROUPED_BY_UTC_DAY · PARSED_ON_DEVICE · FILE_NEVER_UPLOADED
+                </div>
+              </div>
+              <span className="font-orbitron text-xs text-gray-400 tracking-wider">◆ LOAD</span>
+              <input
+                type="file"
+                accept=".csv,.gpx,.json"
+                className="hidden"
+                disabled={isSubmitting || !backfillWindow}
+                onChange={(e) => {
+                  importFile(e.target.files?.[0])
+                  e.target.value = ''
+                }}
+              />
+            </label>
+
+            {/* 逐行错误：文件有行出错时不会导入任何一天 */}
+            {importErrors && (
+              <div className="glass-morphism border border-red-500/50 p-4">
+                <div className="font-orbitron text-sm text-red-400 tracking-wider mb-2">
+                  IMPORT_ERRORS · {importErrors.fileName} · {importErrors.errors.length}_ERRORS
+                </div>
+                <ul className="text-sm text-red-300/80 font-rajdhani space-y-1">
+                  {importErrors.errors.slice(0, MAX_LISTED_IMPORT_ERRORS).map((error, i) => (
+                    <li key={i}>
+                      <span className="font-orbitron text-xs text-red-400 mr-2">{error.location}</span>
+                      {error.message}
+                    </li>
+                  ))}
+                  {importErrors.errors.length > MAX_LISTED_IMPORT_ERRORS && (
+                    <li className="text-red-400/60">+{importErrors.errors.length - MAX_LISTED_IMPORT_ERRORS}_MORE_ERRORS</li>
+                  )}
+                </ul>
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+
+      {/* 回填队列 */}
+      {contractAvailable && entries.length > 0 && (
+        <div className="relative overflow-hidden">
+          <div className="absolute inset-0 bg-gradient-to-r from-gray-800/20 to-gray-700/20"></div>
+          <div className="relative glass-morphism border-2 border-gray-600/30 p-6 space-y-4">
+            <div className="flex items-center justify-between">
+              <h3 className="text-sm text-gray-400 font-orbitron tracking-wider">BACKFILL_QUEUE</h3>
+              <span className="text-xs text-gray-500 font-rajdhani">
+                {entries.filter(entry => entry.status === 'onChain').length}/{entries.length}_ON_CHAIN
+              </span>
+            </div>
+            <div className="space-y-2">
+              {entries.map(entry => {
+                const style = STATUS_STYLES[entry.status]
+                return (
+                  <div key={entry.day} className="flex items-center justify-between border border-gray-600/30 p-3">
+                    <div>
+                      <div className="font-orbitron text-sm text-gray-300">{formatUtcDay(entry.day)}</div>
+                      <div className="text-xs text-gray-500 font-rajdhani">
+                        {entry.distanceKm.toFixed(1)}KM · {CATEGORY_NAMES[entry.distanceCategory]} ·{' '}
+                        {SUB_SCORE_DIMENSIONS.map(d => `${d.icon}${entry.subScores[d.key]}`).join(' ')}
+                        {entry.txHash && ` · TX ${entry.txHash.slice(0, 10)}...`}
+                      </div>
+                      {entry.error && <div className="text-xs text-red-400/80 font-rajdhani">{entry.error}</div>}
+                    </div>
+                    <div className="flex items-center space-x-3">
+                      <span className="font-orbitron text-xl font-bold text-gray-200">{entry.score}</span>
+                      <span className={`px-2 py-1 rounded border text-xs font-orbitron ${style.className}`}>{style.label}</span>
+                    </div>
+                  </div>
+                )
+              })}
+            </div>
+            <div className="grid grid-cols-3 gap-3">
+              <button
+                onClick={submitQueue}
+                disabled={isSubmitting || !isApproved || fhevm.status !== 'ready' || submittable.length === 0}
+                className="col-span-2 py-4 bg-gradient-to-r from-indigo-500 to-neon-cyan rounded font-orbitron font-bold text-white tracking-wider disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {isSubmitting
+                  ? 'SUBMITTING...'
+                  : !isApproved
+                    ? 'AWAITING_ADMIN_APPROVAL'
+                    : fhevm.status !== 'ready'
+                      ? 'FHEVM_NOT_READY'
+                      : `◆ SUBMIT_${submittable.length}_DAYS`}
+              </button>
+              <button
+                onClick={clearQueue}
+                disabled={isSubmitting}
+                className="py-4 rounded border border-gray-600/50 font-orbitron text-sm text-gray-400 tracking-wider disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                CLEAR_QUEUE
+              </button>
+            </div>
+            <p className="text-xs text-gray-500 font-rajdhani">
+              · ONE_TRANSACTION_PER_DAY · PROGRESS_SAVED_LOCALLY · RELOAD_RESUMES_WHERE_IT_STOPPED
+            </p>
+          </div>
+        </div>
+      )}
+
+      {/* 消息提示 */}
+      {message && (
+        <div className={`relative overflow-hidden ${
+          message.type === 'success' ? 'border-2 border-green-500/50' :
+          message.type === 'error' ? 'border-2 border-red-500/50' :
+          'border-2 border-cyan-500/50'
+        }`}>
+          <div className={`absolute inset-0 ${
+            message.type === 'success' ? 'bg-green-600/10' :
+            message.type === 'error' ? 'bg-red-600/10' :
+            'bg-cyan-600/10'
+          } animate-pulse`}></div>
+          <div className="relative glass-morphism p-6">
+            <p className={`font-rajdhani tracking-wider ${
+              message.type === 'success' ? 'text-green-300' :
+              message.type === 'error' ? 'text-red-300' :
+              'text-cyan-300'
+            }`}>
+              {message.text}
+            </p>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,429 @@
+import { useState, useEffect } from 'react'
+import { ethers } from 'ethers'
+import { DriveScoreLoggerABI, DriveScoreLoggerAddresses } from '../abi'
+import { FhevmDecryptionSignature } from '../fhevm/FhevmDecryptionSignature'
+import { useFhevmStorage } from '../fhevm/FhevmStorageContext'
+import { handleKey, userDecryptBatch } from '../fhevm/FhevmBatchDecryptor'
+import { FhevmDecryptedValueCache } from '../fhevm/FhevmDecryptedValueCache'
+import { createChallenge, didUserWin, DriveChallenge, loadUserChallenges } from '../lib/challenges'
+import { decodeContractError } from '../lib/contractErrors'
+
+interface ChallengesProps {
+  wallet: {
+    provider: any
+    chainId: number | undefined
+    accounts: string[]
+    signer: any
+    isConnected: boolean
+  }
+  fhevm: {
+    instance: any
+    status: string
+    error: Error | undefined
+  }
+}
+
+export default function Challenges({ wallet, fhevm }: ChallengesProps) {
+  const [challenges, setChallenges] = useState<DriveChallenge[]>([])
+  const [results, setResults] = useState<Record<string, boolean>>({})
+  const [opponent, setOpponent] = useState('')
+  const [isLoading, setIsLoading] = useState(false)
+  const [isDecrypting, setIsDecrypting] = useState(false)
+  const [pendingAction, setPendingAction] = useState<string | null>(null)
+  const [now, setNow] = useState(() => Math.floor(Date.now() / 1000))
+  const [message, setMessage] = useState<{ type: 'success' | 'error' | 'info', text: string } | null>(null)
+  const storage = useFhevmStorage()
+
+  const getContract = () => {
+    if (!wallet.chainId || !wallet.signer) return null
+    const chainIdStr = wallet.chainId.toString()
+    const address = DriveScoreLoggerAddresses[chainIdStr as keyof typeof DriveScoreLoggerAddresses]
+    if (!address || address.address === ethers.ZeroAddress) return null
+    return new ethers.Contract(address.address, DriveScoreLoggerABI.abi, wallet.signer)
+  }
+
+  const loadChallenges = async () => {
+    if (!wallet.signer) return
+
+    setIsLoading(true)
+    try {
+      const contract = getContract()
+      if (!contract) return
+
+      const userAddress = await wallet.signer.getAddress()
+      setChallenges(await loadUserChallenges(contract, userAddress))
+    } catch (error) {
+      console.error('Failed to load challenges:', error)
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const sendTransaction = async (
+    action: string,
+    send: (contract: ethers.Contract) => Promise<any>,
+    successText: string
+  ) => {
+    setPendingAction(action)
+    try {
+      const contract = getContract()
+      if (!contract) return
+
+      setMessage({ type: 'info', text: 'SUBMITTING_TRANSACTION...' })
+      await send(contract)
+
+      setMessage({ type: 'success', text: successText })
+      await loadChallenges()
+    } catch (error: any) {
+      console.error('Challenge transaction error:', error)
+      setMessage({ type: 'error', text: `ERROR: ${decodeContractError(error).text}` })
+    } finally {
+      setPendingAction(null)
+    }
+  }
+
+  const invite = async () => {
+    if (!ethers.isAddress(opponent)) {
+      setMessage({ type: 'error', text: 'INVALID_ADDRESS' })
+      return
+    }
+    await sendTransaction(
+      'invite',
+      async contract => {
+        const challengeId = await createChallenge(contract, opponent)
+        setOpponent('')
+        return challengeId
+      },
+      '✓ CHALLENGE_SENT | AWAITING_OPPONENT'
+    )
+  }
+
+  const accept = (challengeId: bigint) => sendTransaction(
+    challengeId.toString(),
+    async contract => (await contract.acceptChallenge(challengeId)).wait(),
+    '✓ CHALLENGE_ACCEPTED | 7_DAY_WINDOW_STARTED'
+  )
+
+  const cancel = (challengeId: bigint) => sendTransaction(
+    challengeId.toString(),
+    async contract => (await contract.cancelChallenge(challengeId)).wait(),
+    '✓ CHALLENGE_CANCELLED'
+  )
+
+  const finalize = (challengeId: bigint) => sendTransaction(
+    challengeId.toString(),
+    async contract => (await contract.finalizeChallenge(challengeId)).wait(),
+    '✓ CHALLENGE_FINALIZED | DECRYPT_TO_SEE_RESULT'
+  )
+
+  // 解密所有已结算挑战的胜负标志
+  const decryptResults = async () => {
+    if (!wallet.signer || !fhevm.instance) return
+
+    const finalized = challenges.filter(c => c.status === 'finalized')
+    if (finalized.length === 0) return
+
+    setIsDecrypting(true)
+    try {
+      const contract = getContract()
+      const chainId = wallet.chainId
+      if (!contract || !chainId) return
+
+      const userAddress = await wallet.signer.getAddress()
+      const contractAddress = await contract.getAddress()
+      const sig = await FhevmDecryptionSignature.loadOrSign(
+        fhevm.instance,
+        [contractAddress],
+        wallet.signer,
+        storage
+      )
+      if (!sig) return
+
+      const { values, errors } = await userDecryptBatch(
+        fhevm.instance,
+        finalized.map(c => ({ handle: c.encryptedChallengerWon, contractAddress })),
+        sig,
+        { cache: new FhevmDecryptedValueCache(chainId, sig) }
+      )
+
+      const decrypted: Record<string, boolean> = {}
+      for (const challenge of finalized) {
+        const challengerWon = values[handleKey(challenge.encryptedChallengerWon)]
+        if (typeof challengerWon !== 'boolean') {
+          console.warn('Invalid decrypted challenge result:', errors[handleKey(challenge.encryptedChallengerWon)])
+          continue
+        }
+        decrypted[challenge.id.toString()] = didUserWin(challenge, userAddress, challengerWon)
+      }
+      setResults(decrypted)
+    } catch (error: any) {
+      console.error('Failed to decrypt challenge results:', error)
+      setMessage({ type: 'error', text: `ERROR: ${decodeContractError(error).text}` })
+    } finally {
+      setIsDecrypting(false)
+    }
+  }
+
+  useEffect(() => {
+    if (wallet.isConnected) {
+      loadChallenges()
+      setResults({})
+    }
+  }, [wallet.isConnected])
+
+  // 每分钟刷新倒计时
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Math.floor(Date.now() / 1000)), 60000)
+    return () => clearInterval(timer)
+  }, [])
+
+  const shortAddress = (address: string) => `${address.slice(0, 6)}...${address.slice(-4)}`
+
+  const formatRemaining = (endTime: number) => {
+    const remaining = Math.max(0, endTime - now)
+    const days = Math.floor(remaining / 86400)
+    const hours = Math.floor((remaining % 86400) / 3600)
+    const minutes = Math.floor((remaining % 3600) / 60)
+    return `${days}D ${hours}H ${minutes}M`
+  }
+
+  if (!wallet.isConnected) {
+    return (
+      <div className="flex items-center justify-center h-[600px]">
+        <div className="text-center">
+          <div className="relative inline-block mb-8">
+            <div className="absolute inset-0 bg-gradient-to-r from-neon-purple to-neon-cyan blur-2xl opacity-50 animate-pulse"></div>
+            <div className="relative text-8xl">🔒</div>
+          </div>
+          <h2 className="text-3xl font-bold font-orbitron text-transparent bg-gradient-to-r from-neon-purple via-neon-pink to-neon-cyan bg-clip-text mb-4">
+            ACCESS_DENIED
+          </h2>
+          <p className="text-gray-400 font-rajdhani text-lg tracking-wider">CONNECT_WALLET_TO_ENTER_CHALLENGES</p>
+        </div>
+      </div>
+    )
+  }
+
+  const contractAvailable = getContract() !== null
+  const me = (wallet.accounts[0] ?? '').toLowerCase()
+  const isOpponent = (c: DriveChallenge) => c.opponent.toLowerCase() === me
+  const rival = (c: DriveChallenge) => isOpponent(c) ? c.challenger : c.opponent
+
+  const pending = challenges.filter(c => c.status === 'pending')
+  const active = challenges.filter(c => c.status === 'active')
+  const finalized = challenges.filter(c => c.status === 'finalized')
+
+  return (
+    <div className="max-w-3xl mx-auto space-y-6">
+      {/* 页面标题 */}
+      <div className="relative overflow-hidden">
+        <div className="absolute inset-0 bg-gradient-to-r from-red-600/20 via-pink-600/20 to-purple-600/20"></div>
+        <div className="scan-line absolute inset-0"></div>
+        <div className="relative glass-morphism border-2 border-red-500/30 p-8">
+          <div className="flex items-center space-x-4">
+            <div className="relative">
+              <div className="absolute inset-0 bg-red-400 blur-xl opacity-50"></div>
+              <div className="relative w-16 h-16 bg-gradient-to-br from-red-400 to-pink-500 rounded flex items-center justify-center text-4xl">
+                ⚔
+              </div>
+            </div>
+            <div>
+              <h1 className="text-3xl font-bold font-orbitron text-transparent bg-gradient-to-r from-red-400 to-pink-400 bg-clip-text">
+                HEAD_TO_HEAD
+              </h1>
+              <p className="text-gray-400 font-rajdhani tracking-wide">7_DAY_ENCRYPTED_DUELS · ONLY_THE_WINNER_IS_REVEALED</p>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {!contractAvailable && (
+        <div className="relative overflow-hidden">
+          <div className="absolute inset-0 bg-gradient-to-r from-red-600/10 to-orange-600/10 animate-pulse"></div>
+          <div className="relative glass-morphism border-2 border-red-500/50 p-6">
+            <div className="flex items-start space-x-4">
+              <div className="text-4xl">⚠</div>
+              <div>
+                <h3 className="text-xl font-bold font-orbitron text-red-400 mb-2">CONTRACT_NOT_DEPLOYED</h3>
+                <p className="text-red-300/80 font-rajdhani">CHAIN_ID: {wallet.chainId || 'UNKNOWN'}</p>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* 发起挑战 */}
+      {contractAvailable && (
+        <div className="relative overflow-hidden">
+          <div className="absolute inset-0 bg-gradient-to-br from-purple-900/10 via-pink-900/10 to-red-900/10"></div>
+          <div className="scan-line absolute inset-0"></div>
+          <div className="relative glass-morphism border-2 border-neon-pink/30 p-8 space-y-4">
+            <label className="block text-sm font-orbitron text-gray-400 tracking-wider">
+              INVITE_OPPONENT
+            </label>
+            <input
+              type="text"
+              value={opponent}
+              onChange={(e) => setOpponent(e.target.value.trim())}
+              placeholder="0x..."
+              className="w-full px-4 py-3 bg-cyber-card border-2 border-neon-pink/30 rounded font-orbitron text-sm text-gray-200 focus:border-neon-pink/50 focus:outline-none"
+            />
+            <button
+              onClick={invite}
+              disabled={pendingAction !== null || opponent === ''}
+              className="w-full py-4 bg-gradient-to-r from-red-500 to-pink-500 rounded font-orbitron font-bold text-white tracking-wider disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {pendingAction === 'invite' ? 'SENDING...' : '⚔ SEND_CHALLENGE'}
+            </button>
+            <p className="text-xs text-gray-500 font-rajdhani">
+              · WINDOW_STARTS_ON_ACCEPT · ONLY_TRIPS_INSIDE_WINDOW_COUNT · HIGHER_7_DAY_TOTAL_WINS · TIE_GOES_TO_OPPONENT
+            </p>
+          </div>
+        </div>
+      )}
+
+      {/* 待处理邀请 */}
+      {contractAvailable && pending.length > 0 && (
+        <div className="relative overflow-hidden">
+          <div className="absolute inset-0 bg-yellow-600/10"></div>
+          <div className="relative glass-morphism border-2 border-yellow-500/30 p-6">
+            <h3 className="text-sm text-yellow-400 font-orbitron tracking-wider mb-4">INVITATIONS</h3>
+            <div className="space-y-3">
+              {pending.map(challenge => (
+                <div key={challenge.id.toString()} className="flex items-center justify-between border border-gray-600/30 p-4">
+                  <div>
+                    <div className="font-orbitron text-sm text-gray-300">
+                      #{challenge.id.toString()} {isOpponent(challenge) ? 'FROM' : 'TO'} {shortAddress(rival(challenge))}
+                    </div>
+                    <div className="text-xs text-gray-500 font-rajdhani">
+                      {isOpponent(challenge) ? 'AWAITING_YOUR_RESPONSE' : 'AWAITING_OPPONENT'}
+                    </div>
+                  </div>
+                  <div className="flex items-center space-x-3">
+                    {isOpponent(challenge) && (
+                      <button
+                        onClick={() => accept(challenge.id)}
+                        disabled={pendingAction !== null}
+                        className="px-3 py-1 rounded border border-green-500/30 text-xs text-green-400 font-orbitron disabled:opacity-50"
+                      >
+                        ACCEPT
+                      </button>
+                    )}
+                    <button
+                      onClick={() => cancel(challenge.id)}
+                      disabled={pendingAction !== null}
+                      className="px-3 py-1 rounded border border-red-500/30 text-xs text-red-400 font-orbitron disabled:opacity-50"
+                    >
+                      {isOpponent(challenge) ? 'DECLINE' : 'WITHDRAW'}
+                    </button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* 进行中 */}
+      {contractAvailable && (
+        <div className="relative overflow-hidden">
+          <div className="absolute inset-0 bg-gradient-to-r from-gray-800/20 to-gray-700/20"></div>
+          <div className="relative glass-morphism border-2 border-gray-600/30 p-6">
+            <h3 className="text-sm text-gray-500 font-orbitron tracking-wider mb-4">ACTIVE_CHALLENGES</h3>
+            {isLoading ? (
+              <div className="w-6 h-6 border-2 border-neon-purple border-t-transparent rounded-full animate-spin"></div>
+            ) : active.length === 0 ? (
+              <p className="text-gray-500 font-rajdhani tracking-wider">NO_ACTIVE_CHALLENGES</p>
+            ) : (
+              <div className="space-y-3">
+                {active.map(challenge => (
+                  <div key={challenge.id.toString()} className="flex items-center justify-between border border-gray-600/30 p-4">
+                    <div>
+                      <div className="font-orbitron text-sm text-gray-300">
+                        #{challenge.id.toString()} VS {shortAddress(rival(challenge))}
+                      </div>
+                      <div className="text-xs text-gray-500 font-rajdhani">
+                        {now < challenge.endTime ? `ENDS_IN ${formatRemaining(challenge.endTime)}` : 'WINDOW_CLOSED'}
+                      </div>
+                    </div>
+                    {now >= challenge.endTime ? (
+                      <button
+                        onClick={() => finalize(challenge.id)}
+                        disabled={pendingAction !== null}
+                        className="px-3 py-1 rounded border border-yellow-500/30 text-xs text-yellow-400 font-orbitron disabled:opacity-50"
+                      >
+                        {pendingAction === challenge.id.toString() ? 'FINALIZING...' : 'FINALIZE'}
+                      </button>
+                    ) : (
+                      <span className="font-orbitron text-xs text-cyan-400">■■■ ENCRYPTED</span>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+
+      {/* 结果 */}
+      {contractAvailable && finalized.length > 0 && (
+        <div className="relative overflow-hidden">
+          <div className="absolute inset-0 bg-cyan-600/10"></div>
+          <div className="relative glass-morphism border border-cyan-500/30 p-6 space-y-4">
+            <div className="flex items-center justify-between">
+              <h3 className="font-orbitron text-cyan-400 tracking-wider">RESULTS</h3>
+              <button
+                onClick={decryptResults}
+                disabled={isDecrypting || fhevm.status !== 'ready'}
+                className="px-4 py-2 bg-gradient-to-r from-neon-cyan to-neon-blue rounded font-orbitron text-white text-xs tracking-wider disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {isDecrypting ? 'DECRYPTING...' : '◆ DECRYPT_RESULTS'}
+              </button>
+            </div>
+            <div className="space-y-3">
+              {finalized.map(challenge => {
+                const won = results[challenge.id.toString()]
+                return (
+                  <div key={challenge.id.toString()} className="flex items-center justify-between border border-gray-600/30 p-4">
+                    <div className="font-orbitron text-sm text-gray-300">
+                      #{challenge.id.toString()} VS {shortAddress(rival(challenge))}
+                    </div>
+                    <span className={`font-orbitron text-sm ${
+                      won === undefined ? 'text-gray-500' : won ? 'text-green-400' : 'text-red-400'
+                    }`}>
+                      {won === undefined ? '■■■' : won ? '✓ YOU_WON' : '✗ YOU_LOST'}
+                    </span>
+                  </div>
+                )
+              })}
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* 消息提示 */}
+      {message && (
+        <div className={`relative overflow-hidden ${
+          message.type === 'success' ? 'border-2 border-green-500/50' :
+          message.type === 'error' ? 'border-2 border-red-500/50' :
+          'border-2 border-cyan-500/50'
+        }`}>
+          <div className={`absolute inset-0 ${
+            message.type === 'success' ? 'bg-green-600/10' :
+            message.type === 'error' ? 'bg-red-600/10' :
+            'bg-cyan-600/10'
+          } animate-pulse`}></div>
+          <div className="relative glass-morphism p-6">
+            <p className={`font-rajdhani tracking-wider ${
+              message.type === 'success' ? 'text-green-300' :
+              message.type === 'error' ? 'text-red-300' :
+              'text-cyan-300'
+            }`}>
+              {message.text}
+            </p>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -3,7 +3,27 @@ import { Link } from 'react-router-dom'
 import { ethers } from 'ethers'
 import { DriveScoreLoggerABI, DriveScoreLoggerAddresses } from '../abi'
 import { FhevmDecryptionSignature } from '../fhevm/FhevmDecryptionSignature'
-import { GenericStringInMemoryStorage } from '../fhevm/GenericStringStorage'
+import { useFhevmStorage } from '../fhevm/FhevmStorageContext'
+import { handleKey, userDecryptBatch } from '../fhevm/FhevmBatchDecryptor'
+import { FhevmDecryptedValueCache } from '../fhevm/FhevmDecryptedValueCache'
+import { isMissingFunctionError } from '../lib/compat'
+import { computeWeightedAverage, loadWeightedAggregates, type AverageMode } from '../lib/weightedAverage'
+
+type GoalPeriod = 'week' | 'month' | 'quarter'
+
+// 目标周期在本地时区的结束时间（下周一 / 下月1日 / 下季度首日 00:00）
+function goalPeriodEnd(period: GoalPeriod): number {
+  const now = new Date()
+  let end: Date
+  if (period === 'week') {
+    end = new Date(now.getFullYear(), now.getMonth(), now.getDate() + ((8 - now.getDay()) % 7 || 7))
+  } else if (period === 'month') {
+    end = new Date(now.getFullYear(), now.getMonth() + 1, 1)
+  } else {
+    end = new Date(now.getFullYear(), Math.floor(now.getMonth() / 3) * 3 + 3, 1)
+  }
+  return Math.floor(end.getTime() / 1000)
+}
 
 interface DashboardProps {
   wallet: {
@@ -25,13 +45,34 @@ export default function Dashboard({ wallet, fhevm }: DashboardProps) {
     continuousDays: 0,
     totalRecords: 0,
     averageScore: null as number | null,
+    weightedAverageScore: null as number | null,
     scoreTrend: null as number | null,
+    bestScore: null as number | null,
+    worstScore: null as number | null,
     lastRecordTime: 0,
   })
   const [isLoading, setIsLoading] = useState(false)
   const [isDecrypting, setIsDecrypting] = useState(false)
   const [isDecrypted, setIsDecrypted] = useState(false)
-  const storage = new GenericStringInMemoryStorage()
+  // 均值显示方式：简单均值（每条日记录等权）或按里程加权的均值
+  const [averageMode, setAverageMode] = useState<AverageMode>('simple')
+  // 与全体用户均值的比较：只解密出一个布尔值，双方均值都不暴露
+  const [comparison, setComparison] = useState<{ handle: string, comparedAt: number } | null>(null)
+  const [isAboveAverage, setIsAboveAverage] = useState<boolean | null>(null)
+  const [isComparing, setIsComparing] = useState(false)
+  // 个人目标：目标值本身不解密，只解密“是否达成”和达标次数
+  const [goal, setGoal] = useState<{
+    periodStart: number
+    periodEnd: number
+    periodRecords: number
+    encOnTargetCount: string
+    encGoalMet: string
+  } | null>(null)
+  const [goalProgress, setGoalProgress] = useState<{ met: boolean, onTargetCount: number } | null>(null)
+  const [goalTarget, setGoalTarget] = useState<number>(85)
+  const [goalPeriod, setGoalPeriod] = useState<GoalPeriod>('month')
+  const [isSettingGoal, setIsSettingGoal] = useState(false)
+  const storage = useFhevmStorage()
 
   const getContract = () => {
     if (!wallet.chainId || !wallet.signer) return null
@@ -58,6 +99,29 @@ export default function Dashboard({ wallet, fhevm }: DashboardProps) {
         totalRecords: Number(recordCount),
         lastRecordTime: Number(lastTime),
       }))
+
+      try {
+        const [handle, comparedAt] = await contract.getPopulationComparison(userAddress)
+        setComparison(Number(comparedAt) > 0 ? { handle, comparedAt: Number(comparedAt) } : null)
+      } catch (error) {
+        // 旧部署没有全体均值比较，不显示该徽章
+        if (!isMissingFunctionError(error)) throw error
+      }
+
+      try {
+        const [, periodStart, periodEnd, periodRecords, encOnTargetCount, encGoalMet] =
+          await contract.getPersonalGoal(userAddress)
+        setGoal(Number(periodEnd) > 0 ? {
+          periodStart: Number(periodStart),
+          periodEnd: Number(periodEnd),
+          periodRecords: Number(periodRecords),
+          encOnTargetCount,
+          encGoalMet,
+        } : null)
+      } catch (error) {
+        // 旧部署没有个人目标，不显示该面板
+        if (!isMissingFunctionError(error)) throw error
+      }
     } catch (error) {
       console.error('Failed to load basic stats:', error)
     } finally {
@@ -71,77 +135,170 @@ export default function Dashboard({ wallet, fhevm }: DashboardProps) {
     setIsDecrypting(true)
     try {
       const contract = getContract()
-      if (!contract) return
+      const chainId = wallet.chainId
+      if (!contract || !chainId) return
 
       const userAddress = await wallet.signer.getAddress()
       const contractAddress = await contract.getAddress()
 
-      let average = null
+      let encAverage: string | null = null
+      let encTotal: string | null = null
+      let count = 0
       if (stats.totalRecords > 0) {
-        const [encTotal, count] = await contract.getAverageCalculationData(userAddress)
-        const sig = await FhevmDecryptionSignature.loadOrSign(
-          fhevm.instance,
-          [contractAddress],
-          wallet.signer,
-          storage
-        )
-        if (sig) {
-          try {
-            const totalResult = await fhevm.instance.userDecrypt(
-              [{ handle: encTotal, contractAddress }],
-              sig.privateKey,
-              sig.publicKey,
-              sig.signature,
-              sig.contractAddresses,
-              sig.userAddress,
-              sig.startTimestamp,
-              sig.durationDays
-            )
-            // 处理解密结果
-            const total = Number(totalResult[encTotal])
-            if (!isNaN(total) && total >= 0) {
-              average = total / Number(count)
-              console.log('Decrypted average:', average, 'total:', total, 'count:', count)
-            } else {
-              console.warn('Invalid decrypted total:', totalResult, 'encTotal:', encTotal)
-            }
-          } catch (error) {
-            console.error('Failed to decrypt average:', error)
-          }
+        try {
+          encAverage = await contract.getEncryptedAverage(userAddress)
+        } catch (error) {
+          if (!isMissingFunctionError(error)) throw error
+          // 旧部署没有链上均值，退回到解密总分后在前端计算
+          const [total, recordCount] = await contract.getAverageCalculationData(userAddress)
+          encTotal = total
+          count = Number(recordCount)
         }
       }
 
-      let trend = null
+      let encTrendDetails: { improved: string, declined: string, delta: string } | null = null
+      let encTrend: string | null = null
       if (stats.totalRecords >= 2) {
-        const encTrend = await contract.getScoreTrend(userAddress)
-        const sig = await FhevmDecryptionSignature.loadOrSign(
+        try {
+          const [improved, declined, delta] = await contract.getScoreTrendDetails(userAddress)
+          encTrendDetails = { improved, declined, delta }
+        } catch (error) {
+          if (!isMissingFunctionError(error)) throw error
+          // 旧部署只有回绕的无符号差值
+          encTrend = await contract.getScoreTrend(userAddress)
+        }
+      }
+
+      let encBestAndWorst: { best: string, worst: string } | null = null
+      if (stats.totalRecords > 0) {
+        try {
+          const [best, worst] = await contract.getLifetimeBestAndWorst(userAddress)
+          encBestAndWorst = { best, worst }
+        } catch (error) {
+          // 旧部署没有历史最高/最低分，不显示该面板
+          if (!isMissingFunctionError(error)) throw error
+        }
+      }
+
+      // 按里程加权的统计包含当天尚未结算的行程，因此不依赖日记录数量
+      const encWeighted = await loadWeightedAggregates(contract, userAddress)
+
+      let average: number | null = null
+      let weightedAverage: number | null = null
+      let trend: number | null = null
+      let best: number | null = null
+      let worst: number | null = null
+      const handles = [
+        encAverage,
+        encTotal,
+        encTrend,
+        ...(encTrendDetails ? [encTrendDetails.improved, encTrendDetails.declined, encTrendDetails.delta] : []),
+        ...(encBestAndWorst ? [encBestAndWorst.best, encBestAndWorst.worst] : []),
+        ...(encWeighted ? [encWeighted.weightedTotal, encWeighted.totalWeight] : []),
+        comparison?.handle ?? null,
+        goal?.encGoalMet ?? null,
+        goal?.encOnTargetCount ?? null,
+      ].filter((h): h is string => h !== null)
+      const sig = handles.length > 0
+        ? await FhevmDecryptionSignature.loadOrSign(
+            fhevm.instance,
+            [contractAddress],
+            wallet.signer,
+            storage
+          )
+        : null
+
+      if (sig) {
+        const { values, errors } = await userDecryptBatch(
           fhevm.instance,
-          [contractAddress],
-          wallet.signer,
-          storage
+          handles.map(handle => ({ handle, contractAddress })),
+          sig,
+          { cache: new FhevmDecryptedValueCache(chainId, sig) }
         )
-        if (sig) {
-          try {
-            const trendResult = await fhevm.instance.userDecrypt(
-              [{ handle: encTrend, contractAddress }],
-              sig.privateKey,
-              sig.publicKey,
-              sig.signature,
-              sig.contractAddresses,
-              sig.userAddress,
-              sig.startTimestamp,
-              sig.durationDays
-            )
-            // 处理解密结果
-            trend = Number(trendResult[encTrend])
-            if (isNaN(trend)) {
-              console.warn('Invalid decrypted trend:', trendResult, 'encTrend:', encTrend)
-              trend = null
-            } else {
-              console.log('Decrypted trend:', trend)
-            }
-          } catch (error) {
-            console.error('Failed to decrypt trend:', error)
+
+        if (encAverage !== null) {
+          // 链上已完成除法，直接使用解密后的均值
+          average = Number(values[handleKey(encAverage)])
+          if (isNaN(average)) {
+            console.warn('Invalid decrypted average:', errors[handleKey(encAverage)], 'encAverage:', encAverage)
+            average = null
+          } else {
+            console.log('Decrypted average:', average)
+          }
+        }
+
+        if (encTotal !== null) {
+          // 处理解密结果
+          const total = Number(values[handleKey(encTotal)])
+          if (!isNaN(total) && total >= 0) {
+            average = total / count
+            console.log('Decrypted average:', average, 'total:', total, 'count:', count)
+          } else {
+            console.warn('Invalid decrypted total:', errors[handleKey(encTotal)], 'encTotal:', encTotal)
+          }
+        }
+
+        if (encTrendDetails !== null) {
+          // 由加密方向标志和绝对差值还原带符号的趋势
+          const improved = values[handleKey(encTrendDetails.improved)]
+          const declined = values[handleKey(encTrendDetails.declined)]
+          const delta = Number(values[handleKey(encTrendDetails.delta)])
+          if (improved === undefined || declined === undefined || isNaN(delta)) {
+            console.warn('Invalid decrypted trend details:', errors)
+          } else {
+            trend = improved === true ? delta : declined === true ? -delta : 0
+            console.log('Decrypted trend:', trend)
+          }
+        }
+
+        if (encTrend !== null) {
+          // 处理解密结果（无符号差值按 int32 解释）
+          const raw = values[handleKey(encTrend)]
+          if (typeof raw !== 'bigint') {
+            console.warn('Invalid decrypted trend:', errors[handleKey(encTrend)], 'encTrend:', encTrend)
+          } else {
+            trend = Number(BigInt.asIntN(32, raw))
+            console.log('Decrypted trend:', trend)
+          }
+        }
+
+        if (encBestAndWorst !== null) {
+          const bestValue = values[handleKey(encBestAndWorst.best)]
+          const worstValue = values[handleKey(encBestAndWorst.worst)]
+          if (bestValue === undefined || worstValue === undefined) {
+            console.warn('Invalid decrypted best/worst:', errors)
+          } else {
+            best = Number(bestValue)
+            worst = Number(worstValue)
+          }
+        }
+
+        if (encWeighted !== null) {
+          weightedAverage = computeWeightedAverage(
+            values[handleKey(encWeighted.weightedTotal)],
+            values[handleKey(encWeighted.totalWeight)]
+          )
+          if (weightedAverage === null) {
+            console.warn('Invalid decrypted weighted aggregates:', errors)
+          }
+        }
+
+        if (comparison !== null) {
+          const above = values[handleKey(comparison.handle)]
+          if (typeof above !== 'boolean') {
+            console.warn('Invalid decrypted population comparison:', errors[handleKey(comparison.handle)])
+          } else {
+            setIsAboveAverage(above)
+          }
+        }
+
+        if (goal !== null) {
+          const met = values[handleKey(goal.encGoalMet)]
+          const onTargetCount = values[handleKey(goal.encOnTargetCount)]
+          if (typeof met !== 'boolean' || onTargetCount === undefined) {
+            console.warn('Invalid decrypted goal progress:', errors)
+          } else {
+            setGoalProgress({ met, onTargetCount: Number(onTargetCount) })
           }
         }
       }
@@ -150,7 +307,10 @@ export default function Dashboard({ wallet, fhevm }: DashboardProps) {
       setStats(prev => ({
         ...prev,
         averageScore: average,
+        weightedAverageScore: weightedAverage,
         scoreTrend: trend,
+        bestScore: best,
+        worstScore: worst,
       }))
       setIsDecrypted(true)
       console.log('Stats updated, isDecrypted:', true)
@@ -162,18 +322,105 @@ export default function Dashboard({ wallet, fhevm }: DashboardProps) {
     }
   }
 
+  // 重新与当前全体均值比较，并只解密比较结果
+  const compareWithPopulation = async () => {
+    if (!wallet.signer || !fhevm.instance) return
+
+    setIsComparing(true)
+    try {
+      const contract = getContract()
+      const chainId = wallet.chainId
+      if (!contract || !chainId) return
+
+      const tx = await contract.comparePopulationAverage()
+      await tx.wait()
+
+      const userAddress = await wallet.signer.getAddress()
+      const contractAddress = await contract.getAddress()
+      const [handle, comparedAt] = await contract.getPopulationComparison(userAddress)
+      setComparison({ handle, comparedAt: Number(comparedAt) })
+
+      const sig = await FhevmDecryptionSignature.loadOrSign(
+        fhevm.instance,
+        [contractAddress],
+        wallet.signer,
+        storage
+      )
+      if (!sig) return
+
+      const { values, errors } = await userDecryptBatch(
+        fhevm.instance,
+        [{ handle, contractAddress }],
+        sig,
+        { cache: new FhevmDecryptedValueCache(chainId, sig) }
+      )
+      const above = values[handleKey(handle)]
+      if (typeof above !== 'boolean') {
+        console.warn('Invalid decrypted population comparison:', errors[handleKey(handle)])
+        return
+      }
+      setIsAboveAverage(above)
+    } catch (error) {
+      console.error('Failed to compare with population:', error)
+      alert(`比较失败: ${error instanceof Error ? error.message : '未知错误'}`)
+    } finally {
+      setIsComparing(false)
+    }
+  }
+
+  // 加密目标值后上链，新周期从现在开始
+  const submitGoal = async () => {
+    if (!wallet.signer || !fhevm.instance) return
+
+    setIsSettingGoal(true)
+    try {
+      const contract = getContract()
+      if (!contract) return
+
+      const contractAddress = await contract.getAddress()
+      const userAddress = await wallet.signer.getAddress()
+
+      const input = fhevm.instance.createEncryptedInput(contractAddress, userAddress)
+      input.add32(goalTarget)
+      const enc = await input.encrypt()
+
+      const tx = await contract.setPersonalGoal(enc.handles[0], enc.inputProof, goalPeriodEnd(goalPeriod))
+      await tx.wait()
+
+      await loadBasicStats()
+      // 新周期还没有提交，无需解密即可知道进度为零
+      setGoalProgress({ met: false, onTargetCount: 0 })
+    } catch (error) {
+      console.error('Failed to set goal:', error)
+      alert(`设置目标失败: ${error instanceof Error ? error.message : '未知错误'}`)
+    } finally {
+      setIsSettingGoal(false)
+    }
+  }
+
   useEffect(() => {
     if (wallet.isConnected) {
       loadBasicStats()
       setIsDecrypted(false)
+      setIsAboveAverage(null)
+      setGoalProgress(null)
       setStats(prev => ({
         ...prev,
         averageScore: null,
+        weightedAverageScore: null,
         scoreTrend: null,
+        bestScore: null,
+        worstScore: null,
       }))
     }
   }, [wallet.isConnected])
 
+  const formatTrend = (trend: number) => {
+    if (trend > 0) return `▲ +${trend}`
+    if (trend < 0) return `▼ −${-trend}`
+    return '▬ 0'
+  }
+
   const formatDate = (timestamp: number) => {
     if (!timestamp) return 'NO_DATA'
     return new Date(timestamp * 1000).toLocaleString('en-US', {
@@ -203,6 +450,7 @@ export default function Dashboard({ wallet, fhevm }: DashboardProps) {
   }
 
   const contractAvailable = getContract() !== null
+  const displayedAverage = averageMode === 'weighted' ? stats.weightedAverageScore : stats.averageScore
 
   return (
     <div className="space-y-6">
@@ -354,19 +602,40 @@ export default function Dashboard({ wallet, fhevm }: DashboardProps) {
                 )}
               </div>
               <div className="space-y-2">
-                <h3 className="text-xs text-gray-500 font-orbitron tracking-wider">AVG_SCORE</h3>
+                <div className="flex items-center justify-between">
+                  <h3 className="text-xs text-gray-500 font-orbitron tracking-wider">
+                    {averageMode === 'weighted' ? 'WEIGHTED_AVG' : 'AVG_SCORE'}
+                  </h3>
+                  {/* 简单均值 / 里程加权均值切换 */}
+                  <div className="flex text-xs font-orbitron">
+                    {(['simple', 'weighted'] as AverageMode[]).map(mode => (
+                      <button
+                        key={mode}
+                        onClick={() => setAverageMode(mode)}
+                        className={`px-2 py-0.5 border border-neon-cyan/30 ${
+                          averageMode === mode ? 'bg-neon-cyan/20 text-neon-cyan' : 'text-gray-500 hover:text-gray-300'
+                        }`}
+                      >
+                        {mode === 'simple' ? 'SIMPLE' : 'BY_KM'}
+                      </button>
+                    ))}
+                  </div>
+                </div>
                 <p className="text-4xl font-bold font-orbitron text-neon-cyan">
                   {isDecrypting 
                     ? '...' 
-                    : isDecrypted && stats.averageScore !== null 
-                      ? stats.averageScore.toFixed(1) 
+                    : isDecrypted && displayedAverage !== null 
+                      ? displayedAverage.toFixed(1) 
                       : stats.totalRecords > 0
                         ? '■■■'
                         : '0'}
                 </p>
                 <div className="h-1 bg-gradient-to-r from-neon-cyan to-neon-blue opacity-30"></div>
                 <p className="text-xs text-gray-500 font-rajdhani">
-                  {isDecrypted && stats.averageScore !== null ? 'MAX_100' : stats.totalRecords > 0 ? 'ENCRYPTED' : 'NO_DATA'}
+                  {isDecrypted && displayedAverage !== null
+                    ? averageMode === 'weighted' ? 'WEIGHTED_BY_DISTANCE · PER_TRIP · INCLUDES_TODAY' : 'PER_DAY · MAX_100'
+                    : isDecrypted && averageMode === 'weighted' ? 'WEIGHTED_NOT_AVAILABLE'
+                    : stats.totalRecords > 0 ? 'ENCRYPTED' : 'NO_DATA'}
                 </p>
               </div>
             </div>
@@ -399,7 +668,7 @@ export default function Dashboard({ wallet, fhevm }: DashboardProps) {
                   {isDecrypting
                     ? '...'
                     : isDecrypted 
-                      ? stats.scoreTrend !== null ? `${stats.scoreTrend > 0 ? '+' : ''}${stats.scoreTrend}` : '--'
+                      ? stats.scoreTrend !== null ? formatTrend(stats.scoreTrend) : '--'
                       : stats.totalRecords >= 2
                         ? '■■■'
                         : '--'}
@@ -442,6 +711,132 @@ export default function Dashboard({ wallet, fhevm }: DashboardProps) {
         </div>
       )}
 
+      {/* 历史最高/最低分（包含已滚出历史窗口的记录） */}
+      {contractAvailable && isDecrypted && stats.bestScore !== null && stats.worstScore !== null && (
+        <div className="relative overflow-hidden">
+          <div className="absolute inset-0 bg-gradient-to-r from-green-600/10 to-orange-600/10"></div>
+          <div className="relative glass-morphism border-2 border-gray-600/30 p-6">
+            <h3 className="text-sm text-gray-500 font-orbitron tracking-wider mb-4">LIFETIME_RANGE</h3>
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <p className="text-4xl font-bold font-orbitron text-green-400">▲ {stats.bestScore}</p>
+                <p className="text-xs text-gray-500 font-rajdhani mt-1">ALL_TIME_BEST</p>
+              </div>
+              <div>
+                <p className="text-4xl font-bold font-orbitron text-orange-400">▼ {stats.worstScore}</p>
+                <p className="text-xs text-gray-500 font-rajdhani mt-1">ALL_TIME_WORST</p>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* 全体均值比较徽章 */}
+      {contractAvailable && stats.totalRecords > 0 && (
+        <div className="relative overflow-hidden">
+          <div className="absolute inset-0 bg-gradient-to-r from-cyan-600/10 to-purple-600/10"></div>
+          <div className="relative glass-morphism border-2 border-gray-600/30 p-6">
+            <div className="flex items-center justify-between">
+              <div>
+                <h3 className="text-sm text-gray-500 font-orbitron tracking-wider mb-2">VS_ALL_DRIVERS</h3>
+                {isAboveAverage === null ? (
+                  <span className="inline-block px-4 py-2 border border-gray-600/50 rounded font-orbitron text-gray-500 tracking-wider">
+                    {comparison ? '■■■ ENCRYPTED' : 'NOT_COMPARED'}
+                  </span>
+                ) : (
+                  <span className={`inline-block px-4 py-2 border rounded font-orbitron tracking-wider ${
+                    isAboveAverage
+                      ? 'border-green-500/50 bg-green-500/10 text-green-400'
+                      : 'border-gray-500/50 bg-gray-500/10 text-gray-300'
+                  }`}>
+                    {isAboveAverage ? '▲ ABOVE_AVERAGE' : '▬ NOT_ABOVE_AVERAGE'}
+                  </span>
+                )}
+                <p className="text-xs text-gray-500 font-rajdhani mt-2">
+                  {comparison ? `COMPARED ${formatDate(comparison.comparedAt)} · ` : ''}BOTH_AVERAGES_STAY_ENCRYPTED
+                </p>
+              </div>
+              <button
+                onClick={compareWithPopulation}
+                disabled={isComparing || !fhevm.instance || fhevm.status !== 'ready'}
+                className="px-6 py-3 bg-gradient-to-r from-neon-cyan to-neon-purple rounded font-orbitron text-white text-sm tracking-wider disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {isComparing ? 'COMPARING...' : comparison ? '◆ RECOMPARE' : '◆ COMPARE'}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* 个人目标 */}
+      {contractAvailable && (
+        <div className="relative overflow-hidden">
+          <div className="absolute inset-0 bg-gradient-to-r from-yellow-600/10 to-green-600/10"></div>
+          <div className="relative glass-morphism border-2 border-gray-600/30 p-6 space-y-4">
+            <h3 className="text-sm text-gray-500 font-orbitron tracking-wider">PRIVATE_GOAL</h3>
+            {goal && (
+              <div className="flex items-center justify-between border border-gray-600/30 p-4">
+                <div>
+                  <p className="font-orbitron text-sm text-gray-300">
+                    AVG ≥ ■■ · {formatDate(goal.periodStart)} → {formatDate(goal.periodEnd)}
+                  </p>
+                  <p className="text-xs text-gray-500 font-rajdhani mt-1">
+                    {goalProgress
+                      ? `ON_TARGET: ${goalProgress.onTargetCount} / ${goal.periodRecords} RECORDS`
+                      : `${goal.periodRecords} RECORDS_IN_PERIOD · DECRYPT_TO_VIEW_PROGRESS`}
+                    {Date.now() / 1000 >= goal.periodEnd ? ' · PERIOD_ENDED' : ''}
+                  </p>
+                </div>
+                <span className={`px-4 py-2 border rounded font-orbitron tracking-wider ${
+                  goalProgress === null
+                    ? 'border-gray-600/50 text-gray-500'
+                    : goalProgress.met && goal.periodRecords > 0
+                      ? 'border-green-500/50 bg-green-500/10 text-green-400'
+                      : 'border-yellow-500/50 bg-yellow-500/10 text-yellow-400'
+                }`}>
+                  {goalProgress === null ? '■■■' : goalProgress.met && goal.periodRecords > 0 ? '✓ GOAL_MET' : '… NOT_YET'}
+                </span>
+              </div>
+            )}
+            <div className="flex flex-col md:flex-row md:items-end gap-4">
+              <div>
+                <label className="block text-xs font-orbitron text-gray-400 tracking-wider mb-2">TARGET_AVG [0-100]</label>
+                <input
+                  type="number"
+                  min="0"
+                  max="100"
+                  value={goalTarget}
+                  onChange={(e) => setGoalTarget(Number(e.target.value))}
+                  className="w-32 px-4 py-3 bg-cyber-card border-2 border-gray-600/30 rounded font-orbitron text-gray-200 focus:outline-none"
+                />
+              </div>
+              <div>
+                <label className="block text-xs font-orbitron text-gray-400 tracking-wider mb-2">PERIOD</label>
+                <select
+                  value={goalPeriod}
+                  onChange={(e) => setGoalPeriod(e.target.value as GoalPeriod)}
+                  className="px-4 py-3 bg-cyber-card border-2 border-gray-600/30 rounded font-orbitron text-sm text-gray-200 focus:outline-none"
+                >
+                  <option value="week">THIS_WEEK</option>
+                  <option value="month">THIS_MONTH</option>
+                  <option value="quarter">THIS_QUARTER</option>
+                </select>
+              </div>
+              <button
+                onClick={submitGoal}
+                disabled={isSettingGoal || !fhevm.instance || fhevm.status !== 'ready' || goalTarget < 0 || goalTarget > 100}
+                className="px-6 py-3 bg-gradient-to-r from-yellow-500 to-green-500 rounded font-orbitron text-white text-sm tracking-wider disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {isSettingGoal ? 'ENCRYPTING...' : goal ? '◆ REPLACE_GOAL' : '◆ SET_GOAL'}
+              </button>
+            </div>
+            <p className="text-xs text-gray-500 font-rajdhani">
+              · TARGET_IS_ENCRYPTED_ON_CHAIN · ONLY_YOU_CAN_DECRYPT_PROGRESS
+            </p>
+          </div>
+        </div>
+      )}
+
       {/* 快捷操作按钮 */}
       {contractAvailable && (
         <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
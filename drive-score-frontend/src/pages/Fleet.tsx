@@ -0,0 +1,590 @@
+import { useState, useEffect } from 'react'
+import { ethers } from 'ethers'
+import { DriveScoreLoggerABI, DriveScoreLoggerAddresses } from '../abi'
+import { decodeContractError } from '../lib/contractErrors'
+import { FhevmDecryptionSignature } from '../fhevm/FhevmDecryptionSignature'
+import { useFhevmStorage } from '../fhevm/FhevmStorageContext'
+import { handleKey, userDecryptBatch } from '../fhevm/FhevmBatchDecryptor'
+import { FhevmDecryptedValueCache } from '../fhevm/FhevmDecryptedValueCache'
+
+interface FleetProps {
+  wallet: {
+    provider: any
+    chainId: number | undefined
+    accounts: string[]
+    signer: any
+    isConnected: boolean
+  }
+  fhevm: {
+    instance: any
+    status: string
+    error: Error | undefined
+  }
+}
+
+interface FleetInfo {
+  id: bigint
+  manager: string
+  name: string
+  createdAt: number
+  memberCount: number
+  totalSubmissions: number
+  // 本轮（上次发布之后）的发布进度；经理只能解密发布时的快照
+  publishedAt: number
+  roundMembers: number
+  roundSubmissions: number
+}
+
+interface PublishRules {
+  interval: number
+  minMembers: number
+  minSubmissions: number
+}
+
+interface FleetMember {
+  address: string
+  streak: number
+  lastRecordTime: number
+}
+
+const SECONDS_PER_DAY = 86400
+
+/**
+ * 按合约的自然日规则推算当前连续天数：尚未结算的行程日紧接最近一条记录时计为连续，
+ * 否则从 1 重新开始；最近有驾驶的日期早于昨天（区块时间）时连续天数已中断。
+ */
+function currentStreak(
+  continuousDays: number,
+  lastRecordTime: number,
+  pendingTrips: { day: number, tripCount: number },
+  today: number
+): number {
+  let streak = lastRecordTime > 0 ? continuousDays : 0
+  let lastActiveDay = lastRecordTime > 0 ? Math.floor(lastRecordTime / SECONDS_PER_DAY) : null
+  if (pendingTrips.tripCount > 0 && pendingTrips.day !== lastActiveDay) {
+    streak = lastActiveDay !== null && pendingTrips.day === lastActiveDay + 1 ? streak + 1 : 1
+    lastActiveDay = pendingTrips.day
+  }
+  return lastActiveDay !== null && lastActiveDay >= today - 1 ? streak : 0
+}
+
+export default function Fleet({ wallet, fhevm }: FleetProps) {
+  const [managedFleets, setManagedFleets] = useState<FleetInfo[]>([])
+  const [selectedFleetId, setSelectedFleetId] = useState<bigint | null>(null)
+  const [members, setMembers] = useState<FleetMember[]>([])
+  const [fleetAverage, setFleetAverage] = useState<number | null>(null)
+  const [publishRules, setPublishRules] = useState<PublishRules | null>(null)
+  const [chainTime, setChainTime] = useState(0)
+  const [myFleet, setMyFleet] = useState<FleetInfo | null>(null)
+  const [newFleetName, setNewFleetName] = useState('')
+  const [joinFleetId, setJoinFleetId] = useState('')
+  const [isLoading, setIsLoading] = useState(false)
+  const [isDecrypting, setIsDecrypting] = useState(false)
+  const [pendingAction, setPendingAction] = useState<string | null>(null)
+  const [message, setMessage] = useState<{ type: 'success' | 'error' | 'info', text: string } | null>(null)
+  const storage = useFhevmStorage()
+
+  const getContract = () => {
+    if (!wallet.chainId || !wallet.signer) return null
+    const chainIdStr = wallet.chainId.toString()
+    const address = DriveScoreLoggerAddresses[chainIdStr as keyof typeof DriveScoreLoggerAddresses]
+    if (!address || address.address === ethers.ZeroAddress) return null
+    return new ethers.Contract(address.address, DriveScoreLoggerABI.abi, wallet.signer)
+  }
+
+  const loadFleet = async (contract: ethers.Contract, fleetId: bigint): Promise<FleetInfo> => {
+    const [[manager, name, createdAt, memberCount, totalSubmissions], [roundMembers, roundSubmissions, publishedAt]] =
+      await Promise.all([contract.getFleet(fleetId), contract.getFleetPublishProgress(fleetId)])
+    return {
+      id: fleetId,
+      manager,
+      name,
+      createdAt: Number(createdAt),
+      memberCount: Number(memberCount),
+      totalSubmissions: Number(totalSubmissions),
+      publishedAt: Number(publishedAt),
+      roundMembers: Number(roundMembers),
+      roundSubmissions: Number(roundSubmissions),
+    }
+  }
+
+  const loadFleetData = async () => {
+    if (!wallet.signer) return
+
+    setIsLoading(true)
+    try {
+      const contract = getContract()
+      if (!contract) return
+
+      const userAddress = await wallet.signer.getAddress()
+
+      const [interval, minMembers, minSubmissions, block] = await Promise.all([
+        contract.FLEET_PUBLISH_INTERVAL(),
+        contract.MIN_FLEET_PUBLISH_MEMBERS(),
+        contract.MIN_FLEET_PUBLISH_SUBMISSIONS(),
+        // 以链上时间判断发布间隔（本地链的时间可能与浏览器时间不同）
+        wallet.signer.provider.getBlock('latest'),
+      ])
+      setPublishRules({ interval: Number(interval), minMembers: Number(minMembers), minSubmissions: Number(minSubmissions) })
+      setChainTime(block ? block.timestamp : Math.floor(Date.now() / 1000))
+
+      const fleetIds: bigint[] = [...(await contract.getManagedFleetIds(userAddress))]
+      const fleets = await Promise.all(fleetIds.map(id => loadFleet(contract, id)))
+      setManagedFleets(fleets)
+      if (selectedFleetId === null && fleets.length > 0) {
+        setSelectedFleetId(fleets[0].id)
+      }
+
+      const myFleetId: bigint = await contract.driverFleetIds(userAddress)
+      setMyFleet(myFleetId === 0n ? null : await loadFleet(contract, myFleetId))
+    } catch (error) {
+      console.error('Failed to load fleet data:', error)
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  // 成员的连续天数、最后提交时间和未结算的行程日是明文统计，经理无需解密即可查看参与情况
+  const loadMembers = async (fleetId: bigint) => {
+    try {
+      const contract = getContract()
+      if (!contract) return
+
+      const [addresses, block]: [string[], ethers.Block | null] = await Promise.all([
+        contract.getFleetMembers(fleetId),
+        wallet.signer.provider.getBlock('latest'),
+      ])
+      const today = Math.floor((block ? block.timestamp : Date.now() / 1000) / SECONDS_PER_DAY)
+      const memberStats = await Promise.all([...addresses].map(async address => {
+        const [[, continuousDays, lastRecordTime], [pendingDay, pendingTripCount]] = await Promise.all([
+          contract.getUserStatistics(address),
+          contract.getPendingTrips(address),
+        ])
+        const last = Number(lastRecordTime)
+        return {
+          address,
+          streak: currentStreak(
+            Number(continuousDays),
+            last,
+            { day: Number(pendingDay), tripCount: Number(pendingTripCount) },
+            today
+          ),
+          lastRecordTime: last,
+        }
+      }))
+      setMembers(memberStats.sort((a, b) => b.streak - a.streak))
+    } catch (error) {
+      console.error('Failed to load fleet members:', error)
+    }
+  }
+
+  const decryptFleetAverage = async () => {
+    const fleet = managedFleets.find(f => f.id === selectedFleetId)
+    if (!wallet.signer || !fhevm.instance || !fleet || fleet.publishedAt === 0) return
+
+    setIsDecrypting(true)
+    try {
+      const contract = getContract()
+      const chainId = wallet.chainId
+      if (!contract || !chainId) return
+
+      const contractAddress = await contract.getAddress()
+      const [, encAverage] = await contract.getFleetEncryptedAggregates(fleet.id)
+
+      const sig = await FhevmDecryptionSignature.loadOrSign(
+        fhevm.instance,
+        [contractAddress],
+        wallet.signer,
+        storage
+      )
+      if (!sig) return
+
+      const { values, errors } = await userDecryptBatch(
+        fhevm.instance,
+        [{ handle: encAverage, contractAddress }],
+        sig,
+        { cache: new FhevmDecryptedValueCache(chainId, sig) }
+      )
+
+      const value = values[handleKey(encAverage)]
+      if (value === undefined) {
+        console.error('Decrypt error for fleet average:', errors[handleKey(encAverage)])
+        setMessage({ type: 'error', text: 'DECRYPTION_FAILED' })
+        return
+      }
+      setFleetAverage(Number(value))
+    } catch (error: any) {
+      console.error('Failed to decrypt fleet average:', error)
+      setMessage({ type: 'error', text: `ERROR: ${decodeContractError(error).text}` })
+    } finally {
+      setIsDecrypting(false)
+    }
+  }
+
+  const sendTransaction = async (
+    action: string,
+    send: (contract: ethers.Contract) => Promise<any>,
+    successText: string
+  ) => {
+    setPendingAction(action)
+    try {
+      const contract = getContract()
+      if (!contract) return false
+
+      setMessage({ type: 'info', text: 'SUBMITTING_TRANSACTION...' })
+      const tx = await send(contract)
+      await tx.wait()
+
+      setMessage({ type: 'success', text: successText })
+      await loadFleetData()
+      if (selectedFleetId !== null) {
+        await loadMembers(selectedFleetId)
+      }
+      return true
+    } catch (error: any) {
+      console.error('Fleet transaction error:', error)
+      setMessage({ type: 'error', text: `ERROR: ${decodeContractError(error).text}` })
+      return false
+    } finally {
+      setPendingAction(null)
+    }
+  }
+
+  const createFleet = async () => {
+    const name = newFleetName.trim()
+    if (name === '') return
+    if (await sendTransaction('create', contract => contract.createFleet(name), `✓ FLEET_CREATED: ${name}`)) {
+      setNewFleetName('')
+    }
+  }
+
+  const joinFleet = async () => {
+    if (!/^\d+$/.test(joinFleetId) || BigInt(joinFleetId) === 0n) {
+      setMessage({ type: 'error', text: 'INVALID_FLEET_ID' })
+      return
+    }
+    if (await sendTransaction('join', contract => contract.joinFleet(BigInt(joinFleetId)), '✓ FLEET_JOINED | FUTURE_SCORES_COUNT_TOWARD_FLEET')) {
+      setJoinFleetId('')
+    }
+  }
+
+  const publishSnapshot = async () => {
+    if (selectedFleetId === null) return
+    if (await sendTransaction('publish', contract => contract.publishFleetAggregates(selectedFleetId), '✓ SNAPSHOT_PUBLISHED | READY_TO_DECRYPT')) {
+      setFleetAverage(null)
+    }
+  }
+
+  const leaveFleet = async () => {
+    const userAddress = await wallet.signer.getAddress()
+    await sendTransaction('leave', contract => contract.removeFleetMember(userAddress), '✓ FLEET_LEFT')
+  }
+
+  const removeMember = (member: string) => sendTransaction(
+    member,
+    contract => contract.removeFleetMember(member),
+    '✓ MEMBER_REMOVED'
+  )
+
+  useEffect(() => {
+    if (wallet.isConnected) {
+      loadFleetData()
+    }
+  }, [wallet.isConnected])
+
+  useEffect(() => {
+    setFleetAverage(null)
+    setMembers([])
+    if (selectedFleetId !== null) {
+      loadMembers(selectedFleetId)
+    }
+  }, [selectedFleetId])
+
+  const shortAddress = (address: string) => `${address.slice(0, 6)}...${address.slice(-4)}`
+
+  const formatDate = (timestamp: number) => {
+    if (timestamp === 0) return 'NEVER'
+    return new Date(timestamp * 1000).toLocaleString('en-US', {
+      year: '2-digit',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+    }).replace(/\//g, '.').replace(', ', '_')
+  }
+
+  if (!wallet.isConnected) {
+    return (
+      <div className="flex items-center justify-center h-[600px]">
+        <div className="text-center">
+          <div className="relative inline-block mb-8">
+            <div className="absolute inset-0 bg-gradient-to-r from-neon-purple to-neon-cyan blur-2xl opacity-50 animate-pulse"></div>
+            <div className="relative text-8xl">🔒</div>
+          </div>
+          <h2 className="text-3xl font-bold font-orbitron text-transparent bg-gradient-to-r from-neon-purple via-neon-pink to-neon-cyan bg-clip-text mb-4">
+            ACCESS_DENIED
+          </h2>
+          <p className="text-gray-400 font-rajdhani text-lg tracking-wider">CONNECT_WALLET_TO_ACCESS_FLEET</p>
+        </div>
+      </div>
+    )
+  }
+
+  const contractAvailable = getContract() !== null
+  const selectedFleet = managedFleets.find(f => f.id === selectedFleetId) ?? null
+  const activeMembers = members.filter(m => m.streak > 0).length
+  const nextPublishTime = selectedFleet && publishRules && selectedFleet.publishedAt > 0
+    ? selectedFleet.publishedAt + publishRules.interval
+    : 0
+  const canPublish = selectedFleet !== null && publishRules !== null &&
+    chainTime >= nextPublishTime &&
+    selectedFleet.roundMembers >= publishRules.minMembers &&
+    selectedFleet.roundSubmissions >= publishRules.minSubmissions
+
+  return (
+    <div className="max-w-4xl mx-auto space-y-6">
+      {/* 页面标题 */}
+      <div className="relative overflow-hidden">
+        <div className="absolute inset-0 bg-gradient-to-r from-teal-600/20 via-cyan-600/20 to-blue-600/20"></div>
+        <div className="scan-line absolute inset-0"></div>
+        <div className="relative glass-morphism border-2 border-teal-500/30 p-8">
+          <div className="flex items-center space-x-4">
+            <div className="relative">
+              <div className="absolute inset-0 bg-teal-400 blur-xl opacity-50"></div>
+              <div className="relative w-16 h-16 bg-gradient-to-br from-teal-400 to-cyan-500 rounded flex items-center justify-center text-4xl">
+                ▣
+              </div>
+            </div>
+            <div>
+              <h1 className="text-3xl font-bold font-orbitron text-transparent bg-gradient-to-r from-teal-400 to-cyan-400 bg-clip-text">
+                FLEET_COMMAND
+              </h1>
+              <p className="text-gray-400 font-rajdhani tracking-wide">ENCRYPTED_FLEET_AVERAGE · INDIVIDUAL_SCORES_STAY_PRIVATE</p>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {!contractAvailable && (
+        <div className="relative overflow-hidden">
+          <div className="absolute inset-0 bg-gradient-to-r from-red-600/10 to-orange-600/10 animate-pulse"></div>
+          <div className="relative glass-morphism border-2 border-red-500/50 p-6">
+            <div className="flex items-start space-x-4">
+              <div className="text-4xl">⚠</div>
+              <div>
+                <h3 className="text-xl font-bold font-orbitron text-red-400 mb-2">CONTRACT_NOT_DEPLOYED</h3>
+                <p className="text-red-300/80 font-rajdhani">CHAIN_ID: {wallet.chainId || 'UNKNOWN'}</p>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* 经理视角：车队看板 */}
+      {contractAvailable && selectedFleet && (
+        <div className="relative overflow-hidden">
+          <div className="absolute inset-0 bg-gradient-to-br from-teal-900/10 via-cyan-900/10 to-blue-900/10"></div>
+          <div className="scan-line absolute inset-0"></div>
+          <div className="relative glass-morphism border-2 border-teal-500/30 p-8 space-y-6">
+            <div className="flex items-center justify-between">
+              <div>
+                <h3 className="font-orbitron text-teal-400 tracking-wider">{selectedFleet.name}</h3>
+                <p className="text-xs text-gray-500 font-rajdhani">FLEET_ID: {selectedFleet.id.toString()} · SHARE_WITH_DRIVERS_TO_JOIN</p>
+              </div>
+              {managedFleets.length > 1 && (
+                <select
+                  value={selectedFleet.id.toString()}
+                  onChange={(e) => setSelectedFleetId(BigInt(e.target.value))}
+                  className="px-3 py-2 bg-cyber-card border border-teal-500/30 rounded font-orbitron text-xs text-gray-200 focus:outline-none"
+                >
+                  {managedFleets.map(f => (
+                    <option key={f.id.toString()} value={f.id.toString()}>#{f.id.toString()} {f.name}</option>
+                  ))}
+                </select>
+              )}
+            </div>
+
+            <div className="grid grid-cols-3 gap-4">
+              <div className="border border-gray-600/30 p-4">
+                <div className="text-xs text-gray-500 font-orbitron tracking-wider mb-2">MEMBERS</div>
+                <div className="text-3xl font-bold font-orbitron text-cyan-400">{selectedFleet.memberCount}</div>
+              </div>
+              <div className="border border-gray-600/30 p-4">
+                <div className="text-xs text-gray-500 font-orbitron tracking-wider mb-2">ACTIVE_STREAKS</div>
+                <div className="text-3xl font-bold font-orbitron text-green-400">{activeMembers}</div>
+              </div>
+              <div className="border border-gray-600/30 p-4">
+                <div className="text-xs text-gray-500 font-orbitron tracking-wider mb-2">SUBMISSIONS</div>
+                <div className="text-3xl font-bold font-orbitron text-blue-400">{selectedFleet.totalSubmissions}</div>
+              </div>
+            </div>
+
+            <div className="flex items-center justify-between border border-teal-500/30 p-4">
+              <div>
+                <div className="text-xs text-gray-500 font-orbitron tracking-wider mb-1">FLEET_AVERAGE</div>
+                <div className="text-4xl font-bold font-orbitron text-teal-400">
+                  {fleetAverage !== null ? fleetAverage : '■■■'}
+                </div>
+                <div className="text-xs text-gray-500 font-rajdhani">SNAPSHOT: {formatDate(selectedFleet.publishedAt)}</div>
+              </div>
+              <button
+                onClick={decryptFleetAverage}
+                disabled={isDecrypting || fhevm.status !== 'ready' || selectedFleet.publishedAt === 0}
+                className="px-6 py-3 bg-gradient-to-r from-teal-500 to-cyan-500 rounded font-orbitron text-white text-sm tracking-wider disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {isDecrypting ? 'DECRYPTING...' : selectedFleet.publishedAt === 0 ? 'NOT_PUBLISHED' : '◆ DECRYPT_AVERAGE'}
+              </button>
+            </div>
+
+            {/* 快照发布：本轮成员数和提交次数达到门槛且距上次发布满间隔后才能发布，避免用差值还原单条评分 */}
+            {publishRules && (
+              <div className="flex items-center justify-between border border-gray-600/30 p-4">
+                <div className="text-xs text-gray-500 font-rajdhani tracking-wider space-y-1">
+                  <div>
+                    THIS_ROUND: {selectedFleet.roundMembers}/{publishRules.minMembers} MEMBERS · {selectedFleet.roundSubmissions}/{publishRules.minSubmissions} SUBMISSIONS
+                  </div>
+                  <div>NEXT_PUBLISH: {nextPublishTime === 0 ? 'WHEN_THRESHOLDS_MET' : formatDate(nextPublishTime)}</div>
+                </div>
+                <button
+                  onClick={publishSnapshot}
+                  disabled={pendingAction !== null || !canPublish}
+                  className="px-4 py-2 rounded border bg-teal-500/10 border-teal-500/30 hover:bg-teal-500/20 transition-colors text-xs text-teal-400 font-orbitron disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {pendingAction === 'publish' ? 'PUBLISHING...' : '◆ PUBLISH_SNAPSHOT'}
+                </button>
+              </div>
+            )}
+
+            <div>
+              <h4 className="text-sm text-gray-500 font-orbitron tracking-wider mb-3">PARTICIPATION</h4>
+              {members.length === 0 ? (
+                <p className="text-gray-500 font-rajdhani tracking-wider">NO_MEMBERS</p>
+              ) : (
+                <div className="space-y-2">
+                  {members.map(member => (
+                    <div key={member.address} className="flex items-center justify-between border border-gray-600/30 p-3">
+                      <div>
+                        <div className="font-orbitron text-sm text-gray-300">{shortAddress(member.address)}</div>
+                        <div className="text-xs text-gray-500 font-rajdhani">LAST: {formatDate(member.lastRecordTime)}</div>
+                      </div>
+                      <div className="flex items-center space-x-4">
+                        <span className={`font-orbitron text-sm ${member.streak > 0 ? 'text-green-400' : 'text-gray-500'}`}>
+                          {member.streak}D_STREAK
+                        </span>
+                        <button
+                          onClick={() => removeMember(member.address)}
+                          disabled={pendingAction !== null}
+                          className="px-3 py-1 rounded border border-red-500/30 text-xs text-red-400 font-orbitron disabled:opacity-50"
+                        >
+                          {pendingAction === member.address ? 'REMOVING...' : 'REMOVE'}
+                        </button>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* 经理视角：创建车队 */}
+      {contractAvailable && (
+        <div className="relative overflow-hidden">
+          <div className="absolute inset-0 bg-gradient-to-r from-gray-800/20 to-gray-700/20"></div>
+          <div className="relative glass-morphism border-2 border-gray-600/30 p-6 space-y-4">
+            <h3 className="text-sm text-gray-500 font-orbitron tracking-wider">CREATE_FLEET</h3>
+            <input
+              type="text"
+              value={newFleetName}
+              maxLength={64}
+              onChange={(e) => setNewFleetName(e.target.value)}
+              placeholder="FLEET_NAME"
+              className="w-full px-4 py-3 bg-cyber-card border-2 border-gray-600/30 rounded font-orbitron text-sm text-gray-200 focus:outline-none"
+            />
+            <button
+              onClick={createFleet}
+              disabled={pendingAction !== null || newFleetName.trim() === ''}
+              className="px-6 py-3 bg-gradient-to-r from-teal-500 to-cyan-500 rounded font-orbitron text-white text-sm tracking-wider disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {pendingAction === 'create' ? 'CREATING...' : '▣ CREATE_FLEET'}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* 司机视角：我的车队 */}
+      {contractAvailable && (
+        <div className="relative overflow-hidden">
+          <div className="absolute inset-0 bg-gradient-to-br from-purple-900/10 via-pink-900/10 to-cyan-900/10"></div>
+          <div className="relative glass-morphism border-2 border-neon-purple/30 p-6 space-y-4">
+            <h3 className="text-sm text-gray-500 font-orbitron tracking-wider">MY_FLEET</h3>
+            {isLoading ? (
+              <div className="w-6 h-6 border-2 border-neon-purple border-t-transparent rounded-full animate-spin"></div>
+            ) : myFleet ? (
+              <div className="flex items-center justify-between border border-gray-600/30 p-4">
+                <div>
+                  <div className="font-orbitron text-sm text-gray-300">#{myFleet.id.toString()} {myFleet.name}</div>
+                  <div className="text-xs text-gray-500 font-rajdhani">
+                    MANAGER: {shortAddress(myFleet.manager)} · {myFleet.memberCount} MEMBERS
+                  </div>
+                </div>
+                <button
+                  onClick={leaveFleet}
+                  disabled={pendingAction !== null}
+                  className="px-4 py-2 rounded border bg-red-500/10 border-red-500/30 hover:bg-red-500/20 transition-colors text-xs text-red-400 font-orbitron disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {pendingAction === 'leave' ? 'LEAVING...' : 'LEAVE'}
+                </button>
+              </div>
+            ) : (
+              <div className="flex items-center space-x-3">
+                <input
+                  type="text"
+                  value={joinFleetId}
+                  onChange={(e) => setJoinFleetId(e.target.value.trim())}
+                  placeholder="FLEET_ID"
+                  className="flex-1 px-4 py-3 bg-cyber-card border-2 border-neon-purple/30 rounded font-orbitron text-sm text-gray-200 focus:border-neon-purple/50 focus:outline-none"
+                />
+                <button
+                  onClick={joinFleet}
+                  disabled={pendingAction !== null || joinFleetId === ''}
+                  className="px-6 py-3 bg-gradient-to-r from-neon-purple to-neon-pink rounded font-orbitron text-white text-sm tracking-wider disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {pendingAction === 'join' ? 'JOINING...' : '◆ JOIN'}
+                </button>
+              </div>
+            )}
+            <p className="text-xs text-gray-500 font-rajdhani">
+              · MANAGER_SEES_PERIODIC_FLEET_AVERAGE_ONLY · SCORES_BEFORE_JOINING_NOT_COUNTED
+            </p>
+          </div>
+        </div>
+      )}
+
+      {/* 消息提示 */}
+      {message && (
+        <div className={`relative overflow-hidden ${
+          message.type === 'success' ? 'border-2 border-green-500/50' :
+          message.type === 'error' ? 'border-2 border-red-500/50' :
+          'border-2 border-cyan-500/50'
+        }`}>
+          <div className={`absolute inset-0 ${
+            message.type === 'success' ? 'bg-green-600/10' :
+            message.type === 'error' ? 'bg-red-600/10' :
+            'bg-cyan-600/10'
+          } animate-pulse`}></div>
+          <div className="relative glass-morphism p-6">
+            <p className={`font-rajdhani tracking-wider ${
+              message.type === 'success' ? 'text-green-300' :
+              message.type === 'error' ? 'text-red-300' :
+              'text-cyan-300'
+            }`}>
+              {message.text}
+            </p>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
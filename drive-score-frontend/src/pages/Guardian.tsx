@@ -0,0 +1,353 @@
+import { useState, useEffect } from 'react'
+import { Link, useParams } from 'react-router-dom'
+import { ethers } from 'ethers'
+import { DriveScoreLoggerABI, DriveScoreLoggerAddresses } from '../abi'
+import { decodeContractError } from '../lib/contractErrors'
+import History from './History'
+import Analytics from './Analytics'
+
+interface GuardianProps {
+  wallet: {
+    provider: any
+    chainId: number | undefined
+    accounts: string[]
+    signer: any
+    isConnected: boolean
+  }
+  fhevm: {
+    instance: any
+    status: string
+    error: Error | undefined
+  }
+}
+
+export default function Guardian({ wallet }: GuardianProps) {
+  const [guardian, setGuardian] = useState<string | null>(null)
+  const [pendingGuardian, setPendingGuardian] = useState<string | null>(null)
+  const [newGuardian, setNewGuardian] = useState('')
+  const [pendingRequests, setPendingRequests] = useState<string[]>([])
+  const [wards, setWards] = useState<string[]>([])
+  const [isLoading, setIsLoading] = useState(false)
+  const [pendingAction, setPendingAction] = useState<string | null>(null)
+  const [message, setMessage] = useState<{ type: 'success' | 'error' | 'info', text: string } | null>(null)
+
+  const getContract = () => {
+    if (!wallet.chainId || !wallet.signer) return null
+    const chainIdStr = wallet.chainId.toString()
+    const address = DriveScoreLoggerAddresses[chainIdStr as keyof typeof DriveScoreLoggerAddresses]
+    if (!address || address.address === ethers.ZeroAddress) return null
+    return new ethers.Contract(address.address, DriveScoreLoggerABI.abi, wallet.signer)
+  }
+
+  const loadGuardianData = async () => {
+    if (!wallet.signer) return
+
+    setIsLoading(true)
+    try {
+      const contract = getContract()
+      if (!contract) return
+
+      const userAddress = await wallet.signer.getAddress()
+
+      // 司机视角：自己的监护人
+      const [currentGuardian, proposedGuardian] = await contract.getGuardianInfo(userAddress)
+      setGuardian(currentGuardian === ethers.ZeroAddress ? null : currentGuardian)
+      setPendingGuardian(proposedGuardian === ethers.ZeroAddress ? null : proposedGuardian)
+
+      // 监护人视角：已接受的被监护司机
+      setWards([...(await contract.getWards(userAddress))])
+
+      // 待接受的申请：事件只作索引，以合约当前状态为准（可能已被取消或改提他人）
+      const events = await contract.queryFilter(contract.filters.GuardianProposed(null, userAddress))
+      const drivers = [...new Set(events.map(e => (e as ethers.EventLog).args.driver as string))]
+      const stillPending = await Promise.all(drivers.map(async driver => {
+        const [, proposed] = await contract.getGuardianInfo(driver)
+        return proposed.toLowerCase() === userAddress.toLowerCase()
+      }))
+      setPendingRequests(drivers.filter((_, i) => stillPending[i]))
+    } catch (error) {
+      console.error('Failed to load guardian data:', error)
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const sendTransaction = async (
+    action: string,
+    send: (contract: ethers.Contract) => Promise<any>,
+    successText: string
+  ) => {
+    setPendingAction(action)
+    try {
+      const contract = getContract()
+      if (!contract) return
+
+      setMessage({ type: 'info', text: 'SUBMITTING_TRANSACTION...' })
+      const tx = await send(contract)
+      await tx.wait()
+
+      setMessage({ type: 'success', text: successText })
+      await loadGuardianData()
+    } catch (error: any) {
+      console.error('Guardian transaction error:', error)
+      setMessage({ type: 'error', text: `ERROR: ${decodeContractError(error).text}` })
+    } finally {
+      setPendingAction(null)
+    }
+  }
+
+  const proposeGuardian = async () => {
+    if (!ethers.isAddress(newGuardian)) {
+      setMessage({ type: 'error', text: 'INVALID_ADDRESS' })
+      return
+    }
+    await sendTransaction(
+      'propose',
+      contract => contract.proposeGuardian(newGuardian),
+      '✓ GUARDIAN_PROPOSED | AWAITING_ACCEPTANCE'
+    )
+    setNewGuardian('')
+  }
+
+  const removeMyGuardian = async () => {
+    const userAddress = await wallet.signer.getAddress()
+    await sendTransaction(
+      'remove-own',
+      contract => contract.removeGuardian(userAddress),
+      guardian ? '✓ GUARDIAN_REMOVED | FUTURE_SCORES_PRIVATE' : '✓ PROPOSAL_CANCELLED'
+    )
+  }
+
+  const acceptWard = (driver: string) => sendTransaction(
+    driver,
+    contract => contract.acceptGuardianship(driver),
+    '✓ GUARDIANSHIP_ACCEPTED | FULL_HISTORY_SHARED'
+  )
+
+  const removeWard = (driver: string) => sendTransaction(
+    driver,
+    contract => contract.removeGuardian(driver),
+    '✓ WARD_REMOVED'
+  )
+
+  useEffect(() => {
+    if (wallet.isConnected) {
+      loadGuardianData()
+    }
+  }, [wallet.isConnected])
+
+  const shortAddress = (address: string) => `${address.slice(0, 6)}...${address.slice(-4)}`
+
+  if (!wallet.isConnected) {
+    return (
+      <div className="flex items-center justify-center h-[600px]">
+        <div className="text-center">
+          <div className="relative inline-block mb-8">
+            <div className="absolute inset-0 bg-gradient-to-r from-neon-purple to-neon-cyan blur-2xl opacity-50 animate-pulse"></div>
+            <div className="relative text-8xl">🔒</div>
+          </div>
+          <h2 className="text-3xl font-bold font-orbitron text-transparent bg-gradient-to-r from-neon-purple via-neon-pink to-neon-cyan bg-clip-text mb-4">
+            ACCESS_DENIED
+          </h2>
+          <p className="text-gray-400 font-rajdhani text-lg tracking-wider">CONNECT_WALLET_TO_MANAGE_GUARDIANS</p>
+        </div>
+      </div>
+    )
+  }
+
+  const contractAvailable = getContract() !== null
+
+  return (
+    <div className="max-w-3xl mx-auto space-y-6">
+      {/* 页面标题 */}
+      <div className="relative overflow-hidden">
+        <div className="absolute inset-0 bg-gradient-to-r from-blue-600/20 via-indigo-600/20 to-purple-600/20"></div>
+        <div className="scan-line absolute inset-0"></div>
+        <div className="relative glass-morphism border-2 border-blue-500/30 p-8">
+          <div className="flex items-center space-x-4">
+            <div className="relative">
+              <div className="absolute inset-0 bg-blue-400 blur-xl opacity-50"></div>
+              <div className="relative w-16 h-16 bg-gradient-to-br from-blue-400 to-indigo-500 rounded flex items-center justify-center text-4xl">
+                ⛨
+              </div>
+            </div>
+            <div>
+              <h1 className="text-3xl font-bold font-orbitron text-transparent bg-gradient-to-r from-blue-400 to-indigo-400 bg-clip-text">
+                GUARDIAN_MODE
+              </h1>
+              <p className="text-gray-400 font-rajdhani tracking-wide">FULL_HISTORY_SHARING · DRIVER_PROPOSES · GUARDIAN_ACCEPTS</p>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {!contractAvailable && (
+        <div className="relative overflow-hidden">
+          <div className="absolute inset-0 bg-gradient-to-r from-red-600/10 to-orange-600/10 animate-pulse"></div>
+          <div className="relative glass-morphism border-2 border-red-500/50 p-6">
+            <div className="flex items-start space-x-4">
+              <div className="text-4xl">⚠</div>
+              <div>
+                <h3 className="text-xl font-bold font-orbitron text-red-400 mb-2">CONTRACT_NOT_DEPLOYED</h3>
+                <p className="text-red-300/80 font-rajdhani">CHAIN_ID: {wallet.chainId || 'UNKNOWN'}</p>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* 司机视角：我的监护人 */}
+      {contractAvailable && (
+        <div className="relative overflow-hidden">
+          <div className="absolute inset-0 bg-gradient-to-br from-purple-900/10 via-indigo-900/10 to-blue-900/10"></div>
+          <div className="scan-line absolute inset-0"></div>
+          <div className="relative glass-morphism border-2 border-neon-purple/30 p-8 space-y-4">
+            <h3 className="text-sm font-orbitron text-gray-400 tracking-wider">MY_GUARDIAN</h3>
+            {isLoading ? (
+              <div className="w-6 h-6 border-2 border-neon-purple border-t-transparent rounded-full animate-spin"></div>
+            ) : guardian || pendingGuardian ? (
+              <div className="flex items-center justify-between border border-gray-600/30 p-4">
+                <div>
+                  <div className="font-orbitron text-sm text-gray-300">{shortAddress((guardian ?? pendingGuardian)!)}</div>
+                  <div className={`text-xs font-rajdhani ${guardian ? 'text-green-400' : 'text-yellow-400'}`}>
+                    {guardian ? 'ACTIVE · CAN_DECRYPT_FULL_HISTORY' : 'PENDING_ACCEPTANCE'}
+                  </div>
+                </div>
+                <button
+                  onClick={removeMyGuardian}
+                  disabled={pendingAction !== null}
+                  className="px-4 py-2 rounded border bg-red-500/10 border-red-500/30 hover:bg-red-500/20 transition-colors text-xs text-red-400 font-orbitron disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {pendingAction === 'remove-own' ? 'REMOVING...' : guardian ? 'REMOVE' : 'CANCEL'}
+                </button>
+              </div>
+            ) : (
+              <>
+                <input
+                  type="text"
+                  value={newGuardian}
+                  onChange={(e) => setNewGuardian(e.target.value.trim())}
+                  placeholder="GUARDIAN_ADDRESS 0x..."
+                  className="w-full px-4 py-3 bg-cyber-card border-2 border-neon-purple/30 rounded font-orbitron text-sm text-gray-200 focus:border-neon-purple/50 focus:outline-none"
+                />
+                <button
+                  onClick={proposeGuardian}
+                  disabled={pendingAction !== null || newGuardian === ''}
+                  className="w-full py-4 bg-gradient-to-r from-blue-500 to-indigo-500 rounded font-orbitron font-bold text-white tracking-wider disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {pendingAction === 'propose' ? 'PROPOSING...' : '⛨ PROPOSE_GUARDIAN'}
+                </button>
+              </>
+            )}
+            <p className="text-xs text-gray-500 font-rajdhani">
+              · GUARDIAN_SEES_EVERY_SCORE_AND_STATISTIC · REMOVAL_STOPS_FUTURE_SCORES_ONLY
+            </p>
+          </div>
+        </div>
+      )}
+
+      {/* 监护人视角：待接受的申请 */}
+      {contractAvailable && pendingRequests.length > 0 && (
+        <div className="relative overflow-hidden">
+          <div className="absolute inset-0 bg-yellow-600/10"></div>
+          <div className="relative glass-morphism border-2 border-yellow-500/30 p-6">
+            <h3 className="text-sm text-yellow-400 font-orbitron tracking-wider mb-4">PENDING_REQUESTS</h3>
+            <div className="space-y-3">
+              {pendingRequests.map(driver => (
+                <div key={driver} className="flex items-center justify-between border border-gray-600/30 p-4">
+                  <div className="font-orbitron text-sm text-gray-300">{shortAddress(driver)}</div>
+                  <button
+                    onClick={() => acceptWard(driver)}
+                    disabled={pendingAction !== null}
+                    className="px-4 py-2 rounded border bg-green-500/10 border-green-500/30 hover:bg-green-500/20 transition-colors text-xs text-green-400 font-orbitron disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    {pendingAction === driver ? 'ACCEPTING...' : 'ACCEPT'}
+                  </button>
+                </div>
+              ))}
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* 监护人视角：被监护司机 */}
+      {contractAvailable && (
+        <div className="relative overflow-hidden">
+          <div className="absolute inset-0 bg-gradient-to-r from-gray-800/20 to-gray-700/20"></div>
+          <div className="relative glass-morphism border-2 border-gray-600/30 p-6">
+            <h3 className="text-sm text-gray-500 font-orbitron tracking-wider mb-4">WARDS</h3>
+            {wards.length === 0 ? (
+              <p className="text-gray-500 font-rajdhani tracking-wider">NO_WARDS</p>
+            ) : (
+              <div className="space-y-3">
+                {wards.map(ward => (
+                  <div key={ward} className="flex items-center justify-between border border-gray-600/30 p-4">
+                    <div className="font-orbitron text-sm text-gray-300">{shortAddress(ward)}</div>
+                    <div className="flex items-center space-x-3">
+                      <Link
+                        to={`/guardian/${ward}/history`}
+                        className="px-3 py-1 rounded border border-green-500/30 text-xs text-green-400 font-orbitron hover:bg-green-500/10"
+                      >
+                        ▲ HISTORY
+                      </Link>
+                      <Link
+                        to={`/guardian/${ward}/analytics`}
+                        className="px-3 py-1 rounded border border-pink-500/30 text-xs text-pink-400 font-orbitron hover:bg-pink-500/10"
+                      >
+                        ◇ ANALYTICS
+                      </Link>
+                      <button
+                        onClick={() => removeWard(ward)}
+                        disabled={pendingAction !== null}
+                        className="px-3 py-1 rounded border border-red-500/30 text-xs text-red-400 font-orbitron disabled:opacity-50"
+                      >
+                        {pendingAction === ward ? 'REMOVING...' : 'REMOVE'}
+                      </button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+
+      {/* 消息提示 */}
+      {message && (
+        <div className={`relative overflow-hidden ${
+          message.type === 'success' ? 'border-2 border-green-500/50' :
+          message.type === 'error' ? 'border-2 border-red-500/50' :
+          'border-2 border-cyan-500/50'
+        }`}>
+          <div className={`absolute inset-0 ${
+            message.type === 'success' ? 'bg-green-600/10' :
+            message.type === 'error' ? 'bg-red-600/10' :
+            'bg-cyan-600/10'
+          } animate-pulse`}></div>
+          <div className="relative glass-morphism p-6">
+            <p className={`font-rajdhani tracking-wider ${
+              message.type === 'success' ? 'text-green-300' :
+              message.type === 'error' ? 'text-red-300' :
+              'text-cyan-300'
+            }`}>
+              {message.text}
+            </p>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
+
+// 复用 History / Analytics 页面渲染被监护司机的数据
+export function WardHistory({ wallet, fhevm }: GuardianProps) {
+  const { ward } = useParams()
+  if (!ward || !ethers.isAddress(ward)) return null
+  return <History wallet={wallet} fhevm={fhevm} driverAddress={ward} />
+}
+
+export function WardAnalytics({ wallet, fhevm }: GuardianProps) {
+  const { ward } = useParams()
+  if (!ward || !ethers.isAddress(ward)) return null
+  return <Analytics wallet={wallet} fhevm={fhevm} driverAddress={ward} />
+}
@@ -2,7 +2,11 @@ import { useState, useEffect } from 'react'
 import { ethers } from 'ethers'
 import { DriveScoreLoggerABI, DriveScoreLoggerAddresses } from '../abi'
 import { FhevmDecryptionSignature } from '../fhevm/FhevmDecryptionSignature'
-import { GenericStringInMemoryStorage } from '../fhevm/GenericStringStorage'
+import { useFhevmStorage } from '../fhevm/FhevmStorageContext'
+import { FhevmBatchDecryptProgress, handleKey, userDecryptBatch } from '../fhevm/FhevmBatchDecryptor'
+import { FhevmDecryptedValueCache } from '../fhevm/FhevmDecryptedValueCache'
+import { loadDriveRecords } from '../lib/driveRecords'
+import { SUB_SCORE_DIMENSIONS } from '../lib/subScores'
 
 interface HistoryProps {
   wallet: {
@@ -17,20 +21,27 @@ interface HistoryProps {
     status: string
     error: Error | undefined
   }
+  // 监护人查看被监护司机时传入；默认查看当前钱包地址
+  driverAddress?: string
 }
 
 interface Record {
   recordTime: number
-  distanceCategory: number
+  distanceCategory: number | null
+  encDistanceCategory: string | null
   score: number | null
   encScore: string
+  // 旧部署的记录没有子评分
+  encSubScores: string[] | null
+  subScores: (number | null)[] | null
 }
 
-export default function History({ wallet, fhevm }: HistoryProps) {
+export default function History({ wallet, fhevm, driverAddress }: HistoryProps) {
   const [records, setRecords] = useState<Record[]>([])
   const [isLoading, setIsLoading] = useState(false)
   const [isDecrypting, setIsDecrypting] = useState(false)
-  const storage = new GenericStringInMemoryStorage()
+  const [decryptProgress, setDecryptProgress] = useState<FhevmBatchDecryptProgress | null>(null)
+  const storage = useFhevmStorage()
 
   const getContract = () => {
     if (!wallet.chainId || !wallet.signer) return null
@@ -48,21 +59,15 @@ export default function History({ wallet, fhevm }: HistoryProps) {
       const contract = getContract()
       if (!contract) return
 
-      const userAddress = await wallet.signer.getAddress()
-      const recordCount = await contract.getRecordCount(userAddress)
-      
-      const loadedRecords: Record[] = []
-      for (let i = 0; i < Number(recordCount); i++) {
-        const [recordTime, distanceCategory, encScore] = await contract.getRecordByIndex(userAddress, i)
-        loadedRecords.push({
-          recordTime: Number(recordTime),
-          distanceCategory: Number(distanceCategory),
-          score: null,
-          encScore: encScore,
-        })
-      }
+      const userAddress = driverAddress ?? await wallet.signer.getAddress()
+
+      const loadedRecords: Record[] = (await loadDriveRecords(contract, userAddress)).map(record => ({
+        ...record,
+        score: null,
+        subScores: null,
+      }))
 
-      setRecords(loadedRecords.reverse())
+      setRecords(loadedRecords)
     } catch (error) {
       console.error('Failed to load records:', error)
     } finally {
@@ -76,7 +81,8 @@ export default function History({ wallet, fhevm }: HistoryProps) {
     setIsDecrypting(true)
     try {
       const contract = getContract()
-      if (!contract) return
+      const chainId = wallet.chainId
+      if (!contract || !chainId) return
 
       const contractAddress = await contract.getAddress()
       const sig = await FhevmDecryptionSignature.loadOrSign(
@@ -88,35 +94,41 @@ export default function History({ wallet, fhevm }: HistoryProps) {
 
       if (!sig) return
 
-      const decryptedRecords = await Promise.all(
-        records.map(async (record) => {
-          try {
-            const result = await fhevm.instance.userDecrypt(
-              [{ handle: record.encScore, contractAddress }],
-              sig.privateKey,
-              sig.publicKey,
-              sig.signature,
-              sig.contractAddresses,
-              sig.userAddress,
-              sig.startTimestamp,
-              sig.durationDays
-            )
-            return {
-              ...record,
-              score: Number(result[record.encScore]),
-            }
-          } catch (error) {
-            console.error('Decrypt error for record:', error)
-            return record
-          }
-        })
+      const handles = records.flatMap(record => [
+        record.encScore,
+        ...(record.encDistanceCategory ? [record.encDistanceCategory] : []),
+        ...(record.encSubScores ?? []),
+      ])
+      const { values, errors } = await userDecryptBatch(
+        fhevm.instance,
+        handles.map(handle => ({ handle, contractAddress })),
+        sig,
+        { cache: new FhevmDecryptedValueCache(chainId, sig), onProgress: setDecryptProgress }
       )
 
+      const decryptedValue = (handle: string) => {
+        const key = handleKey(handle)
+        if (errors[key]) {
+          console.error('Decrypt error for record:', errors[key])
+          return null
+        }
+        return Number(values[key])
+      }
+
+      const decryptedRecords = records.map(record => ({
+        ...record,
+        score: record.score ?? decryptedValue(record.encScore),
+        distanceCategory: record.distanceCategory
+          ?? (record.encDistanceCategory ? decryptedValue(record.encDistanceCategory) : null),
+        subScores: record.subScores ?? record.encSubScores?.map(decryptedValue) ?? null,
+      }))
+
       setRecords(decryptedRecords)
     } catch (error) {
       console.error('Failed to decrypt scores:', error)
     } finally {
       setIsDecrypting(false)
+      setDecryptProgress(null)
     }
   }
 
@@ -124,7 +136,7 @@ export default function History({ wallet, fhevm }: HistoryProps) {
     if (wallet.isConnected && fhevm.instance) {
       loadRecords()
     }
-  }, [wallet.isConnected, fhevm.instance])
+  }, [wallet.isConnected, fhevm.instance, driverAddress])
 
   const formatDate = (timestamp: number) => {
     return new Date(timestamp * 1000).toLocaleString('en-US', {
@@ -136,7 +148,8 @@ export default function History({ wallet, fhevm }: HistoryProps) {
     }).replace(/\//g, '.').replace(', ', '_')
   }
 
-  const getDistanceInfo = (level: number) => {
+  const getDistanceInfo = (level: number | null) => {
+    if (level === null) return { icon: '■', name: 'ENCRYPTED', color: 'from-gray-500 to-gray-600' }
     const info = [
       { icon: '?', name: 'UNKNOWN', color: 'from-gray-500 to-gray-600' },
       { icon: '◆', name: 'SHORT', color: 'from-cyan-500 to-blue-500' },
@@ -192,11 +205,13 @@ export default function History({ wallet, fhevm }: HistoryProps) {
                 <h1 className="text-3xl font-bold font-orbitron text-transparent bg-gradient-to-r from-neon-green to-emerald-400 bg-clip-text">
                   HISTORY_LOG
                 </h1>
-                <p className="text-gray-400 font-rajdhani tracking-wide">ENCRYPTED_DRIVE_RECORDS</p>
+                <p className="text-gray-400 font-rajdhani tracking-wide">
+                  {driverAddress ? `WARD: ${driverAddress.slice(0, 6)}...${driverAddress.slice(-4)}` : 'ENCRYPTED_DRIVE_RECORDS'}
+                </p>
               </div>
             </div>
             
-            {records.length > 0 && records.some(r => r.score === null) && (
+            {records.length > 0 && records.some(r => r.score === null || r.distanceCategory === null) && (
               <button
                 onClick={decryptScores}
                 disabled={isDecrypting}
@@ -207,7 +222,11 @@ export default function History({ wallet, fhevm }: HistoryProps) {
                   {isDecrypting ? (
                     <>
                       <div className="w-4 h-4 border-2 border-white border-t-transparent rounded-full animate-spin"></div>
-                      <span>DECRYPTING</span>
+                      <span>
+                        {decryptProgress
+                          ? `${decryptProgress.done}/${decryptProgress.total} DECRYPTED`
+                          : 'DECRYPTING'}
+                      </span>
                     </>
                   ) : (
                     <span>◆ DECRYPT_ALL</span>
@@ -265,6 +284,25 @@ export default function History({ wallet, fhevm }: HistoryProps) {
                             {distanceInfo.icon} {distanceInfo.name}
                           </span>
                         </div>
+                        {/* 子评分 */}
+                        {record.encSubScores && (
+                          <div className="flex flex-wrap gap-2 mt-2">
+                            {SUB_SCORE_DIMENSIONS.map((dimension, i) => {
+                              const value = record.subScores?.[i] ?? null
+                              return (
+                                <span
+                                  key={dimension.key}
+                                  className="px-2 py-0.5 rounded text-xs font-orbitron border border-gray-600/30 text-gray-400"
+                                >
+                                  {dimension.icon} {dimension.label}{' '}
+                                  <span style={{ color: value !== null ? dimension.stroke : undefined }}>
+                                    {value !== null ? value : '■■'}
+                                  </span>
+                                </span>
+                              )
+                            })}
+                          </div>
+                        )}
                       </div>
                     </div>
                     <div className="text-right">
@@ -300,12 +338,14 @@ export default function History({ wallet, fhevm }: HistoryProps) {
             <p className="text-gray-400 font-rajdhani text-lg mb-8 tracking-wider">
               SYSTEM_EMPTY · SUBMIT_FIRST_RECORD
             </p>
+            {!driverAddress && (
             <a
               href="/submit"
               className="inline-block px-8 py-4 bg-gradient-to-r from-neon-purple via-neon-pink to-neon-cyan rounded font-orbitron text-white font-bold tracking-wider hover:shadow-2xl hover:shadow-neon-purple/50 transition-all"
             >
               ◆ START_RECORDING
             </a>
+            )}
           </div>
         </div>
       )}
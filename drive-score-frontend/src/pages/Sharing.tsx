@@ -0,0 +1,644 @@
+import { useState, useEffect } from 'react'
+import { ethers } from 'ethers'
+import { DriveScoreLoggerABI, DriveScoreLoggerAddresses } from '../abi'
+import { FhevmDecryptionSignature } from '../fhevm/FhevmDecryptionSignature'
+import { useFhevmStorage } from '../fhevm/FhevmStorageContext'
+import { handleKey, userDecryptBatch } from '../fhevm/FhevmBatchDecryptor'
+import { FhevmDecryptedValueCache } from '../fhevm/FhevmDecryptedValueCache'
+import {
+  AttestationVerification,
+  DriveAttestation,
+  formatAttestationId,
+  loadDriverAttestations,
+  parseAttestationId,
+  requestAttestation,
+  revealAttestation,
+  verifyAttestation,
+} from '../lib/attestation'
+import { decodeContractError } from '../lib/contractErrors'
+
+interface SharingProps {
+  wallet: {
+    provider: any
+    chainId: number | undefined
+    accounts: string[]
+    signer: any
+    isConnected: boolean
+  }
+  fhevm: {
+    instance: any
+    status: string
+    error: Error | undefined
+  }
+}
+
+interface Grant {
+  grantee: string
+  grantedAt: number
+}
+
+// 第三方只能解密均值快照：每新增 minRecords 条记录刷新一次，避免用相邻均值的差值还原每日评分
+interface AverageSnapshot {
+  recordCount: number
+  sharedAt: number
+}
+
+export default function Sharing({ wallet, fhevm }: SharingProps) {
+  const [grants, setGrants] = useState<Grant[]>([])
+  const [newGrantee, setNewGrantee] = useState('')
+  const [isLoading, setIsLoading] = useState(false)
+  const [pendingAction, setPendingAction] = useState<string | null>(null)
+  const [driverAddress, setDriverAddress] = useState('')
+  const [sharedAverage, setSharedAverage] = useState<number | null>(null)
+  const [sharedSnapshot, setSharedSnapshot] = useState<AverageSnapshot | null>(null)
+  const [mySnapshot, setMySnapshot] = useState<AverageSnapshot | null>(null)
+  const [snapshotMinRecords, setSnapshotMinRecords] = useState<number | null>(null)
+  const [isDecrypting, setIsDecrypting] = useState(false)
+  const [attestations, setAttestations] = useState<DriveAttestation[]>([])
+  const [threshold, setThreshold] = useState<number>(80)
+  const [recordCount, setRecordCount] = useState<number>(7)
+  const [isAttesting, setIsAttesting] = useState(false)
+  const [verifyId, setVerifyId] = useState('')
+  const [verifyDriver, setVerifyDriver] = useState('')
+  const [verification, setVerification] = useState<AttestationVerification | null>(null)
+  const [message, setMessage] = useState<{ type: 'success' | 'error' | 'info', text: string } | null>(null)
+  const storage = useFhevmStorage()
+
+  const getContract = () => {
+    if (!wallet.chainId || !wallet.signer) return null
+    const chainIdStr = wallet.chainId.toString()
+    const address = DriveScoreLoggerAddresses[chainIdStr as keyof typeof DriveScoreLoggerAddresses]
+    if (!address || address.address === ethers.ZeroAddress) return null
+    return new ethers.Contract(address.address, DriveScoreLoggerABI.abi, wallet.signer)
+  }
+
+  const loadGrants = async () => {
+    if (!wallet.signer) return
+
+    setIsLoading(true)
+    try {
+      const contract = getContract()
+      if (!contract) return
+
+      const userAddress = await wallet.signer.getAddress()
+      const [[grantees, grantedAt], minRecords] = await Promise.all([
+        contract.getAverageGrants(userAddress),
+        contract.AVERAGE_SHARE_MIN_RECORDS(),
+      ])
+
+      setGrants(grantees.map((grantee: string, i: number) => ({
+        grantee,
+        grantedAt: Number(grantedAt[i]),
+      })))
+      setSnapshotMinRecords(Number(minRecords))
+
+      try {
+        const [, recordCount, sharedAt] = await contract.getSharedAverage(userAddress)
+        setMySnapshot({ recordCount: Number(recordCount), sharedAt: Number(sharedAt) })
+      } catch {
+        // 尚未生成快照
+        setMySnapshot(null)
+      }
+    } catch (error) {
+      console.error('Failed to load grants:', error)
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const loadAttestations = async () => {
+    if (!wallet.signer) return
+
+    try {
+      const contract = getContract()
+      if (!contract) return
+
+      const userAddress = await wallet.signer.getAddress()
+      setAttestations(await loadDriverAttestations(contract, userAddress))
+    } catch (error) {
+      console.error('Failed to load attestations:', error)
+    }
+  }
+
+  const createAttestation = async () => {
+    if (!fhevm.instance) return
+
+    setIsAttesting(true)
+    try {
+      const contract = getContract()
+      const chainId = wallet.chainId
+      if (!contract || !chainId) return
+
+      setMessage({ type: 'info', text: 'COMPUTING_ENCRYPTED_COMPARISON...' })
+      const attestationId = await requestAttestation(contract, threshold, recordCount)
+
+      setMessage({ type: 'info', text: 'PUBLIC_DECRYPTING_RESULT...' })
+      const attestation = await revealAttestation(fhevm.instance, contract, attestationId)
+
+      setMessage({
+        type: attestation.passed ? 'success' : 'error',
+        text: attestation.passed
+          ? `✓ ATTESTATION_PASSED | ID: ${formatAttestationId(chainId, attestationId)}`
+          : `✗ BELOW_THRESHOLD | ID: ${formatAttestationId(chainId, attestationId)}`,
+      })
+      await loadAttestations()
+    } catch (error: any) {
+      console.error('Attestation error:', error)
+      setMessage({ type: 'error', text: `ERROR: ${decodeContractError(error).text}` })
+    } finally {
+      setIsAttesting(false)
+    }
+  }
+
+  // 对之前未完成公开解密的证明补交结果
+  const finishAttestation = async (attestationId: bigint) => {
+    if (!fhevm.instance) return
+
+    setIsAttesting(true)
+    try {
+      const contract = getContract()
+      if (!contract) return
+
+      await revealAttestation(fhevm.instance, contract, attestationId)
+      await loadAttestations()
+    } catch (error: any) {
+      console.error('Attestation reveal error:', error)
+      setMessage({ type: 'error', text: `ERROR: ${decodeContractError(error).text}` })
+    } finally {
+      setIsAttesting(false)
+    }
+  }
+
+  const checkAttestation = async () => {
+    const parsed = parseAttestationId(verifyId)
+    if (!parsed) {
+      setMessage({ type: 'error', text: 'INVALID_ATTESTATION_ID' })
+      return
+    }
+    if (parsed.chainId !== wallet.chainId) {
+      setMessage({ type: 'error', text: `SWITCH_TO_CHAIN: ${parsed.chainId}` })
+      return
+    }
+    if (!ethers.isAddress(verifyDriver)) {
+      setMessage({ type: 'error', text: 'INVALID_ADDRESS' })
+      return
+    }
+
+    setVerification(null)
+    try {
+      const contract = getContract()
+      if (!contract) return
+
+      setVerification(await verifyAttestation(contract, parsed.attestationId, verifyDriver))
+    } catch (error: any) {
+      console.error('Attestation verify error:', error)
+      setMessage({ type: 'error', text: `ERROR: ${decodeContractError(error).text}` })
+    }
+  }
+
+  const copyAttestationId = async (attestationId: bigint) => {
+    if (!wallet.chainId) return
+    try {
+      await navigator.clipboard.writeText(formatAttestationId(wallet.chainId, attestationId))
+      setMessage({ type: 'success', text: '✓ ATTESTATION_ID_COPIED' })
+    } catch (error) {
+      console.error('Failed to copy attestation ID:', error)
+    }
+  }
+
+  const grantAccess = async () => {
+    if (!ethers.isAddress(newGrantee)) {
+      setMessage({ type: 'error', text: 'INVALID_ADDRESS' })
+      return
+    }
+
+    setPendingAction('grant')
+    try {
+      const contract = getContract()
+      if (!contract) return
+
+      setMessage({ type: 'info', text: 'SUBMITTING_GRANT...' })
+      const tx = await contract.grantAverageAccess(newGrantee)
+      await tx.wait()
+
+      setNewGrantee('')
+      setMessage({ type: 'success', text: '✓ ACCESS_GRANTED | AVERAGE_ONLY' })
+      await loadGrants()
+    } catch (error: any) {
+      console.error('Grant error:', error)
+      setMessage({ type: 'error', text: `ERROR: ${decodeContractError(error).text}` })
+    } finally {
+      setPendingAction(null)
+    }
+  }
+
+  const revokeAccess = async (grantee: string) => {
+    setPendingAction(grantee)
+    try {
+      const contract = getContract()
+      if (!contract) return
+
+      setMessage({ type: 'info', text: 'SUBMITTING_REVOKE...' })
+      const tx = await contract.revokeAverageAccess(grantee)
+      await tx.wait()
+
+      setMessage({ type: 'success', text: '✓ ACCESS_REVOKED | FUTURE_SNAPSHOTS_HIDDEN' })
+      await loadGrants()
+    } catch (error: any) {
+      console.error('Revoke error:', error)
+      setMessage({ type: 'error', text: `ERROR: ${decodeContractError(error).text}` })
+    } finally {
+      setPendingAction(null)
+    }
+  }
+
+  // 第三方视角：解密司机授权给自己的均值
+  const decryptSharedAverage = async () => {
+    if (!wallet.signer || !fhevm.instance) return
+    if (!ethers.isAddress(driverAddress)) {
+      setMessage({ type: 'error', text: 'INVALID_ADDRESS' })
+      return
+    }
+
+    setIsDecrypting(true)
+    setSharedAverage(null)
+    setSharedSnapshot(null)
+    try {
+      const contract = getContract()
+      const chainId = wallet.chainId
+      if (!contract || !chainId) return
+
+      const contractAddress = await contract.getAddress()
+      const [encAverage, recordCount, sharedAt]: [string, bigint, bigint] = await contract.getSharedAverage(driverAddress)
+
+      const sig = await FhevmDecryptionSignature.loadOrSign(
+        fhevm.instance,
+        [contractAddress],
+        wallet.signer,
+        storage
+      )
+      if (!sig) return
+
+      const { values, errors } = await userDecryptBatch(
+        fhevm.instance,
+        [{ handle: encAverage, contractAddress }],
+        sig,
+        { cache: new FhevmDecryptedValueCache(chainId, sig) }
+      )
+
+      const value = values[handleKey(encAverage)]
+      if (value === undefined) {
+        console.error('Decrypt error for shared average:', errors[handleKey(encAverage)])
+        setMessage({ type: 'error', text: 'ACCESS_NOT_GRANTED' })
+        return
+      }
+      setSharedAverage(Number(value))
+      setSharedSnapshot({ recordCount: Number(recordCount), sharedAt: Number(sharedAt) })
+    } catch (error: any) {
+      console.error('Failed to decrypt shared average:', error)
+      setMessage({ type: 'error', text: `ERROR: ${decodeContractError(error).text}` })
+    } finally {
+      setIsDecrypting(false)
+    }
+  }
+
+  useEffect(() => {
+    if (wallet.isConnected) {
+      loadGrants()
+      loadAttestations()
+    }
+  }, [wallet.isConnected])
+
+  const formatDate = (timestamp: number) => {
+    return new Date(timestamp * 1000).toLocaleString('en-US', {
+      year: '2-digit',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+    }).replace(/\//g, '.').replace(', ', '_')
+  }
+
+  if (!wallet.isConnected) {
+    return (
+      <div className="flex items-center justify-center h-[600px]">
+        <div className="text-center">
+          <div className="relative inline-block mb-8">
+            <div className="absolute inset-0 bg-gradient-to-r from-neon-purple to-neon-cyan blur-2xl opacity-50 animate-pulse"></div>
+            <div className="relative text-8xl">🔒</div>
+          </div>
+          <h2 className="text-3xl font-bold font-orbitron text-transparent bg-gradient-to-r from-neon-purple via-neon-pink to-neon-cyan bg-clip-text mb-4">
+            ACCESS_DENIED
+          </h2>
+          <p className="text-gray-400 font-rajdhani text-lg tracking-wider">CONNECT_WALLET_TO_MANAGE_SHARING</p>
+        </div>
+      </div>
+    )
+  }
+
+  const contractAvailable = getContract() !== null
+
+  return (
+    <div className="max-w-3xl mx-auto space-y-6">
+      {/* 页面标题 */}
+      <div className="relative overflow-hidden">
+        <div className="absolute inset-0 bg-gradient-to-r from-yellow-600/20 via-orange-600/20 to-pink-600/20"></div>
+        <div className="scan-line absolute inset-0"></div>
+        <div className="relative glass-morphism border-2 border-yellow-500/30 p-8">
+          <div className="flex items-center space-x-4">
+            <div className="relative">
+              <div className="absolute inset-0 bg-yellow-400 blur-xl opacity-50"></div>
+              <div className="relative w-16 h-16 bg-gradient-to-br from-yellow-400 to-orange-500 rounded flex items-center justify-center text-4xl">
+                ⬢
+              </div>
+            </div>
+            <div>
+              <h1 className="text-3xl font-bold font-orbitron text-transparent bg-gradient-to-r from-yellow-400 to-orange-400 bg-clip-text">
+                SELECTIVE_DISCLOSURE
+              </h1>
+              <p className="text-gray-400 font-rajdhani tracking-wide">SHARE_AVERAGE_ONLY · DAILY_SCORES_STAY_PRIVATE</p>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {!contractAvailable && (
+        <div className="relative overflow-hidden">
+          <div className="absolute inset-0 bg-gradient-to-r from-red-600/10 to-orange-600/10 animate-pulse"></div>
+          <div className="relative glass-morphism border-2 border-red-500/50 p-6">
+            <div className="flex items-start space-x-4">
+              <div className="text-4xl">⚠</div>
+              <div>
+                <h3 className="text-xl font-bold font-orbitron text-red-400 mb-2">CONTRACT_NOT_DEPLOYED</h3>
+                <p className="text-red-300/80 font-rajdhani">CHAIN_ID: {wallet.chainId || 'UNKNOWN'}</p>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* 新增授权 */}
+      {contractAvailable && (
+        <div className="relative overflow-hidden">
+          <div className="absolute inset-0 bg-gradient-to-br from-purple-900/10 via-pink-900/10 to-orange-900/10"></div>
+          <div className="scan-line absolute inset-0"></div>
+          <div className="relative glass-morphism border-2 border-neon-purple/30 p-8 space-y-4">
+            <label className="block text-sm font-orbitron text-gray-400 tracking-wider">
+              GRANT_AVERAGE_ACCESS
+            </label>
+            <input
+              type="text"
+              value={newGrantee}
+              onChange={(e) => setNewGrantee(e.target.value.trim())}
+              placeholder="0x..."
+              className="w-full px-4 py-3 bg-cyber-card border-2 border-neon-purple/30 rounded font-orbitron text-sm text-gray-200 focus:border-neon-purple/50 focus:outline-none"
+            />
+            <button
+              onClick={grantAccess}
+              disabled={pendingAction !== null || newGrantee === ''}
+              className="w-full py-4 bg-gradient-to-r from-yellow-500 to-orange-500 rounded font-orbitron font-bold text-white tracking-wider disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {pendingAction === 'grant' ? 'GRANTING...' : '⬢ GRANT_ACCESS'}
+            </button>
+            <p className="text-xs text-gray-500 font-rajdhani">
+              · GRANTEE_SEES_AN_AVERAGE_SNAPSHOT_REFRESHED_EVERY_{snapshotMinRecords ?? '?'}_NEW_RECORDS · DAILY_SCORES_CANNOT_BE_DERIVED · REVOKE_STOPS_FUTURE_SNAPSHOTS_ONLY
+            </p>
+            <p className="text-xs text-gray-500 font-rajdhani">
+              {mySnapshot
+                ? `CURRENT_SNAPSHOT: ${mySnapshot.recordCount} RECORDS · ${formatDate(mySnapshot.sharedAt)}`
+                : 'NO_SNAPSHOT_YET · FIRST_SNAPSHOT_AFTER_ENOUGH_RECORDS'}
+            </p>
+          </div>
+        </div>
+      )}
+
+      {/* 当前授权列表 */}
+      {contractAvailable && (
+        <div className="relative overflow-hidden">
+          <div className="absolute inset-0 bg-gradient-to-r from-gray-800/20 to-gray-700/20"></div>
+          <div className="relative glass-morphism border-2 border-gray-600/30 p-6">
+            <h3 className="text-sm text-gray-500 font-orbitron tracking-wider mb-4">ACTIVE_GRANTS</h3>
+            {isLoading ? (
+              <div className="w-6 h-6 border-2 border-neon-purple border-t-transparent rounded-full animate-spin"></div>
+            ) : grants.length === 0 ? (
+              <p className="text-gray-500 font-rajdhani tracking-wider">NO_ACTIVE_GRANTS</p>
+            ) : (
+              <div className="space-y-3">
+                {grants.map(grant => (
+                  <div key={grant.grantee} className="flex items-center justify-between border border-gray-600/30 p-4">
+                    <div>
+                      <div className="font-orbitron text-sm text-gray-300">
+                        {grant.grantee.slice(0, 6)}...{grant.grantee.slice(-4)}
+                      </div>
+                      <div className="text-xs text-gray-500 font-rajdhani">SINCE {formatDate(grant.grantedAt)}</div>
+                    </div>
+                    <button
+                      onClick={() => revokeAccess(grant.grantee)}
+                      disabled={pendingAction !== null}
+                      className="px-4 py-2 rounded border bg-red-500/10 border-red-500/30 hover:bg-red-500/20 transition-colors text-xs text-red-400 font-orbitron disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      {pendingAction === grant.grantee ? 'REVOKING...' : 'REVOKE'}
+                    </button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+
+      {/* 门槛证明 */}
+      {contractAvailable && (
+        <div className="relative overflow-hidden">
+          <div className="absolute inset-0 bg-gradient-to-br from-green-900/10 via-emerald-900/10 to-cyan-900/10"></div>
+          <div className="scan-line absolute inset-0"></div>
+          <div className="relative glass-morphism border-2 border-neon-green/30 p-8 space-y-4">
+            <h3 className="font-orbitron text-green-400 tracking-wider flex items-center space-x-2">
+              <span>▲</span>
+              <span>THRESHOLD_ATTESTATION</span>
+            </h3>
+            <p className="text-xs text-gray-500 font-rajdhani">
+              · PUBLICLY_REVEALS_ONLY: AVG(LAST_K) ≥ THRESHOLD · SCORES_STAY_ENCRYPTED
+            </p>
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-xs font-orbitron text-gray-400 tracking-wider mb-2">THRESHOLD [0-100]</label>
+                <input
+                  type="number"
+                  min="0"
+                  max="100"
+                  value={threshold}
+                  onChange={(e) => setThreshold(Number(e.target.value))}
+                  className="w-full px-4 py-3 bg-cyber-card border-2 border-neon-green/30 rounded font-orbitron text-gray-200 focus:border-neon-green/50 focus:outline-none"
+                />
+              </div>
+              <div>
+                <label className="block text-xs font-orbitron text-gray-400 tracking-wider mb-2">LAST_K_RECORDS [1-50]</label>
+                <input
+                  type="number"
+                  min="1"
+                  max="50"
+                  value={recordCount}
+                  onChange={(e) => setRecordCount(Number(e.target.value))}
+                  className="w-full px-4 py-3 bg-cyber-card border-2 border-neon-green/30 rounded font-orbitron text-gray-200 focus:border-neon-green/50 focus:outline-none"
+                />
+              </div>
+            </div>
+            <button
+              onClick={createAttestation}
+              disabled={isAttesting || fhevm.status !== 'ready'}
+              className="w-full py-4 bg-gradient-to-r from-neon-green to-emerald-500 rounded font-orbitron font-bold text-white tracking-wider disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isAttesting ? 'ATTESTING...' : '▲ GENERATE_ATTESTATION'}
+            </button>
+
+            {attestations.length > 0 && (
+              <div className="space-y-3">
+                {attestations.map(attestation => (
+                  <div key={attestation.id.toString()} className="flex items-center justify-between border border-gray-600/30 p-4">
+                    <div>
+                      <div className="font-orbitron text-sm text-gray-300">
+                        {wallet.chainId ? formatAttestationId(wallet.chainId, attestation.id) : attestation.id.toString()}
+                      </div>
+                      <div className="text-xs text-gray-500 font-rajdhani">
+                        AVG(LAST_{attestation.recordCount}) ≥ {attestation.threshold} · {formatDate(attestation.requestedAt)}
+                      </div>
+                    </div>
+                    <div className="flex items-center space-x-3">
+                      {attestation.isRevealed ? (
+                        <span className={`font-orbitron text-sm ${attestation.passed ? 'text-green-400' : 'text-red-400'}`}>
+                          {attestation.passed ? '✓ PASSED' : '✗ FAILED'}
+                        </span>
+                      ) : (
+                        <button
+                          onClick={() => finishAttestation(attestation.id)}
+                          disabled={isAttesting || fhevm.status !== 'ready'}
+                          className="px-3 py-1 rounded border border-yellow-500/30 text-xs text-yellow-400 font-orbitron disabled:opacity-50"
+                        >
+                          REVEAL
+                        </button>
+                      )}
+                      <button
+                        onClick={() => copyAttestationId(attestation.id)}
+                        className="px-3 py-1 rounded border border-gray-600/30 text-xs text-gray-400 font-orbitron hover:text-gray-200"
+                      >
+                        COPY_ID
+                      </button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+
+      {/* 核验证明 */}
+      {contractAvailable && (
+        <div className="relative overflow-hidden">
+          <div className="absolute inset-0 bg-gradient-to-r from-gray-800/20 to-gray-700/20"></div>
+          <div className="relative glass-morphism border-2 border-gray-600/30 p-6 space-y-4">
+            <h3 className="text-sm text-gray-500 font-orbitron tracking-wider">VERIFY_ATTESTATION</h3>
+            <input
+              type="text"
+              value={verifyId}
+              onChange={(e) => setVerifyId(e.target.value)}
+              placeholder="DSA-<CHAIN>-<ID>"
+              className="w-full px-4 py-3 bg-cyber-card border-2 border-gray-600/30 rounded font-orbitron text-sm text-gray-200 focus:outline-none"
+            />
+            <input
+              type="text"
+              value={verifyDriver}
+              onChange={(e) => setVerifyDriver(e.target.value.trim())}
+              placeholder="DRIVER_ADDRESS 0x..."
+              className="w-full px-4 py-3 bg-cyber-card border-2 border-gray-600/30 rounded font-orbitron text-sm text-gray-200 focus:outline-none"
+            />
+            <div className="flex items-center justify-between">
+              <button
+                onClick={checkAttestation}
+                disabled={verifyId === '' || verifyDriver === ''}
+                className="px-6 py-3 bg-gradient-to-r from-neon-purple to-neon-pink rounded font-orbitron text-white text-sm tracking-wider disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                ◆ VERIFY
+              </button>
+              {verification && (
+                <div className={`font-orbitron text-sm ${
+                  verification.status === 'passed' ? 'text-green-400' :
+                  verification.status === 'pending' ? 'text-yellow-400' : 'text-red-400'
+                }`}>
+                  {verification.status === 'passed' && verification.attestation
+                    ? `✓ AVG(LAST_${verification.attestation.recordCount}) ≥ ${verification.attestation.threshold}`
+                    : verification.status === 'failed' ? '✗ BELOW_THRESHOLD'
+                    : verification.status === 'pending' ? '… NOT_REVEALED_YET'
+                    : verification.status === 'wrong-driver' ? '✗ DRIVER_MISMATCH'
+                    : '✗ NOT_FOUND'}
+                </div>
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* 第三方查看 */}
+      {contractAvailable && (
+        <div className="relative overflow-hidden">
+          <div className="absolute inset-0 bg-cyan-600/10"></div>
+          <div className="relative glass-morphism border border-cyan-500/30 p-6 space-y-4">
+            <h3 className="font-orbitron text-cyan-400 tracking-wider flex items-center space-x-2">
+              <span>◆</span>
+              <span>VIEW_SHARED_AVERAGE</span>
+            </h3>
+            <input
+              type="text"
+              value={driverAddress}
+              onChange={(e) => setDriverAddress(e.target.value.trim())}
+              placeholder="DRIVER_ADDRESS 0x..."
+              className="w-full px-4 py-3 bg-cyber-card border-2 border-cyan-500/30 rounded font-orbitron text-sm text-gray-200 focus:border-cyan-500/50 focus:outline-none"
+            />
+            <div className="flex items-center justify-between">
+              <button
+                onClick={decryptSharedAverage}
+                disabled={isDecrypting || fhevm.status !== 'ready' || driverAddress === ''}
+                className="px-6 py-3 bg-gradient-to-r from-neon-cyan to-neon-blue rounded font-orbitron text-white text-sm tracking-wider disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {isDecrypting ? 'DECRYPTING...' : '◆ DECRYPT_AVERAGE'}
+              </button>
+              <div className="text-4xl font-bold font-orbitron text-cyan-400">
+                {sharedAverage !== null ? sharedAverage : '■■■'}
+              </div>
+            </div>
+            {sharedSnapshot && (
+              <p className="text-xs text-gray-500 font-rajdhani">
+                SNAPSHOT_OF_{sharedSnapshot.recordCount}_RECORDS · {formatDate(sharedSnapshot.sharedAt)}
+              </p>
+            )}
+          </div>
+        </div>
+      )}
+
+      {/* 消息提示 */}
+      {message && (
+        <div className={`relative overflow-hidden ${
+          message.type === 'success' ? 'border-2 border-green-500/50' :
+          message.type === 'error' ? 'border-2 border-red-500/50' :
+          'border-2 border-cyan-500/50'
+        }`}>
+          <div className={`absolute inset-0 ${
+            message.type === 'success' ? 'bg-green-600/10' :
+            message.type === 'error' ? 'bg-red-600/10' :
+            'bg-cyan-600/10'
+          } animate-pulse`}></div>
+          <div className="relative glass-morphism p-6">
+            <p className={`font-rajdhani tracking-wider ${
+              message.type === 'success' ? 'text-green-300' :
+              message.type === 'error' ? 'text-red-300' :
+              'text-cyan-300'
+            }`}>
+              {message.text}
+            </p>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
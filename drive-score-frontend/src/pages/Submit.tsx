@@ -1,6 +1,29 @@
-import { useState } from 'react'
+import { useEffect, useState } from 'react'
 import { ethers } from 'ethers'
 import { DriveScoreLoggerABI, DriveScoreLoggerAddresses } from '../abi'
+import { isMissingFunctionError } from '../lib/compat'
+import { decodeContractError } from '../lib/contractErrors'
+import { SUB_SCORE_DIMENSIONS, deriveOverallScore, type SubScoreKey, type SubScores } from '../lib/subScores'
+import { EVENT_DISTANCE_BASIS_KM, type TripAnalysis } from '../lib/telemetry'
+import { importTripFile, type ImportRowError } from '../lib/tripImport'
+
+// 导入失败时最多列出的出错行数
+const MAX_LISTED_IMPORT_ERRORS = 8
+
+const SECONDS_PER_DAY = 24 * 60 * 60
+
+// 连续天数窗口剩余不足该时长（秒）时提示即将中断
+const STREAK_WARNING_SECONDS = 3 * 60 * 60
+
+// 合约按 UTC 自然日（自 1970-01-01 起的天数）累加行程
+const utcDay = (timestamp: number) => Math.floor(timestamp / SECONDS_PER_DAY)
+
+const formatCountdown = (seconds: number) => {
+  const remaining = Math.max(0, seconds)
+  return [Math.floor(remaining / 3600), Math.floor((remaining % 3600) / 60), remaining % 60]
+    .map(part => String(part).padStart(2, '0'))
+    .join(':')
+}
 
 interface SubmitProps {
   wallet: {
@@ -18,10 +41,26 @@ interface SubmitProps {
 }
 
 export default function Submit({ wallet, fhevm }: SubmitProps) {
-  const [score, setScore] = useState<number>(85)
-  const [distanceCategory, setDistanceCategory] = useState<number>(1)
+  // 急转弯和使用手机无法从遥测数据得出，由用户自行填写
+  const [selfReported, setSelfReported] = useState<Pick<SubScores, 'cornering' | 'phoneUse'>>({ cornering: 85, phoneUse: 85 })
+  // 行程文件的分析结果；原始文件只在浏览器本地解析，不会上传或上链
+  const [telemetry, setTelemetry] = useState<{ fileName: string, analysis: TripAnalysis } | null>(null)
+  const [importErrors, setImportErrors] = useState<{ fileName: string, errors: ImportRowError[] } | null>(null)
   const [isSubmitting, setIsSubmitting] = useState(false)
   const [message, setMessage] = useState<{ type: 'success' | 'error' | 'info', text: string } | null>(null)
+  // 尚未结算的行程；null 表示旧部署不支持按行程累加
+  const [pendingTrips, setPendingTrips] = useState<{ day: number, tripCount: number } | null>(null)
+  const [isFinalizing, setIsFinalizing] = useState(false)
+  // 最近一条日记录的时间（秒），0 表示还没有记录；用于推算连续天数窗口
+  const [lastRecordTime, setLastRecordTime] = useState<number | null>(null)
+  // 读取合约状态时的链上时间（最新区块时间戳）与本地时间；本地链的时间可能与浏览器时间不同
+  const [chainClock, setChainClock] = useState<{ chainTime: number, localTime: number } | null>(null)
+  // 测试模式下每次行程立即结算为一条日记录
+  const [isTestMode, setIsTestMode] = useState(false)
+  const [now, setNow] = useState(() => Math.floor(Date.now() / 1000))
+
+  // 超速和急刹车来自遥测分析，其余维度来自用户填写
+  const subScores: SubScores | null = telemetry ? { ...telemetry.analysis.subScores, ...selfReported } : null
 
   const getContract = () => {
     if (!wallet.chainId || !wallet.signer) return null
@@ -31,13 +70,102 @@ export default function Submit({ wallet, fhevm }: SubmitProps) {
     return new ethers.Contract(address.address, DriveScoreLoggerABI.abi, wallet.signer)
   }
 
+  const loadPendingTrips = async () => {
+    const contract = getContract()
+    if (!contract) return
+
+    try {
+      const userAddress = await wallet.signer.getAddress()
+      const [day, tripCount] = await contract.getPendingTrips(userAddress)
+      setPendingTrips({ day: Number(day), tripCount: Number(tripCount) })
+    } catch (error) {
+      if (!isMissingFunctionError(error)) console.error('Failed to load pending trips:', error)
+      setPendingTrips(null)
+    }
+
+    try {
+      const userAddress = await wallet.signer.getAddress()
+      const [, , lastRecord] = await contract.getUserStatistics(userAddress)
+      setLastRecordTime(Number(lastRecord))
+    } catch (error) {
+      console.error('Failed to load user statistics:', error)
+      setLastRecordTime(null)
+    }
+
+    try {
+      const [block, testMode] = await Promise.all([
+        wallet.signer.provider.getBlock('latest'),
+        contract.isTestModeEnabled(),
+      ])
+      setChainClock(block ? { chainTime: block.timestamp, localTime: Math.floor(Date.now() / 1000) } : null)
+      setIsTestMode(Boolean(testMode))
+    } catch (error) {
+      console.error('Failed to load chain time:', error)
+      setChainClock(null)
+    }
+  }
+
+  // 以读取时的区块时间为基准，按本地经过的时间推算当前链上时间
+  const chainNow = chainClock ? chainClock.chainTime + (now - chainClock.localTime) : null
+
+  // 链上时间跨过 UTC 零点时也重新读取，当天的行程累加状态随之变化
+  useEffect(() => {
+    if (wallet.isConnected && wallet.signer) {
+      loadPendingTrips()
+    }
+  }, [wallet.isConnected, wallet.signer, wallet.chainId, chainNow !== null ? utcDay(chainNow) : null])
+
+  // 每秒刷新倒计时
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Math.floor(Date.now() / 1000)), 1000)
+    return () => clearInterval(timer)
+  }, [])
+
+  const finalizePendingDay = async () => {
+    const contract = getContract()
+    if (!contract) return
+
+    setIsFinalizing(true)
+    setMessage({ type: 'info', text: 'FINALIZING_PREVIOUS_DAY...' })
+    try {
+      const tx = await contract.finalizePendingDay()
+      await tx.wait()
+      setMessage({ type: 'success', text: '✓ DAILY_RECORD_FINALIZED' })
+      await loadPendingTrips()
+    } catch (error: any) {
+      console.error('Finalize error:', error)
+      setMessage({ type: 'error', text: `ERROR: ${decodeContractError(error).text}` })
+    } finally {
+      setIsFinalizing(false)
+    }
+  }
+
+  const loadTripFile = async (file: File | undefined) => {
+    if (!file) return
+
+    const result = await importTripFile(file)
+    setMessage(null)
+    if (result.analysis) {
+      setTelemetry({ fileName: result.fileName, analysis: result.analysis })
+      setImportErrors(null)
+    } else {
+      setTelemetry(null)
+      setImportErrors({ fileName: result.fileName, errors: result.errors })
+    }
+  }
+
   const submitScore = async () => {
     if (!fhevm.instance || !wallet.signer) {
       setMessage({ type: 'error', text: 'FHEVM_NOT_READY | WALLET_NOT_CONNECTED' })
       return
     }
 
-    if (score < 0 || score > 100) {
+    if (!telemetry || !subScores) {
+      setMessage({ type: 'error', text: 'IMPORT_TRIP_FILE_FIRST' })
+      return
+    }
+
+    if (SUB_SCORE_DIMENSIONS.some(d => subScores[d.key] < 0 || subScores[d.key] > 100)) {
       setMessage({ type: 'error', text: 'SCORE_OUT_OF_RANGE [0-100]' })
       return
     }
@@ -55,22 +183,28 @@ export default function Submit({ wallet, fhevm }: SubmitProps) {
       const contractAddress = await contract.getAddress()
       const userAddress = await wallet.signer.getAddress()
 
+      // 子评分与里程等级放在同一个加密输入中，综合评分由合约在密文状态下推导
       const input = fhevm.instance.createEncryptedInput(contractAddress, userAddress)
-      input.add32(score)
+      SUB_SCORE_DIMENSIONS.forEach(d => input.add32(subScores[d.key]))
+      input.add8(telemetry.analysis.distanceCategory)
       const enc = await input.encrypt()
 
       setMessage({ type: 'info', text: 'SUBMITTING_TO_BLOCKCHAIN...' })
       
-      const tx = await contract.recordDriveScore(enc.handles[0], enc.inputProof, distanceCategory)
+      const subScoreHandles = enc.handles.slice(0, SUB_SCORE_DIMENSIONS.length)
+      const categoryHandle = enc.handles[SUB_SCORE_DIMENSIONS.length]
+      const tx = await contract.recordDriveScore(subScoreHandles, categoryHandle, enc.inputProof)
       
       setMessage({ type: 'info', text: `TX_HASH: ${tx.hash.slice(0, 10)}...` })
 
       await tx.wait()
       
       setMessage({ type: 'success', text: '✓ RECORD_SUBMITTED | DATA_ENCRYPTED_ON_CHAIN' })
+      setTelemetry(null)
+      await loadPendingTrips()
     } catch (error: any) {
       console.error('Submit error:', error)
-      setMessage({ type: 'error', text: `ERROR: ${error.message || 'UNKNOWN_ERROR'}` })
+      setMessage({ type: 'error', text: `ERROR: ${decodeContractError(error).text}` })
     } finally {
       setIsSubmitting(false)
     }
@@ -111,7 +245,28 @@ export default function Submit({ wallet, fhevm }: SubmitProps) {
   }
 
   const contractAvailable = getContract() !== null
-  const scoreLevel = getScoreLevel(score)
+  const score = subScores ? deriveOverallScore(subScores) : null
+  const scoreLevel = getScoreLevel(score ?? 0)
+  const distanceCategory = telemetry ? telemetry.analysis.distanceCategory : null
+  const isSelfReported = (key: SubScoreKey): key is 'cornering' | 'phoneUse' => key in selfReported
+  const setSelfReportedScore = (key: 'cornering' | 'phoneUse', value: number) => setSelfReported(prev => ({ ...prev, [key]: value }))
+  // 与合约相同，按区块时间所在的 UTC 自然日判断；还没读到链上时间时为 null
+  const today = chainNow !== null ? utcDay(chainNow) : null
+  const tripsToday = pendingTrips && pendingTrips.day === today ? pendingTrips.tripCount : 0
+  // 之前日期的行程还没有结算（下一次提交也会自动结算）
+  const hasUnfinalizedDay = pendingTrips !== null && today !== null && pendingTrips.tripCount > 0 && pendingTrips.day < today
+  // 当天在 UTC 零点（区块时间）结束，之后的行程计入新的日记录
+  const secondsUntilDayClose = today !== null && chainNow !== null ? (today + 1) * SECONDS_PER_DAY - chainNow : null
+  // 最近有驾驶的自然日：尚未结算的行程日，否则为最近一条记录的日期
+  const lastActiveDay = pendingTrips && pendingTrips.tripCount > 0
+    ? pendingTrips.day
+    : lastRecordTime ? utcDay(lastRecordTime) : null
+  // 连续天数按自然日计算：昨天有驾驶而今天还没有时，今天 UTC 零点前不提交就会中断
+  const isStreakAtRisk = today !== null && lastActiveDay === today - 1
+  const isStreakWindowClosing = isStreakAtRisk && secondsUntilDayClose !== null && secondsUntilDayClose <= STREAK_WARNING_SECONDS
+  // 提交按钮依赖链上时间判断这次行程计入哪一天
+  const isChainStateLoading = chainClock === null
+  const isSubmitDisabled = isSubmitting || fhevm.status !== 'ready' || !telemetry || isChainStateLoading
 
   return (
     <div className="max-w-3xl mx-auto space-y-6">
@@ -161,10 +316,105 @@ export default function Submit({ wallet, fhevm }: SubmitProps) {
           <div className="absolute inset-0 bg-gradient-to-br from-purple-900/10 via-pink-900/10 to-cyan-900/10"></div>
           <div className="scan-line absolute inset-0"></div>
           <div className="relative glass-morphism border-2 border-neon-purple/30 p-8 space-y-8">
+            {/* 今日行程 */}
+            {pendingTrips && (
+              <div className="flex items-center justify-between glass-morphism border border-neon-cyan/30 p-4">
+                <div>
+                  <div className="text-xs font-orbitron text-gray-500 tracking-wider">TODAY_UTC</div>
+                  <div className="text-2xl font-bold font-orbitron text-transparent bg-gradient-to-r from-neon-cyan to-neon-blue bg-clip-text">
+                    TRIP_{tripsToday + 1}_TODAY
+                  </div>
+                  <div className="text-xs text-gray-500 font-rajdhani tracking-wider">
+                    {isTestMode
+                      ? 'TEST_MODE · EACH_TRIP_IS_FINALIZED_AS_A_DAILY_RECORD'
+                      : tripsToday > 0
+                        ? `${tripsToday}_TRIPS_ACCUMULATED · AVERAGED_INTO_ONE_DAILY_RECORD`
+                        : 'FIRST_TRIP_OF_THE_DAY'}
+                  </div>
+                  {!isTestMode && secondsUntilDayClose !== null && (
+                    <div className="text-xs text-gray-500 font-rajdhani tracking-wider">
+                      DAY_CLOSES_IN <span className="font-orbitron text-neon-cyan">{formatCountdown(secondsUntilDayClose)}</span> · BLOCK_TIME · LATER_TRIPS_START_A_NEW_DAILY_RECORD
+                    </div>
+                  )}
+                </div>
+                {hasUnfinalizedDay && (
+                  <button
+                    type="button"
+                    onClick={finalizePendingDay}
+                    disabled={isFinalizing}
+                    className="px-4 py-2 font-orbitron text-xs tracking-wider border border-neon-purple/50 text-neon-purple hover:bg-neon-purple/10 disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    {isFinalizing ? 'FINALIZING...' : `FINALIZE_PREVIOUS_DAY [${pendingTrips.tripCount}_TRIPS]`}
+                  </button>
+                )}
+              </div>
+            )}
+
+            {/* 连续天数窗口：昨天有驾驶、今天还没有提交 */}
+            {isStreakAtRisk && (
+              <div className={`glass-morphism border p-4 ${
+                isStreakWindowClosing ? 'border-red-500/50 animate-pulse' : 'border-yellow-500/40'
+              }`}>
+                <div className={`font-orbitron text-sm tracking-wider ${isStreakWindowClosing ? 'text-red-400' : 'text-yellow-400'}`}>
+                  {isStreakWindowClosing ? '⚠ STREAK_WINDOW_CLOSING' : '◆ STREAK_WINDOW_OPEN'} · {formatCountdown(secondsUntilDayClose ?? 0)}
+                </div>
+                <div className="text-xs text-gray-400 font-rajdhani tracking-wider">
+                  SUBMIT_A_TRIP_BEFORE_UTC_MIDNIGHT_TO_KEEP_YOUR_STREAK · MISSED_DAYS_RESET_IT_TO_1
+                </div>
+              </div>
+            )}
+
+            {/* 行程遥测 */}
+            <div>
+              <label className="block text-sm font-orbitron text-gray-400 tracking-wider mb-4">
+                TRIP_FILE [GPX | CSV | JSON]
+              </label>
+              <label className="flex items-center justify-between glass-morphism border border-dashed border-neon-cyan/40 p-4 cursor-pointer hover:bg-neon-cyan/5">
+                <div>
+                  <div className="font-orbitron text-sm text-neon-cyan tracking-wider">
+                    {telemetry ? telemetry.fileName : 'IMPORT_TRIP_LOG'}
+                  </div>
+                  <div className="text-xs text-gray-500 font-rajdhani tracking-wider">
+                    GPX_TRACK · CSV [timestamp, speed_kmh | lat+lon, acceleration?, speed_limit?] · PARSED_ON_DEVICE · FILE_NEVER_UPLOADED
+                  </div>
+                </div>
+                <span className="font-orbitron text-xs text-gray-400 tracking-wider">◆ LOAD</span>
+                <input
+                  type="file"
+                  accept=".gpx,.csv,.json"
+                  className="hidden"
+                  onChange={(e) => {
+                    loadTripFile(e.target.files?.[0])
+                    e.target.value = ''
+                  }}
+                />
+              </label>
+
+              {/* 逐行错误：文件有任何错误都不会用于评分 */}
+              {importErrors && (
+                <div className="mt-3 glass-morphism border border-red-500/50 p-4">
+                  <div className="font-orbitron text-sm text-red-400 tracking-wider mb-2">
+                    IMPORT_FAILED · {importErrors.fileName} · {importErrors.errors.length}_ERRORS
+                  </div>
+                  <ul className="text-sm text-red-300/80 font-rajdhani space-y-1">
+                    {importErrors.errors.slice(0, MAX_LISTED_IMPORT_ERRORS).map((error, i) => (
+                      <li key={i}>
+                        <span className="font-orbitron text-xs text-red-400 mr-2">{error.location}</span>
+                        {error.message}
+                      </li>
+                    ))}
+                    {importErrors.errors.length > MAX_LISTED_IMPORT_ERRORS && (
+                      <li className="text-red-400/60">+{importErrors.errors.length - MAX_LISTED_IMPORT_ERRORS}_MORE_ERRORS</li>
+                    )}
+                  </ul>
+                </div>
+              )}
+            </div>
+
             {/* 安全评分 */}
             <div>
               <label className="block text-sm font-orbitron text-gray-400 tracking-wider mb-4">
-                SAFETY_SCORE [0-100]
+                SUGGESTED_SAFETY_SCORE [0-100] · DERIVED_ON_CHAIN
               </label>
               
               {/* 评分显示 - 大型科技面板 */}
@@ -172,71 +422,117 @@ export default function Submit({ wallet, fhevm }: SubmitProps) {
                 <div className={`absolute inset-0 bg-gradient-to-r ${scoreLevel.color} opacity-20 blur-xl`}></div>
                 <div className="relative glass-morphism border-2 border-gray-600/30 p-8 text-center">
                   <div className={`text-8xl mb-4 text-transparent bg-gradient-to-r ${scoreLevel.color} bg-clip-text font-orbitron font-bold`}>
-                    {scoreLevel.emoji}
+                    {score === null ? '◌' : scoreLevel.emoji}
                   </div>
                   <div className={`text-6xl font-bold font-orbitron text-transparent bg-gradient-to-r ${scoreLevel.color} bg-clip-text mb-4`}>
-                    {score}
+                    {score ?? '--'}
                   </div>
                   <div className="flex items-center justify-center space-x-2">
                     <div className={`h-1 w-16 bg-gradient-to-r ${scoreLevel.color}`}></div>
                     <div className={`text-lg font-orbitron text-transparent bg-gradient-to-r ${scoreLevel.color} bg-clip-text`}>
-                      {scoreLevel.text}
+                      {score === null ? 'AWAITING_TRIP_FILE' : scoreLevel.text}
                     </div>
                     <div className={`h-1 w-16 bg-gradient-to-r ${scoreLevel.color}`}></div>
                   </div>
                 </div>
               </div>
 
-              {/* 评分滑块 - 科技风格 */}
-              <div className="relative">
-                <input
-                  type="range"
-                  min="0"
-                  max="100"
-                  value={score}
-                  onChange={(e) => setScore(Number(e.target.value))}
-                  className="w-full h-2 bg-gray-800 rounded-full appearance-none cursor-pointer accent-neon-purple"
-                  style={{
-                    background: `linear-gradient(to right, #a855f7 0%, #ec4899 ${score}%, #1f1f29 ${score}%, #1f1f29 100%)`
-                  }}
-                />
-                <div className="flex justify-between text-xs text-gray-600 font-orbitron mt-2">
-                  <span>0</span>
-                  <span>25</span>
-                  <span>50</span>
-                  <span>75</span>
-                  <span>100</span>
+              {/* 评分计算说明：加密前向用户展示每一步扣分 */}
+              {telemetry && subScores && (
+                <div className="glass-morphism border border-neon-cyan/30 p-4 mb-6 space-y-4">
+                  <div className="font-orbitron text-sm text-neon-cyan tracking-wider">SCORE_BREAKDOWN</div>
+                  <div className="grid grid-cols-4 gap-3 text-center">
+                    {[
+                      { label: 'DISTANCE', value: `${telemetry.analysis.distanceKm.toFixed(1)}KM` },
+                      { label: 'DURATION', value: `${Math.round(telemetry.analysis.durationSeconds / 60)}MIN` },
+                      { label: 'MAX_SPEED', value: `${Math.round(telemetry.analysis.maxSpeedKmh)}KM/H` },
+                      { label: 'SAMPLES', value: telemetry.analysis.sampleCount },
+                    ].map(stat => (
+                      <div key={stat.label}>
+                        <div className="text-xs font-orbitron text-gray-500 tracking-wider">{stat.label}</div>
+                        <div className="font-orbitron text-gray-200">{stat.value}</div>
+                      </div>
+                    ))}
+                  </div>
+                  <ul className="text-sm font-rajdhani text-gray-300 space-y-1">
+                    {telemetry.analysis.deductions.map(d => (
+                      <li key={d.event} className="flex justify-between">
+                        <span>
+                          {d.label} ×{d.count}
+                          <span className="ml-2 text-xs text-gray-600">
+                            -{d.pointsPerEvent}_PER_EVENT_PER_{EVENT_DISTANCE_BASIS_KM}KM → {d.subScore.toUpperCase()}
+                          </span>
+                        </span>
+                        <span className={d.count > 0 ? 'text-rose-400' : 'text-gray-500'}>-{d.points.toFixed(1)}</span>
+                      </li>
+                    ))}
+                  </ul>
+                  <p className="text-xs text-gray-500 font-rajdhani tracking-wider">
+                    SUB_SCORE = 100 - DEDUCTIONS · TRIPS_UNDER_{EVENT_DISTANCE_BASIS_KM}KM_COUNT_AS_{EVENT_DISTANCE_BASIS_KM}KM ·
+                    OVERALL = Σ SUB_SCORE × WEIGHT / 100 = {SUB_SCORE_DIMENSIONS.map(d => `${subScores[d.key]}×${d.weight}%`).join(' + ')} = {score}
+                  </p>
                 </div>
-              </div>
+              )}
 
-              {/* 数字输入 */}
-              <div className="mt-4 relative">
-                <input
-                  type="number"
-                  min="0"
-                  max="100"
-                  value={score}
-                  onChange={(e) => setScore(Number(e.target.value))}
-                  className="w-full px-6 py-4 bg-cyber-card border-2 border-neon-purple/30 rounded text-center text-3xl font-bold font-orbitron text-transparent bg-gradient-to-r from-neon-purple to-neon-pink bg-clip-text focus:border-neon-purple/50 focus:outline-none"
-                />
+              {/* 子评分：超速和急刹车由遥测推导，急转弯和使用手机由用户填写 */}
+              <div className="space-y-5">
+                {SUB_SCORE_DIMENSIONS.map(dimension => {
+                  const selfReportedKey = isSelfReported(dimension.key) ? dimension.key : null
+                  const value = selfReportedKey ? selfReported[selfReportedKey] : subScores?.[dimension.key] ?? 0
+                  return (
+                    <div key={dimension.key}>
+                      <div className="flex items-center justify-between mb-2">
+                        <span className="font-orbitron text-sm text-gray-300 tracking-wider">
+                          {dimension.icon} {dimension.label}
+                          <span className="ml-2 text-xs text-gray-600">WEIGHT_{dimension.weight}%</span>
+                          <span className="ml-2 text-xs text-gray-600">{selfReportedKey ? 'SELF_REPORTED' : 'FROM_TELEMETRY'}</span>
+                        </span>
+                        {selfReportedKey ? (
+                          <input
+                            type="number"
+                            min="0"
+                            max="100"
+                            value={value}
+                            onChange={(e) => setSelfReportedScore(selfReportedKey, Number(e.target.value))}
+                            className="w-20 px-2 py-1 bg-cyber-card border border-neon-purple/30 rounded text-center font-bold font-orbitron text-gray-200 focus:border-neon-purple/50 focus:outline-none"
+                          />
+                        ) : (
+                          <span className="w-20 px-2 py-1 text-center font-bold font-orbitron text-gray-200">
+                            {subScores ? value : '--'}
+                          </span>
+                        )}
+                      </div>
+                      <input
+                        type="range"
+                        min="0"
+                        max="100"
+                        value={value}
+                        disabled={!selfReportedKey}
+                        onChange={(e) => selfReportedKey && setSelfReportedScore(selfReportedKey, Number(e.target.value))}
+                        className="w-full h-2 bg-gray-800 rounded-full appearance-none cursor-pointer accent-neon-purple disabled:cursor-default"
+                        style={{
+                          background: `linear-gradient(to right, ${dimension.stroke} 0%, ${dimension.stroke} ${value}%, #1f1f29 ${value}%, #1f1f29 100%)`
+                        }}
+                      />
+                    </div>
+                  )
+                })}
               </div>
             </div>
 
-            {/* 里程等级 */}
+            {/* 里程等级：由遥测里程推导 */}
             <div>
               <label className="block text-sm font-orbitron text-gray-400 tracking-wider mb-4">
-                DISTANCE_CATEGORY
+                DISTANCE_CATEGORY · FROM_TRIP_FILE
               </label>
               
               <div className="grid grid-cols-2 gap-3">
                 {[0, 1, 2, 3].map((level) => {
                   const info = getDistanceInfo(level)
                   return (
-                    <button
+                    <div
                       key={level}
-                      type="button"
-                      onClick={() => setDistanceCategory(level)}
-                      className={`relative overflow-hidden group ${
+                      className={`relative overflow-hidden ${
                         distanceCategory === level ? 'border-2' : 'border'
                       }`}
                       style={{
@@ -244,8 +540,8 @@ export default function Submit({ wallet, fhevm }: SubmitProps) {
                       }}
                     >
                       <div className={`absolute inset-0 bg-gradient-to-r ${info.color} ${
-                        distanceCategory === level ? 'opacity-20' : 'opacity-0 group-hover:opacity-10'
-                      } transition-opacity`}></div>
+                        distanceCategory === level ? 'opacity-20' : 'opacity-0'
+                      }`}></div>
                       <div className={`relative glass-morphism p-4 ${
                         distanceCategory === level ? 'bg-cyber-card/80' : 'bg-cyber-card/40'
                       }`}>
@@ -265,7 +561,7 @@ export default function Submit({ wallet, fhevm }: SubmitProps) {
                         </div>
                         <div className="text-xs text-gray-600 font-rajdhani">{info.desc}</div>
                       </div>
-                    </button>
+                    </div>
                   )
                 })}
               </div>
@@ -290,15 +586,15 @@ export default function Submit({ wallet, fhevm }: SubmitProps) {
             {/* 提交按钮 */}
             <button
               onClick={submitScore}
-              disabled={isSubmitting || fhevm.status !== 'ready'}
+              disabled={isSubmitDisabled}
               className={`w-full py-5 font-orbitron font-bold tracking-wider text-lg relative overflow-hidden group ${
-                isSubmitting || fhevm.status !== 'ready'
+                isSubmitDisabled
                   ? 'bg-gray-700/50 text-gray-500 cursor-not-allowed border border-gray-600/50'
                   : 'bg-gradient-to-r from-neon-purple via-neon-pink to-neon-cyan border-2 border-transparent'
               }`}
             >
               <div className={`absolute inset-0 ${
-                !(isSubmitting || fhevm.status !== 'ready')
+                !isSubmitDisabled
                   ? 'bg-gradient-to-r from-neon-cyan via-neon-pink to-neon-purple opacity-0 group-hover:opacity-100 transition-opacity'
                   : ''
               }`}></div>
@@ -310,8 +606,16 @@ export default function Submit({ wallet, fhevm }: SubmitProps) {
                   </>
                 ) : fhevm.status !== 'ready' ? (
                   <span>FHEVM_NOT_READY</span>
+                ) : !telemetry ? (
+                  <span>IMPORT_TRIP_FILE_TO_SUBMIT</span>
+                ) : isChainStateLoading ? (
+                  <span>SYNCING_CHAIN_STATE...</span>
+                ) : isTestMode ? (
+                  <span>◆ SUBMIT_RECORD · TEST_MODE</span>
+                ) : hasUnfinalizedDay ? (
+                  <span>◆ SUBMIT_RECORD · FINALIZES_PREVIOUS_DAY_FIRST</span>
                 ) : (
-                  <span>◆ SUBMIT_RECORD</span>
+                  <span>◆ SUBMIT_TRIP_{tripsToday + 1}_OF_TODAY</span>
                 )}
               </span>
             </button>
@@ -353,9 +657,12 @@ export default function Submit({ wallet, fhevm }: SubmitProps) {
               <span>SYSTEM_INFO</span>
             </h4>
             <ul className="text-sm text-cyan-300/70 font-rajdhani space-y-2">
-              <li>· ONE_SUBMISSION_PER_24H</li>
-              <li>· CONTINUOUS_RECORDS_INCREASE_STREAK</li>
+              <li>· SUBMIT_EVERY_TRIP · SAME_DAY_TRIPS_AVERAGE_INTO_ONE_DAILY_RECORD</li>
+              <li>· DAY_FINALIZES_ON_NEXT_TRIP_AFTER_UTC_MIDNIGHT</li>
+              <li>· STREAK_COUNTS_CALENDAR_DAYS_NOT_TRIPS</li>
               <li>· HIGHER_SCORE_INDICATES_SAFER_DRIVING</li>
+              <li>· SPEEDING_AND_BRAKING_SCORED_FROM_GPX_CSV_TRIP_LOGS · RAW_FILES_NEVER_LEAVE_THE_DEVICE</li>
+              <li>· SUB_SCORES_ENCRYPTED · OVERALL_SCORE_IS_THEIR_WEIGHTED_SUM</li>
               <li>· DATA_VIEWABLE_IN_HISTORY_AND_ANALYTICS</li>
             </ul>
           </div>
@@ -0,0 +1,64 @@
+import { expect } from "chai";
+import { readTripSamples } from "../src/lib/tripImport";
+
+const csvFile = (rows: string[]) => new File([rows.join("\n")], "trip.csv", { type: "text/csv" });
+const jsonFile = (samples: object[]) => new File([JSON.stringify(samples)], "trip.json", { type: "application/json" });
+
+async function sampleTimes(file: File) {
+  const { samples, errors } = await readTripSamples(file);
+  expect(errors).to.deep.eq([]);
+  return samples.map((sample) => sample.timestamp);
+}
+
+describe("tripImport", function () {
+  describe("timestamp units", function () {
+    it("reads relative millisecond timestamps as milliseconds", async function () {
+      const times = await sampleTimes(csvFile(["timestamp,speed_kmh", "0,30", "1000,32", "2000,35"]));
+      expect(times).to.deep.eq([0, 1000, 2000]);
+    });
+
+    it("reads relative second timestamps as seconds", async function () {
+      const times = await sampleTimes(csvFile(["time,speed_kmh", "0,30", "1,32", "2,35"]));
+      expect(times).to.deep.eq([0, 1000, 2000]);
+    });
+
+    it("uses the unit from the column header over the sample spacing", async function () {
+      // 间隔 500 按数值会推断为毫秒，表头明确为秒
+      const seconds = await sampleTimes(csvFile(["time_s,speed_kmh", "0,30", "500,32", "1000,35"]));
+      expect(seconds).to.deep.eq([0, 500_000, 1_000_000]);
+
+      // 间隔 5 按数值会推断为秒，表头明确为毫秒
+      const milliseconds = await sampleTimes(csvFile(["timestamp_ms,speed_kmh", "0,30", "5,32", "10,35"]));
+      expect(milliseconds).to.deep.eq([0, 5, 10]);
+    });
+
+    it("reads absolute epoch timestamps in seconds and milliseconds", async function () {
+      const start = 1_700_000_000;
+      const seconds = await sampleTimes(jsonFile([0, 1, 2].map((i) => ({ timestamp: start + i, speedKmh: 30 }))));
+      expect(seconds).to.deep.eq([0, 1, 2].map((i) => (start + i) * 1000));
+
+      const milliseconds = await sampleTimes(
+        jsonFile([0, 1, 2].map((i) => ({ timestamp: start * 1000 + i * 1000, speedKmh: 30 }))),
+      );
+      expect(milliseconds).to.deep.eq([0, 1, 2].map((i) => (start + i) * 1000));
+    });
+
+    it("reads relative millisecond timestamps in JSON samples", async function () {
+      const times = await sampleTimes(
+        jsonFile([
+          { timestamp: 0, speedKmh: 30 },
+          { timestamp: 1000, speedKmh: 32 },
+          { timestamp: 2000, speedKmh: 35 },
+        ]),
+      );
+      expect(times).to.deep.eq([0, 1000, 2000]);
+    });
+
+    it("parses ISO timestamps regardless of unit detection", async function () {
+      const times = await sampleTimes(
+        csvFile(["datetime,speed_kmh", "2024-01-01T00:00:00Z,30", "2024-01-01T00:00:01Z,32"]),
+      );
+      expect(times).to.deep.eq([Date.parse("2024-01-01T00:00:00Z"), Date.parse("2024-01-01T00:00:01Z")]);
+    });
+  });
+});